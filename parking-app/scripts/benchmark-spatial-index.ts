@@ -0,0 +1,68 @@
+// Compares the grid spatial index against the linear scans it replaced, on a
+// synthetic city-scale dataset. Run with: npm run bench:spatial -- [points]
+
+import { filterByRadius, haversineDistance } from '../src/lib/utils/geospatial';
+import { createSpatialIndex } from '../src/lib/utils/spatialIndex';
+
+const POINTS = Number(process.argv[2]) || 300_000;
+const QUERIES = 200;
+const NYC = { north: 40.9176, south: 40.4774, east: -73.7004, west: -74.2591 };
+
+// Deterministic PRNG so runs are comparable
+let seed = 42;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+const randomPoint = () => ({
+  latitude: NYC.south + random() * (NYC.north - NYC.south),
+  longitude: NYC.west + random() * (NYC.east - NYC.west),
+});
+
+const points = Array.from({ length: POINTS }, (_, id) => ({ id, ...randomPoint() }));
+const queries = Array.from({ length: QUERIES }, randomPoint);
+
+const time = (label: string, run: () => number) => {
+  const start = performance.now();
+  const checksum = run();
+  const ms = performance.now() - start;
+  console.log(`${label.padEnd(34)} ${ms.toFixed(1).padStart(9)} ms  (checksum ${checksum})`);
+  return ms;
+};
+
+console.log(`${POINTS.toLocaleString()} points, ${QUERIES} queries\n`);
+
+time('build index', () => createSpatialIndex(points, (p) => p).size);
+const index = createSpatialIndex(points, (p) => p);
+
+const linearRadius = time('radius 500m: linear scan', () =>
+  queries.reduce((sum, q) => sum + filterByRadius(points, q.latitude, q.longitude, 500).length, 0)
+);
+const indexedRadius = time('radius 500m: grid index', () =>
+  queries.reduce((sum, q) => sum + index.withinRadius(q.latitude, q.longitude, 500).length, 0)
+);
+
+const linearNearest = time('nearest: linear scan', () =>
+  queries.reduce((sum, q) => {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (const p of points) {
+      const d = haversineDistance(q.latitude, q.longitude, p.latitude, p.longitude);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = p.id;
+      }
+    }
+    return sum + best;
+  }, 0)
+);
+const indexedNearest = time('nearest: grid index', () =>
+  queries.reduce((sum, q) => sum + index.nearest(q.latitude, q.longitude, 1)[0].item.id, 0)
+);
+
+time('k=10 nearest: grid index', () =>
+  queries.reduce((sum, q) => sum + index.nearest(q.latitude, q.longitude, 10).length, 0)
+);
+
+console.log(`\nradius speedup:  ${(linearRadius / indexedRadius).toFixed(0)}x`);
+console.log(`nearest speedup: ${(linearNearest / indexedNearest).toFixed(0)}x`);
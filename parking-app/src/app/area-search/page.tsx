@@ -0,0 +1,396 @@
+"use client"
+
+import * as React from "react"
+import { AlertCircle, Bookmark, BookmarkPlus, Download, Loader2, MapPin, PenLine, Trash2 } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+import { useSearchParams } from "next/navigation"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { NYCMap } from "@/components/map/nyc-map"
+import { api } from "@/lib/api"
+import { BookmarkedLocation, MapLocation, MapMarker, SearchArea, Violation } from "@/lib/types"
+import { constants, exportUtils, storage } from "@/lib/utils"
+import { areaCenter, areaRing, areaSquareMeters } from "@/lib/utils/geospatial"
+
+const areaBookmarks = () => storage.getBookmarks().filter((b) => b.type === 'area' && b.area)
+
+// The map shows one page of violations; exports page through all of them
+async function fetchAllViolations(area: SearchArea): Promise<Violation[]> {
+  const violations: Violation[] = []
+  let total = Infinity
+  while (violations.length < total) {
+    const page = await api.getViolations({ area, limit: constants.MAX_VIOLATIONS_LIMIT, offset: violations.length })
+    if (page.violations.length === 0) break
+    violations.push(...page.violations)
+    total = page.total
+  }
+  return violations
+}
+
+function AreaSearchContent() {
+  const searchParams = useSearchParams()
+
+  // A saved area can be opened with ?bookmark=<id>
+  const [area, setArea] = React.useState<SearchArea | null>(null)
+  const [bookmarks, setBookmarks] = React.useState<BookmarkedLocation[]>([])
+  const [areaName, setAreaName] = React.useState('')
+
+  // Bookmarks live in localStorage, so they are read after mounting
+  React.useEffect(() => {
+    const saved = areaBookmarks()
+    setBookmarks(saved)
+    const opened = saved.find((b) => b.id === searchParams.get('bookmark'))
+    if (opened?.area) {
+      setArea(opened.area)
+      setAreaName(opened.name)
+    }
+  }, [searchParams])
+
+  const center = React.useMemo((): MapLocation => {
+    if (!area) return constants.NYC_CENTER
+    const [latitude, longitude] = areaCenter(area)
+    return { latitude, longitude }
+  }, [area])
+
+  const {
+    data: parkingSigns,
+    isLoading: signsLoading,
+    error: signsError,
+  } = useQuery({
+    queryKey: ['area-signs', area],
+    queryFn: ({ signal }) => api.getParkingSigns({ area: area! }, { signal }),
+    enabled: !!area,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const {
+    data: meters,
+    isLoading: metersLoading,
+    error: metersError,
+  } = useQuery({
+    queryKey: ['area-meters', area],
+    queryFn: ({ signal }) => api.getMeterRates({ area: area! }, { signal }),
+    enabled: !!area,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const {
+    data: violationsData,
+    isLoading: violationsLoading,
+    error: violationsError,
+  } = useQuery({
+    queryKey: ['area-violations', area],
+    queryFn: ({ signal }) => api.getViolations({ area: area!, limit: constants.VIOLATIONS_PAGE_SIZE }, { signal }),
+    enabled: !!area,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const [exporting, setExporting] = React.useState(false)
+  const [exportError, setExportError] = React.useState<Error | null>(null)
+
+  const isLoading = signsLoading || metersLoading || violationsLoading
+  const error = signsError || metersError || violationsError || exportError
+
+  const mapMarkers = React.useMemo((): MapMarker[] => {
+    const markers: MapMarker[] = []
+    parkingSigns?.forEach((sign) => {
+      markers.push({
+        id: sign.id,
+        latitude: sign.latitude,
+        longitude: sign.longitude,
+        type: 'parking_sign',
+        data: sign,
+        popup: {
+          title: sign.street_name || 'Parking Sign',
+          content: sign.description,
+        },
+      })
+    })
+    meters?.forEach((meter) => {
+      markers.push({
+        id: meter.id,
+        latitude: meter.latitude,
+        longitude: meter.longitude,
+        type: 'meter',
+        data: meter,
+        popup: {
+          title: `Meter - ${meter.street_name}`,
+          content: meter.status || 'unknown',
+        },
+      })
+    })
+    violationsData?.violations.forEach((violation) => {
+      markers.push({
+        id: `violation-${violation.id}`,
+        latitude: violation.latitude,
+        longitude: violation.longitude,
+        type: 'violation',
+        data: violation,
+        popup: {
+          title: violation.violation_type,
+          content: `Fine: $${violation.fine_amount}\nDate: ${new Date(violation.issue_date).toLocaleDateString()}`,
+        },
+      })
+    })
+    return markers
+  }, [parkingSigns, meters, violationsData])
+
+  const handleSave = () => {
+    if (!area) return
+    storage.saveBookmark({
+      name: areaName.trim() || `Area ${center.latitude.toFixed(4)}, ${center.longitude.toFixed(4)}`,
+      latitude: center.latitude,
+      longitude: center.longitude,
+      address: '',
+      type: 'area',
+      area,
+    })
+    setAreaName('')
+    setBookmarks(areaBookmarks())
+  }
+
+  const handleRemove = (id: string) => {
+    storage.removeBookmark(id)
+    setBookmarks(areaBookmarks())
+  }
+
+  // The polygon plus everything found inside it, one point feature per result
+  const handleExport = async () => {
+    if (!area) return
+    setExporting(true)
+    setExportError(null)
+    let violations: Violation[]
+    try {
+      violations = await fetchAllViolations(area)
+    } catch (err) {
+      setExportError(err instanceof Error ? err : new Error('Failed to export the area'))
+      return
+    } finally {
+      setExporting(false)
+    }
+    const point = (longitude: number, latitude: number, properties: object) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties,
+    })
+    exportUtils.downloadGeoJSON({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Polygon', coordinates: [areaRing(area)] },
+          properties: { kind: 'search_area', name: areaName.trim() || undefined },
+        },
+        ...(parkingSigns ?? []).map((sign) => point(sign.longitude, sign.latitude, { kind: 'parking_sign', ...sign })),
+        ...(meters ?? []).map((meter) => point(meter.longitude, meter.latitude, { kind: 'meter', ...meter })),
+        ...violations.map((v) => point(v.longitude, v.latitude, { kind: 'violation', ...v })),
+      ],
+    }, `area-search-${new Date().toISOString().split('T')[0]}`)
+  }
+
+  const squareKm = area ? areaSquareMeters(area) / 1_000_000 : 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Area Search</h1>
+        <p className="text-muted-foreground">
+          Draw an area on the map to find every sign, meter and violation inside it
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-4">
+          {/* Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PenLine className="h-5 w-5" />
+                Selected Area
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!area ? (
+                <p className="text-sm text-muted-foreground">
+                  Use Draw Area on the map and click to place each corner.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div>
+                      <div className="text-muted-foreground">Area</div>
+                      <div className="text-lg font-semibold">{squareKm.toFixed(squareKm < 1 ? 3 : 2)} km²</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Parking signs</div>
+                      <div className="text-lg font-semibold">{parkingSigns?.length.toLocaleString() ?? '–'}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Meters</div>
+                      <div className="text-lg font-semibold">{meters?.length.toLocaleString() ?? '–'}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Violations</div>
+                      <div className="text-lg font-semibold">{violationsData?.total.toLocaleString() ?? '–'}</div>
+                    </div>
+                  </div>
+                  {violationsData && violationsData.total > violationsData.violations.length && (
+                    <p className="text-xs text-muted-foreground">
+                      The map shows the {violationsData.violations.length.toLocaleString()} most recent violations;
+                      the export includes all {violationsData.total.toLocaleString()}
+                    </p>
+                  )}
+                  {isLoading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Searching the area...
+                    </div>
+                  )}
+                  <Button variant="outline" className="w-full" onClick={handleExport} disabled={isLoading || exporting}>
+                    {exporting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    {exporting ? 'Exporting...' : 'Export GeoJSON'}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Saved Areas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bookmark className="h-5 w-5" />
+                Saved Areas
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  value={areaName}
+                  onChange={(e) => setAreaName(e.target.value)}
+                  placeholder="Name this area"
+                  disabled={!area}
+                />
+                <Button variant="outline" onClick={handleSave} disabled={!area}>
+                  <BookmarkPlus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {bookmarks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved areas yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {bookmarks.map((bookmark) => (
+                    <li key={bookmark.id} className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        className="flex-1 truncate text-left text-sm hover:underline"
+                        onClick={() => setArea(bookmark.area ?? null)}
+                        title={bookmark.name}
+                      >
+                        {bookmark.name}
+                      </button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(bookmark.id)} title="Remove">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Map */}
+        <div className="lg:col-span-2">
+          <Card className="h-full border-0 shadow-none">
+            <CardContent className="p-0">
+              <NYCMap
+                center={center}
+                zoom={area ? constants.MAP_ZOOM.NEIGHBORHOOD : constants.MAP_ZOOM.CITY}
+                markers={mapMarkers}
+                area={area}
+                onAreaDraw={setArea}
+                height="600px"
+                className="h-full rounded-xl overflow-hidden"
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              <span className="font-medium">Search Error</span>
+              <span className="text-sm">
+                {error instanceof Error ? error.message : 'Failed to search the area'}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sign summary by street */}
+      {parkingSigns && parkingSigns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Signs by Street
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 text-sm">
+              {Object.entries(
+                parkingSigns.reduce<Record<string, number>>((acc, sign) => {
+                  const street = sign.street_name || 'Unknown street'
+                  acc[street] = (acc[street] ?? 0) + 1
+                  return acc
+                }, {})
+              )
+                .sort((a, b) => b[1] - a[1])
+                .map(([street, count]) => (
+                  <div key={street} className="flex justify-between rounded-md bg-muted px-3 py-2">
+                    <span className="truncate pr-2">{street}</span>
+                    <span className="text-muted-foreground">{count}</span>
+                  </div>
+                ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default function AreaSearchPage() {
+  return (
+    <React.Suspense fallback={
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Area Search</h1>
+          <p className="text-muted-foreground">
+            Draw an area on the map to find every sign, meter and violation inside it
+          </p>
+        </div>
+        <div className="text-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    }>
+      <AreaSearchContent />
+    </React.Suspense>
+  )
+}
@@ -5,6 +5,7 @@ import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { QueryProvider } from "@/components/query-provider";
 import { Header } from "@/components/header";
+import { SuspensionBanner } from "@/components/suspension-banner";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -50,6 +51,7 @@ export default function RootLayout({
           <QueryProvider>
             <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50 dark:from-slate-900 dark:via-slate-950 dark:to-slate-900">
               <Header />
+              <SuspensionBanner />
               <main className="container mx-auto px-4 py-6">
                 {children}
               </main>
@@ -1,18 +1,28 @@
 "use client"
 
 import * as React from "react"
-import { Search, MapPin, Clock, CreditCard, AlertCircle, Loader2, CheckCircle } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
+import { Search, MapPin, Clock, CreditCard, AlertCircle, Loader2, CheckCircle, Filter } from "lucide-react"
+import { useQuery, keepPreviousData } from "@tanstack/react-query"
 import { useSearchParams } from "next/navigation"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { NYCMap } from "@/components/map/nyc-map"
 import { AddressSearch } from "@/components/forms/address-search"
 import { CoordinateInput } from "@/components/forms/coordinate-input"
+import { ParkingCostCalculator } from "@/components/meters/parking-cost-calculator"
+import { MeterList } from "@/components/meters/meter-list"
+import { useViewportSearch } from "@/hooks/use-viewport-search"
 import { api, apiUtils } from "@/lib/api"
-import { MapLocation, MapMarker } from "@/lib/types"
+import { MapLocation, MapMarker, MeterStatus } from "@/lib/types"
 import { constants, urlUtils, validation } from "@/lib/utils"
+import { loadSuspensionCalendar, meterSuspension } from "@/lib/regulations/suspensions"
+import { compareMeterRates } from "@/lib/regulations/meterRates"
+
+type MeterSort = 'distance' | 'rate' | 'street_name'
+
+const RADIUS_OPTIONS = [250, 500, 1000, 2000]
 
 function MeterRatesContent() {
   const searchParams = useSearchParams()
@@ -33,24 +43,71 @@ function MeterRatesContent() {
     return constants.NYC_CENTER
   })
   
+  const [searchRadius, setSearchRadius] = React.useState(() => {
+    const radius = searchParams.get('radius')
+    return radius && validation.isValidRadius(radius) ? parseInt(radius) : constants.DEFAULT_RADIUS
+  })
+  
   const [showCoordinateInput, setShowCoordinateInput] = React.useState(false)
+  const [statusFilter, setStatusFilter] = React.useState<'all' | MeterStatus>('all')
+  const [sortBy, setSortBy] = React.useState<MeterSort>('distance')
+  const [selectedMeterId, setSelectedMeterId] = React.useState<string>()
+  const viewportSearch = useViewportSearch()
+  const viewportArea = viewportSearch.area
+  const clearViewportSearch = viewportSearch.clear
 
-  // Fetch meter rate data
+  // Fetch the nearest meters, nearest first; every meter in view when searching the map area
   const {
-    data: meterRate,
+    data: meters,
     isLoading,
+    isFetching,
     error,
     refetch,
   } = useQuery({
-    queryKey: ['meter-rate', searchLocation.latitude, searchLocation.longitude],
-    queryFn: () => api.getMeterRate({
-      lat: searchLocation.latitude,
-      lon: searchLocation.longitude,
-    }),
+    queryKey: viewportArea
+      ? ['meter-rates', viewportArea, statusFilter]
+      : ['meter-rates', searchLocation.latitude, searchLocation.longitude, searchRadius, statusFilter],
+    queryFn: ({ signal }) => api.getMeterRates({
+      ...(viewportArea ? { area: viewportArea } : {
+        lat: searchLocation.latitude,
+        lon: searchLocation.longitude,
+        radius: searchRadius,
+      }),
+      limit: viewportArea ? constants.VIEWPORT_RESULT_LIMIT : constants.METER_RESULTS_LIMIT,
+      status: statusFilter === 'all' ? undefined : [statusFilter],
+    }, { signal }),
     enabled: apiUtils.isValidCoordinate(searchLocation.latitude, searchLocation.longitude),
+    placeholderData: viewportArea ? keepPreviousData : undefined,
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
+  const comparisons = React.useMemo(() => compareMeterRates(meters ?? []), [meters])
+
+  const sortedMeters = React.useMemo(() => {
+    const sorted = [...(meters ?? [])]
+    if (sortBy === 'distance') {
+      sorted.sort((a, b) => a.distance - b.distance)
+    } else if (sortBy === 'rate') {
+      // Meters without a known rate go last
+      const rate = (id: string) => comparisons.get(id)?.peak_rate ?? Infinity
+      sorted.sort((a, b) => rate(a.id) - rate(b.id) || a.distance - b.distance)
+    } else if (sortBy === 'street_name') {
+      sorted.sort((a, b) => a.street_name.localeCompare(b.street_name))
+    }
+    return sorted
+  }, [meters, comparisons, sortBy])
+
+  // Details follow the selected meter, defaulting to the nearest one
+  const meterRate = meters?.find((m) => m.id === selectedMeterId) ?? meters?.[0]
+
+  // Meters are free on major legal holidays
+  const { data: suspensionCalendar } = useQuery({
+    queryKey: ['suspension-calendar'],
+    queryFn: loadSuspensionCalendar,
+    staleTime: Infinity,
+  })
+  const metersSuspended = meterSuspension(new Date(), suspensionCalendar)
+
   // Create map markers
   const mapMarkers = React.useMemo((): MapMarker[] => {
     const markers: MapMarker[] = [
@@ -67,36 +124,40 @@ function MeterRatesContent() {
       },
     ]
 
-    // Meter marker
-    if (meterRate) {
+    // Meter markers
+    meters?.forEach((meter) => {
+      const peak = comparisons.get(meter.id)?.peak_rate
       markers.push({
-        id: meterRate.id,
-        latitude: meterRate.latitude,
-        longitude: meterRate.longitude,
+        id: meter.id,
+        latitude: meter.latitude,
+        longitude: meter.longitude,
         type: 'meter',
-        data: meterRate,
+        data: meter,
         popup: {
-          title: `Meter - ${meterRate.street_name}`,
-          content: `${apiUtils.formatDistance(meterRate.distance)} away - ${(meterRate.status || 'unknown')}`,
+          title: `Meter - ${meter.street_name}${meter.id === meterRate?.id ? ' (selected)' : ''}`,
+          content: `${apiUtils.formatDistance(meter.walking_distance ?? meter.distance)} walk - ${meter.status || 'unknown'}${peak !== undefined ? ` - $${peak.toFixed(2)}/hr` : ''}`,
         },
       })
-    }
+    })
 
     return markers
-  }, [searchLocation, meterRate])
+  }, [searchLocation, meters, comparisons, meterRate])
+
+  const handleMarkerClick = React.useCallback((marker: MapMarker) => {
+    if (marker.type === 'meter') setSelectedMeterId(marker.id)
+  }, [])
 
   // Handle location selection
   const handleLocationSelect = React.useCallback((location: MapLocation) => {
     setSearchLocation(location)
-    
-    // Update URL parameters
-    const params = new URLSearchParams()
-    params.set('lat', location.latitude.toString())
-    params.set('lon', location.longitude.toString())
-    if (location.address) params.set('address', location.address)
-    
-    window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`)
-  }, [])
+    setSelectedMeterId(undefined)
+    clearViewportSearch()
+  }, [clearViewportSearch])
+
+  // Keep the URL parameters in step with the search
+  React.useEffect(() => {
+    urlUtils.replaceSearchParams(searchLocation, searchRadius)
+  }, [searchLocation, searchRadius])
 
   // Get status color (robust to undefined)
   const getStatusColor = (status?: string) => {
@@ -133,7 +194,7 @@ function MeterRatesContent() {
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Meter Rates</h1>
         <p className="text-muted-foreground">
-          Find the nearest parking meter and check rates, hours, and payment options
+          Compare nearby parking meters and check rates, hours, and payment options
         </p>
       </div>
 
@@ -173,6 +234,66 @@ function MeterRatesContent() {
             </CardContent>
           </Card>
 
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5" />
+                Filters & Sort
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Radius */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Search radius</label>
+                <Select value={searchRadius.toString()} onValueChange={(value) => setSearchRadius(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* A radius dragged on the map may not be a preset */}
+                    {(RADIUS_OPTIONS.includes(searchRadius) ? RADIUS_OPTIONS : [...RADIUS_OPTIONS, searchRadius].sort((a, b) => a - b)).map((radius) => (
+                      <SelectItem key={radius} value={radius.toString()}>
+                        {apiUtils.formatDistance(radius)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Status filter */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Status</label>
+                <Select value={statusFilter} onValueChange={(value: 'all' | MeterStatus) => setStatusFilter(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Meters</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="inactive">Inactive</SelectItem>
+                    <SelectItem value="maintenance">Maintenance</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Sort */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Sort by</label>
+                <Select value={sortBy} onValueChange={(value: MeterSort) => setSortBy(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="distance">Distance</SelectItem>
+                    <SelectItem value="rate">Hourly Rate</SelectItem>
+                    <SelectItem value="street_name">Street Name</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Search Info */}
           <Card>
             <CardHeader>
@@ -251,6 +372,12 @@ function MeterRatesContent() {
                 zoom={constants.MAP_ZOOM.STREET}
                 markers={mapMarkers}
                 onLocationSelect={handleLocationSelect}
+                onMarkerClick={handleMarkerClick}
+                searchRadius={searchRadius}
+                onSearchRadiusChange={setSearchRadius}
+                viewportSearch={viewportSearch}
+                viewportSearchLoading={isFetching}
+                viewportSearchTruncated={(meters?.length ?? 0) >= constants.VIEWPORT_RESULT_LIMIT}
                 height="600px"
                 className="h-full rounded-xl overflow-hidden"
               />
@@ -262,7 +389,12 @@ function MeterRatesContent() {
       {/* Results */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-2xl font-semibold">Nearest Meter</h2>
+          <h2 className="text-2xl font-semibold">Nearby Meters</h2>
+          {meters && meters.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {meters.length} {viewportArea ? 'in the visible map area' : `within ${apiUtils.formatDistance(searchRadius)}`}
+            </span>
+          )}
         </div>
 
         {/* Error State */}
@@ -284,18 +416,18 @@ function MeterRatesContent() {
         {isLoading && (
           <div className="text-center py-8">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-            <p className="text-muted-foreground">Searching for nearest meter...</p>
+            <p className="text-muted-foreground">Searching for nearby meters...</p>
           </div>
         )}
 
         {/* No Results */}
-        {!isLoading && !error && !meterRate && (
+        {!isLoading && !error && meters && meters.length === 0 && (
           <Card>
             <CardContent className="p-8 text-center">
               <MapPin className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No Meter Found</h3>
               <p className="text-muted-foreground mb-4">
-                No parking meter was found near the selected location.
+                No {statusFilter === 'all' ? '' : `${statusFilter} `}parking meters were found {viewportArea ? 'in the visible map area' : `within ${apiUtils.formatDistance(searchRadius)} of the selected location`}.
               </p>
               <p className="text-sm text-muted-foreground">
                 Try searching in a different area or check if there are parking signs instead.
@@ -304,6 +436,16 @@ function MeterRatesContent() {
           </Card>
         )}
 
+        {/* Meter List */}
+        {sortedMeters.length > 0 && (
+          <MeterList
+            meters={sortedMeters}
+            comparisons={comparisons}
+            selectedId={meterRate?.id}
+            onSelect={(meter) => setSelectedMeterId(meter.id)}
+          />
+        )}
+
         {/* Meter Details */}
         {meterRate && (
           <Card className="overflow-hidden">
@@ -330,6 +472,9 @@ function MeterRatesContent() {
                   </h4>
                   <div className="text-sm text-muted-foreground space-y-1">
                     <div>Distance: {apiUtils.formatDistance(meterRate.distance)}</div>
+                    {meterRate.walking_minutes !== undefined && (
+                      <div>Walk: about {meterRate.walking_minutes} min</div>
+                    )}
                     <div>Coordinates: {meterRate.latitude.toFixed(6)}, {meterRate.longitude.toFixed(6)}</div>
                     {meterRate.borough && <div>Borough: {meterRate.borough}</div>}
                   </div>
@@ -341,6 +486,7 @@ function MeterRatesContent() {
                     Details
                   </h4>
                   <div className="text-sm text-muted-foreground space-y-1">
+                    {meterRate.rate_zone && <div>Rate Zone: {meterRate.rate_zone}</div>}
                     {meterRate.meter_type && <div>Type: {meterRate.meter_type}</div>}
                     {meterRate.max_time_limit && <div>Max Time: {meterRate.max_time_limit}</div>}
                   </div>
@@ -353,6 +499,11 @@ function MeterRatesContent() {
                   <CreditCard className="h-4 w-4" />
                   Rate Schedule
                 </h4>
+                {metersSuspended && (
+                  <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 text-sm text-amber-900 dark:bg-amber-950/40 dark:text-amber-100">
+                    Meters are not in effect today ({metersSuspended.holiday}) — no payment required.
+                  </div>
+                )}
                 <div className="grid gap-3">
                   {meterRate.rate_schedule.map((schedule, index) => (
                     <div
@@ -362,6 +513,9 @@ function MeterRatesContent() {
                       <div className="flex items-center gap-2">
                         <Clock className="h-4 w-4 text-muted-foreground" />
                         <span className="font-medium">{schedule.hours}</span>
+                        {schedule.vehicle_class && (
+                          <span className="text-xs text-muted-foreground capitalize">{schedule.vehicle_class}</span>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="font-semibold text-lg">
@@ -376,6 +530,11 @@ function MeterRatesContent() {
                 </div>
               </div>
 
+              {/* Cost Calculator */}
+              {meterRate.rate_periods && meterRate.rate_periods.length > 0 && (
+                <ParkingCostCalculator periods={meterRate.rate_periods} calendar={suspensionCalendar} />
+              )}
+
               {/* Payment Methods */}
               {meterRate.payment_methods && meterRate.payment_methods.length > 0 && (
                 <div className="space-y-3">
@@ -423,7 +582,7 @@ export default function MeterRatesPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Meter Rates</h1>
           <p className="text-muted-foreground">
-            Find the nearest parking meter and check rates, hours, and payment options
+            Compare nearby parking meters and check rates, hours, and payment options
           </p>
         </div>
         <div className="text-center py-8">
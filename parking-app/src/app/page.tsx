@@ -9,9 +9,16 @@ import { Button } from "@/components/ui/button"
 import { NYCMap } from "@/components/map/nyc-map"
 import { AddressSearch } from "@/components/forms/address-search"
 import { CoordinateInput } from "@/components/forms/coordinate-input"
+import { ParkingVerdictPanel } from "@/components/signs/parking-verdict"
+import { TicketRiskPanel } from "@/components/signs/ticket-risk"
+import { SavedLocations } from "@/components/bookmarks/saved-locations"
+import { SuspensionCalendarCard } from "@/components/calendar/suspension-calendar-card"
 import { api, apiUtils } from "@/lib/api"
 import { MapLocation, MapMarker, Borough, NYC_BOROUGHS, ParkingSign, MeterRate } from "@/lib/types"
-import { constants, urlUtils } from "@/lib/utils"
+import { constants, dateUtils, performanceUtils, urlUtils, validation } from "@/lib/utils"
+import { evaluateParking, selectBlockFace } from "@/lib/regulations/evaluator"
+import { loadSuspensionCalendar } from "@/lib/regulations/suspensions"
+import { computeTicketRisk, createRiskSurface } from "@/lib/analytics/ticketRisk"
 
 export default function Home() {
   const [selectedLocation, setSelectedLocation] = React.useState<MapLocation>(constants.NYC_CENTER)
@@ -34,14 +41,49 @@ export default function Home() {
     enabled: healthData?.status === 'healthy',
   })
 
-  // Load location from URL on mount
+  // Time the map's block faces are coloured for; null follows the clock
+  const [regulationTime, setRegulationTime] = React.useState<Date | null>(null)
+
+  // Load location, radius and time from URL on mount
   React.useEffect(() => {
     const locationFromURL = urlUtils.parseLocationFromURL()
     if (locationFromURL) {
       setSelectedLocation(locationFromURL)
     }
+    const radiusFromURL = new URLSearchParams(window.location.search).get('radius')
+    if (radiusFromURL && validation.isValidRadius(radiusFromURL)) {
+      setSearchRadius(parseInt(radiusFromURL))
+    }
+    const timeFromURL = urlUtils.parseTimeFromURL()
+    if (timeFromURL) {
+      setRegulationTime(timeFromURL)
+    }
   }, [])
 
+  // Debounced so playing the time slider does not flood the history API
+  const writeTimeToURL = React.useMemo(
+    () => performanceUtils.debounce((time: Date | null) => {
+      urlUtils.replaceSearchParam('at', time ? dateUtils.toLocalInput(time) : undefined)
+    }, constants.SEARCH_DEBOUNCE_MS),
+    []
+  )
+  const handleRegulationTimeChange = React.useCallback((time: Date | null) => {
+    setRegulationTime(time)
+    writeTimeToURL(time)
+  }, [writeTimeToURL])
+
+  // Debounced like the time, since the radius slider reports every step
+  const writeRadiusToURL = React.useMemo(
+    () => performanceUtils.debounce((radius: number) => {
+      urlUtils.replaceSearchParam('radius', radius.toString())
+    }, constants.SEARCH_DEBOUNCE_MS),
+    []
+  )
+  const handleSearchRadiusChange = React.useCallback((radius: number) => {
+    setSearchRadius(radius)
+    writeRadiusToURL(radius)
+  }, [writeRadiusToURL])
+
   // Handle location selection
   const handleLocationSelect = React.useCallback((location: MapLocation) => {
     setSelectedLocation(location)
@@ -50,11 +92,11 @@ export default function Home() {
   // Fetch parking signs near the selected location
   const { data: parkingSignsData } = useQuery<ParkingSign[]>({
     queryKey: ['home-parking-signs', selectedLocation.latitude, selectedLocation.longitude, searchRadius],
-    queryFn: () => api.getParkingSigns({
+    queryFn: ({ signal }) => api.getParkingSigns({
       lat: selectedLocation.latitude,
       lon: selectedLocation.longitude,
       radius: searchRadius,
-    }),
+    }, { signal }),
     enabled: apiUtils.isValidCoordinate(selectedLocation.latitude, selectedLocation.longitude),
     staleTime: 5 * 60 * 1000,
   })
@@ -63,13 +105,80 @@ export default function Home() {
     [parkingSignsData]
   )
 
+  // "Can I park here?" inputs; an empty start means now, refreshed every minute
+  const [startInput, setStartInput] = React.useState('')
+  const [duration, setDuration] = React.useState(60)
+  const [now, setNow] = React.useState(() => new Date())
+  React.useEffect(() => {
+    if (startInput) return
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [startInput])
+  const start = React.useMemo(() => (startInput ? new Date(startInput) : now), [startInput, now])
+
+  // Signs on the block face nearest the selected location
+  const { data: blockFaceSignsData, isLoading: isBlockFaceLoading } = useQuery<ParkingSign[]>({
+    queryKey: ['home-block-face', selectedLocation.latitude, selectedLocation.longitude],
+    queryFn: ({ signal }) => api.getParkingSigns({
+      lat: selectedLocation.latitude,
+      lon: selectedLocation.longitude,
+      radius: constants.BLOCK_FACE_RADIUS,
+    }, { signal }),
+    enabled: apiUtils.isValidCoordinate(selectedLocation.latitude, selectedLocation.longitude),
+    staleTime: 5 * 60 * 1000,
+  })
+  const { data: suspensionCalendar } = useQuery({
+    queryKey: ['suspension-calendar'],
+    queryFn: loadSuspensionCalendar,
+    staleTime: Infinity,
+  })
+  const verdict = React.useMemo(() => {
+    if (!blockFaceSignsData || isNaN(start.getTime())) return undefined
+    return evaluateParking(selectBlockFace(blockFaceSignsData), { start, duration_minutes: duration }, suspensionCalendar)
+  }, [blockFaceSignsData, start, duration, suspensionCalendar])
+
+  // Violations around the selected location, for the ticket risk score
+  const { data: riskViolationsData, isLoading: isRiskLoading } = useQuery({
+    queryKey: ['home-risk-violations', selectedLocation.latitude, selectedLocation.longitude],
+    queryFn: ({ signal }) => api.getViolations({
+      lat: selectedLocation.latitude,
+      lon: selectedLocation.longitude,
+      radius: constants.TICKET_RISK_CONTEXT_RADIUS,
+      limit: constants.MAX_VIOLATIONS_LIMIT,
+    }, { signal }),
+    enabled: apiUtils.isValidCoordinate(selectedLocation.latitude, selectedLocation.longitude),
+    staleTime: 10 * 60 * 1000,
+  })
+  const ticketRisk = React.useMemo(() => {
+    if (!riskViolationsData || isNaN(start.getTime())) return undefined
+    return computeTicketRisk({
+      location: selectedLocation,
+      window: { start, duration_minutes: duration },
+      violations: riskViolationsData.violations,
+      center: selectedLocation,
+      verdict,
+    })
+  }, [riskViolationsData, selectedLocation, start, duration, verdict])
+  // Risk under the cursor on the map, for the same stay
+  const riskSurface = React.useMemo(() => {
+    if (!riskViolationsData || isNaN(start.getTime())) return undefined
+    return createRiskSurface({
+      center: selectedLocation,
+      violations: riskViolationsData.violations,
+      signs: parkingSigns,
+      signRadius: searchRadius,
+      window: { start, duration_minutes: duration },
+      calendar: suspensionCalendar,
+    })
+  }, [riskViolationsData, selectedLocation, parkingSigns, searchRadius, start, duration, suspensionCalendar])
+
   // Fetch nearest meter for the selected location
   const { data: meterRate } = useQuery<MeterRate | undefined>({
     queryKey: ['home-meter-rate', selectedLocation.latitude, selectedLocation.longitude],
-    queryFn: () => api.getMeterRate({
+    queryFn: ({ signal }) => api.getMeterRate({
       lat: selectedLocation.latitude,
       lon: selectedLocation.longitude,
-    }),
+    }, { signal }),
     enabled: apiUtils.isValidCoordinate(selectedLocation.latitude, selectedLocation.longitude),
     staleTime: 5 * 60 * 1000,
   })
@@ -99,7 +208,7 @@ export default function Home() {
         type: 'parking_sign',
         data: sign,
         popup: {
-          title: sign.street_name || 'Parking Sign',
+          title: sign.id === verdict?.sign?.id ? `${sign.street_name} (applies to your stay)` : sign.street_name || 'Parking Sign',
           content: `${sign.description}`,
         },
       })
@@ -153,7 +262,7 @@ export default function Home() {
     })
 
     return markers
-  }, [selectedLocation, parkingSigns, meterRate])
+  }, [selectedLocation, parkingSigns, meterRate, verdict])
 
   const isHealthy = healthData?.status === 'healthy'
   const hasError = !!healthError
@@ -315,13 +424,25 @@ export default function Home() {
                   onLocationSelect={handleLocationSelect}
                   initialLocation={selectedLocation}
                   showRadius={true}
-                  onRadiusChange={setSearchRadius}
+                  onRadiusChange={handleSearchRadiusChange}
                   initialRadius={searchRadius}
                 />
               )}
             </CardContent>
           </Card>
 
+          <ParkingVerdictPanel
+            verdict={verdict}
+            isLoading={isBlockFaceLoading}
+            start={start}
+            startInput={startInput}
+            onStartInputChange={setStartInput}
+            duration={duration}
+            onDurationChange={setDuration}
+          />
+
+          <TicketRiskPanel risk={ticketRisk} isLoading={isRiskLoading} />
+
           {/* Current Location Info */}
           <Card>
             <CardHeader>
@@ -354,6 +475,14 @@ export default function Home() {
             </CardContent>
           </Card>
 
+          <SavedLocations
+            currentLocation={selectedLocation}
+            onLocationSelect={handleLocationSelect}
+            calendar={suspensionCalendar}
+          />
+
+          <SuspensionCalendarCard />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -410,6 +539,10 @@ export default function Home() {
                 onLocationSelect={handleLocationSelect}
                 height="600px"
                 searchRadius={searchRadius}
+                onSearchRadiusChange={handleSearchRadiusChange}
+                riskAt={riskSurface}
+                regulationTime={regulationTime ?? undefined}
+                onRegulationTimeChange={handleRegulationTimeChange}
                 className="h-full rounded-xl overflow-hidden"
               />
             </CardContent>
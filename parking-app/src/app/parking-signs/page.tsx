@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { Search, MapPin, Download, Filter, AlertCircle, Loader2 } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, keepPreviousData } from "@tanstack/react-query"
 import { useSearchParams } from "next/navigation"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -12,9 +12,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { NYCMap } from "@/components/map/nyc-map"
 import { AddressSearch } from "@/components/forms/address-search"
 import { CoordinateInput } from "@/components/forms/coordinate-input"
+import { SignRules } from "@/components/signs/sign-rules"
+import { useViewportSearch } from "@/hooks/use-viewport-search"
 import { api, apiUtils } from "@/lib/api"
 import { MapLocation, MapMarker } from "@/lib/types"
-import { constants, urlUtils, exportUtils, validation } from "@/lib/utils"
+import { constants, dateUtils, urlUtils, exportUtils, performanceUtils, validation } from "@/lib/utils"
 
 function ParkingSignsContent() {
   const searchParams = useSearchParams()
@@ -44,21 +46,37 @@ function ParkingSignsContent() {
   const [filterBorough, setFilterBorough] = React.useState<string>('all')
   const [searchTerm, setSearchTerm] = React.useState('')
   const [showCoordinateInput, setShowCoordinateInput] = React.useState(false)
+  // Time the block faces are coloured for; null follows the clock
+  const [regulationTime, setRegulationTime] = React.useState<Date | null>(
+    () => urlUtils.parseTimeFromURL(searchParams) ?? null
+  )
+  const viewportSearch = useViewportSearch()
+  const viewportArea = viewportSearch.area
+  const clearViewportSearch = viewportSearch.clear
 
   // Fetch parking signs
   const {
     data: parkingSigns = [],
     isLoading,
+    isFetching,
     error,
     refetch,
   } = useQuery({
-    queryKey: ['parking-signs', searchLocation.latitude, searchLocation.longitude, searchRadius],
-    queryFn: () => api.getParkingSigns({
+    queryKey: viewportArea
+      ? ['parking-signs', viewportArea]
+      : ['parking-signs', searchLocation.latitude, searchLocation.longitude, searchRadius],
+    // `signal` cancels the worker query when a newer click supersedes this one
+    queryFn: ({ signal }) => api.getParkingSigns(viewportArea ? {
+      area: viewportArea,
+      limit: constants.VIEWPORT_RESULT_LIMIT,
+    } : {
       lat: searchLocation.latitude,
       lon: searchLocation.longitude,
       radius: searchRadius,
-    }),
+    }, { signal }),
     enabled: apiUtils.isValidCoordinate(searchLocation.latitude, searchLocation.longitude),
+    // Keep the last view's signs on the map while the next view loads
+    placeholderData: viewportArea ? keepPreviousData : undefined,
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
@@ -107,6 +125,7 @@ function ParkingSignsContent() {
         (sign) =>
           sign.description.toLowerCase().includes(term) ||
           sign.street_name.toLowerCase().includes(term) ||
+          sign.regulations?.some((r) => r.toLowerCase().includes(term)) ||
           (sign.borough && sign.borough.toLowerCase().includes(term))
       )
     }
@@ -129,16 +148,17 @@ function ParkingSignsContent() {
   // Handle location selection
   const handleLocationSelect = React.useCallback((location: MapLocation) => {
     setSearchLocation(location)
-    
-    // Update URL parameters
-    const params = new URLSearchParams()
-    params.set('lat', location.latitude.toString())
-    params.set('lon', location.longitude.toString())
-    if (location.address) params.set('address', location.address)
-    params.set('radius', searchRadius.toString())
-    
-    window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`)
-  }, [searchRadius])
+    clearViewportSearch()
+  }, [clearViewportSearch])
+
+  // Keep the URL parameters in step with the search; debounced as the time slider plays
+  const syncURL = React.useMemo(
+    () => performanceUtils.debounce(urlUtils.replaceSearchParams, constants.SEARCH_DEBOUNCE_MS),
+    []
+  )
+  React.useEffect(() => {
+    syncURL(searchLocation, searchRadius, { at: regulationTime ? dateUtils.toLocalInput(regulationTime) : undefined })
+  }, [syncURL, searchLocation, searchRadius, regulationTime])
 
   // Handle export
   const handleExport = (format: 'json' | 'csv') => {
@@ -146,7 +166,8 @@ function ParkingSignsContent() {
       type: 'parking_signs' as const,
       data: filteredAndSortedSigns,
       filters: {
-        radius: searchRadius,
+        radius: viewportArea ? undefined : searchRadius,
+        area: viewportArea ?? undefined,
         borough: filterBorough,
         searchTerm,
         sortBy,
@@ -169,6 +190,7 @@ function ParkingSignsContent() {
         distance_meters: sign.distance,
         borough: sign.borough || '',
         sign_type: sign.sign_type || '',
+        regulations: sign.regulations?.join('; ') || '',
       }))
       exportUtils.downloadCSV(csvData, filename)
     }
@@ -322,7 +344,7 @@ function ParkingSignsContent() {
                   {isLoading ? 'Searching...' : `of ${totalResults} signs found`}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  within {searchRadius}m radius
+                  {viewportArea ? 'in the visible map area' : `within ${searchRadius}m radius`}
                 </div>
               </div>
             </CardContent>
@@ -340,6 +362,12 @@ function ParkingSignsContent() {
                 onLocationSelect={handleLocationSelect}
                 height="600px"
                 searchRadius={searchRadius}
+                onSearchRadiusChange={setSearchRadius}
+                viewportSearch={viewportSearch}
+                viewportSearchLoading={isFetching}
+                viewportSearchTruncated={parkingSigns.length >= constants.VIEWPORT_RESULT_LIMIT}
+                regulationTime={regulationTime ?? undefined}
+                onRegulationTimeChange={setRegulationTime}
                 className="h-full rounded-xl overflow-hidden"
               />
             </CardContent>
@@ -389,11 +417,15 @@ function ParkingSignsContent() {
               <MapPin className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No Parking Signs Found</h3>
               <p className="text-muted-foreground mb-4">
-                No parking signs were found within {searchRadius}m of the selected location.
+                {viewportArea
+                  ? 'No parking signs were found in the visible map area.'
+                  : `No parking signs were found within ${searchRadius}m of the selected location.`}
               </p>
-              <Button onClick={() => setSearchRadius(1000)}>
-                Expand Search to 1km
-              </Button>
+              {!viewportArea && (
+                <Button onClick={() => setSearchRadius(1000)}>
+                  Expand Search to 1km
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -438,6 +470,8 @@ function ParkingSignsContent() {
                       <p className="text-sm text-muted-foreground">
                         {sign.description}
                       </p>
+
+                      {sign.rules && <SignRules rules={sign.rules} arrow={sign.arrow} />}
                       
                       <div className="flex flex-wrap gap-2 text-xs">
                         {sign.borough && (
@@ -1,16 +1,32 @@
 "use client"
 
 import * as React from "react"
-import { TrendingUp, Calendar, MapPin, Download, Filter, AlertCircle, Loader2 } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
+import { TrendingUp, Calendar, MapPin, Download, Filter, AlertCircle, Loader2, Scale } from "lucide-react"
+import { useQueries, useQuery } from "@tanstack/react-query"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ViolationChart } from "@/components/charts/violation-chart"
+import { ViolationComparison } from "@/components/charts/violation-comparison"
 import { api } from "@/lib/api"
-import { ViolationTrend, Borough, NYC_BOROUGHS } from "@/lib/types"
-import { exportUtils } from "@/lib/utils"
+import { Borough, NYC_BOROUGHS, ViolationTrend } from "@/lib/types"
+import { constants, exportUtils } from "@/lib/utils"
+import { combineTrends, rollUpTrends, TrendThresholds } from "@/lib/analytics/violationTrends"
+import { forecastMonthly, monthlySeries } from "@/lib/analytics/forecast"
+
+// Changes within ±N% of the prior year count as stable
+const STABLE_THRESHOLD_OPTIONS = [2, 5, 10, 20]
+
+// Years of history behind the forecast, including the selected one
+const FORECAST_HISTORY_YEARS = 4
+const FORECAST_HORIZON_MONTHS = 3
+
+// Stable reference so react-query memoizes the combined history
+const combineHistory = (results: Array<{ data?: ViolationTrend[]; isLoading: boolean }>) => ({
+  loaded: results.every((r) => !r.isLoading),
+  trends: results.flatMap((r) => r.data ?? []),
+})
 
 export default function ViolationTrendsPage() {
   const currentYear = new Date().getFullYear()
@@ -18,6 +34,13 @@ export default function ViolationTrendsPage() {
   const [selectedBorough, setSelectedBorough] = React.useState<Borough>('manhattan')
   const [selectedYear, setSelectedYear] = React.useState(currentYear - 1) // Default to last year
   const [selectedMonth, setSelectedMonth] = React.useState<number | undefined>(undefined)
+  const [compareMode, setCompareMode] = React.useState(false)
+  const [stableThreshold, setStableThreshold] = React.useState<number>(constants.TREND_STABLE_PERCENT)
+
+  const thresholds = React.useMemo((): TrendThresholds => ({
+    stable_percent: stableThreshold,
+    min_count: constants.TREND_MIN_COUNT,
+  }), [stableThreshold])
 
   // Available years (from 2018 to current year)
   const availableYears = Array.from(
@@ -48,53 +71,53 @@ export default function ViolationTrendsPage() {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['violation-trends', selectedBorough, selectedYear, selectedMonth],
-    queryFn: () => api.getViolationTrends({
+    queryKey: ['violation-trends', selectedBorough, selectedYear, selectedMonth, stableThreshold],
+    queryFn: ({ signal }) => api.getViolationTrends({
       borough: selectedBorough,
       year: selectedYear,
       month: selectedMonth,
-    }),
+      stable_threshold: thresholds.stable_percent,
+      min_count: thresholds.min_count,
+    }, { signal }),
     staleTime: 10 * 60 * 1000, // 10 minutes
   })
 
+  // Earlier years feed the forecast; same keys as the main query so slices are shared
+  const history = useQueries({
+    queries: Array.from({ length: FORECAST_HISTORY_YEARS - 1 }, (_, i) => selectedYear - FORECAST_HISTORY_YEARS + 1 + i).map((year) => ({
+      queryKey: ['violation-trends', selectedBorough, year, undefined, stableThreshold],
+      queryFn: ({ signal }: { signal: AbortSignal }) => api.getViolationTrends({
+        borough: selectedBorough,
+        year,
+        stable_threshold: thresholds.stable_percent,
+        min_count: thresholds.min_count,
+      }, { signal }),
+      enabled: !selectedMonth,
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    })),
+    combine: combineHistory,
+  })
+
+  // Next quarter after the last month of the selected year
+  const forecast = React.useMemo(() => {
+    if (selectedMonth || !history.loaded || violationTrends.length === 0) return undefined
+    return forecastMonthly(monthlySeries([...history.trends, ...violationTrends]), FORECAST_HORIZON_MONTHS)
+  }, [selectedMonth, history, violationTrends])
+
   // Group data for different chart types
   const chartData = React.useMemo(() => {
     if (!violationTrends.length) return { byType: [], byMonth: [], summary: [] }
 
-    // Group by violation type
-    const byType = violationTrends.reduce((acc, item) => {
-      const existing = acc.find(g => g.violation_type === item.violation_type)
-      if (existing) {
-        existing.count += item.count
-        existing.total_fines += item.total_fines
-        existing.average_fine = existing.total_fines / existing.count
-      } else {
-        acc.push({ ...item })
-      }
-      return acc
-    }, [] as ViolationTrend[])
-
-    // Group by month (if not filtered by specific month)
-    const byMonth = selectedMonth ? [] : violationTrends.reduce((acc, item) => {
-      if (!item.month) return acc
-      
-      const existing = acc.find(g => g.month === item.month)
-      if (existing) {
-        existing.count += item.count
-        existing.total_fines += item.total_fines
-        existing.average_fine = existing.total_fines / existing.count
-      } else {
-        acc.push({ ...item })
-      }
-      return acc
-    }, [] as ViolationTrend[])
+    // Rows are per type and month; roll them up with directions recomputed from the sums
+    const byType = rollUpTrends(violationTrends, 'violation_type', thresholds)
+    const byMonth = selectedMonth ? [] : rollUpTrends(violationTrends, 'month', thresholds)
 
     return {
       byType: byType.sort((a, b) => b.count - a.count),
       byMonth: byMonth.sort((a, b) => (a.month || 0) - (b.month || 0)),
       summary: violationTrends,
     }
-  }, [violationTrends, selectedMonth])
+  }, [violationTrends, selectedMonth, thresholds])
 
   // Calculate overall statistics
   const statistics = React.useMemo(() => {
@@ -105,8 +128,10 @@ export default function ViolationTrendsPage() {
     const averageFine = totalViolations > 0 ? totalFines / totalViolations : 0
     
     const mostCommonViolation = chartData.byType[0]
-    const trendingUp = violationTrends.filter(item => item.trend_direction === 'up').length
-    const trendingDown = violationTrends.filter(item => item.trend_direction === 'down').length
+    // Violation types rising or falling against the prior year
+    const trendingUp = chartData.byType.filter(item => item.trend_direction === 'up').length
+    const trendingDown = chartData.byType.filter(item => item.trend_direction === 'down').length
+    const overall = combineTrends(violationTrends, thresholds)
 
     return {
       totalViolations,
@@ -115,8 +140,9 @@ export default function ViolationTrendsPage() {
       mostCommonViolation,
       trendingUp,
       trendingDown,
+      percentageChange: overall.percentage_change,
     }
-  }, [violationTrends, chartData])
+  }, [violationTrends, chartData, thresholds])
 
   // Handle export
   const handleExport = (format: 'json' | 'csv') => {
@@ -127,6 +153,7 @@ export default function ViolationTrendsPage() {
         borough: selectedBorough,
         year: selectedYear,
         month: selectedMonth,
+        stableThreshold,
       },
       exportDate: new Date().toISOString(),
     }
@@ -145,7 +172,8 @@ export default function ViolationTrendsPage() {
         total_fines: trend.total_fines,
         average_fine: trend.average_fine,
         trend_direction: trend.trend_direction,
-        percentage_change: trend.percentage_change || '',
+        previous_count: trend.previous_count ?? '',
+        percentage_change: trend.percentage_change ?? '',
       }))
       exportUtils.downloadCSV(csvData, filename)
     }
@@ -156,253 +184,304 @@ export default function ViolationTrendsPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Violation Trends</h1>
-        <p className="text-muted-foreground">
-          Analyze parking violation patterns and trends across NYC boroughs
-        </p>
-      </div>
-
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="h-5 w-5" />
-            Filters
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            {/* Borough */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Borough</label>
-              <Select value={selectedBorough} onValueChange={(value: Borough) => setSelectedBorough(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {NYC_BOROUGHS.map((borough) => (
-                    <SelectItem key={borough} value={borough}>
-                      {borough.split('_').map(word => 
-                        word.charAt(0).toUpperCase() + word.slice(1)
-                      ).join(' ')}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Year */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Year</label>
-              <Select value={selectedYear.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableYears.map((year) => (
-                    <SelectItem key={year} value={year.toString()}>
-                      {year}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Month */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Month (Optional)</label>
-              <Select 
-                value={selectedMonth?.toString() || 'all'} 
-                onValueChange={(value) => setSelectedMonth(value === 'all' ? undefined : parseInt(value))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Months</SelectItem>
-                  {availableMonths.map((month) => (
-                    <SelectItem key={month.value} value={month.value.toString()}>
-                      {month.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Export */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Export Data</label>
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleExport('csv')}
-                  disabled={!hasData}
-                  className="flex-1"
-                >
-                  <Download className="h-4 w-4 mr-1" />
-                  CSV
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleExport('json')}
-                  disabled={!hasData}
-                  className="flex-1"
-                >
-                  <Download className="h-4 w-4 mr-1" />
-                  JSON
-                </Button>
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Error State */}
-      {error && (
-        <Card className="border-destructive bg-destructive/10">
-          <CardContent className="p-4">
-            <div className="flex items-center gap-2 text-destructive">
-              <AlertCircle className="h-5 w-5" />
-              <span className="font-medium">Data Error</span>
-              <span className="text-sm">
-                {error instanceof Error ? error.message : 'Failed to load violation trends'}
-              </span>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Loading State */}
-      {isLoading && (
-        <div className="text-center py-8">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-          <p className="text-muted-foreground">Loading violation trends...</p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Violation Trends</h1>
+          <p className="text-muted-foreground">
+            Analyze parking violation patterns and trends across NYC boroughs
+          </p>
         </div>
-      )}
-
-      {/* Statistics Overview */}
-      {statistics && (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2">
-                <TrendingUp className="h-4 w-4 text-blue-600" />
-                <div className="text-sm font-medium text-muted-foreground">Total Violations</div>
-              </div>
-              <div className="text-2xl font-bold mt-1">
-                {statistics.totalViolations.toLocaleString()}
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2">
-                <Calendar className="h-4 w-4 text-red-600" />
-                <div className="text-sm font-medium text-muted-foreground">Total Fines</div>
-              </div>
-              <div className="text-2xl font-bold mt-1">
-                ${statistics.totalFines.toLocaleString()}
-              </div>
-            </CardContent>
-          </Card>
+        <Button
+          variant={compareMode ? "default" : "outline"}
+          onClick={() => setCompareMode(!compareMode)}
+        >
+          <Scale className="h-4 w-4 mr-2" />
+          {compareMode ? "Single View" : "Compare Boroughs & Years"}
+        </Button>
+      </div>
 
+      {compareMode ? (
+        <ViolationComparison
+          availableYears={availableYears.slice(0, 6)}
+          initialBoroughs={[selectedBorough, selectedBorough === 'staten_island' ? 'manhattan' : 'staten_island']}
+          initialYears={[selectedYear]}
+          thresholds={thresholds}
+        />
+      ) : (
+        <>
+          {/* Filters */}
           <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2">
-                <MapPin className="h-4 w-4 text-green-600" />
-                <div className="text-sm font-medium text-muted-foreground">Average Fine</div>
-              </div>
-              <div className="text-2xl font-bold mt-1">
-                ${statistics.averageFine.toFixed(0)}
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5" />
+                Filters
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                {/* Borough */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Borough</label>
+                  <Select value={selectedBorough} onValueChange={(value: Borough) => setSelectedBorough(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NYC_BOROUGHS.map((borough) => (
+                        <SelectItem key={borough} value={borough}>
+                          {borough.split('_').map(word => 
+                            word.charAt(0).toUpperCase() + word.slice(1)
+                          ).join(' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Year */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Year</label>
+                  <Select value={selectedYear.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableYears.map((year) => (
+                        <SelectItem key={year} value={year.toString()}>
+                          {year}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Month */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Month (Optional)</label>
+                  <Select 
+                    value={selectedMonth?.toString() || 'all'} 
+                    onValueChange={(value) => setSelectedMonth(value === 'all' ? undefined : parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Months</SelectItem>
+                      {availableMonths.map((month) => (
+                        <SelectItem key={month.value} value={month.value.toString()}>
+                          {month.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Stable threshold */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Stable Within</label>
+                  <Select value={stableThreshold.toString()} onValueChange={(value) => setStableThreshold(parseInt(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STABLE_THRESHOLD_OPTIONS.map((percent) => (
+                        <SelectItem key={percent} value={percent.toString()}>
+                          ±{percent}% of prior year
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Export */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Export Data</label>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExport('csv')}
+                      disabled={!hasData}
+                      className="flex-1"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExport('json')}
+                      disabled={!hasData}
+                      className="flex-1"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      JSON
+                    </Button>
+                  </div>
+                </div>
               </div>
             </CardContent>
           </Card>
 
-          <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2">
-                <AlertCircle className="h-4 w-4 text-purple-600" />
-                <div className="text-sm font-medium text-muted-foreground">Most Common</div>
-              </div>
-              <div className="text-sm font-bold mt-1 leading-tight">
-                {statistics.mostCommonViolation?.violation_type || 'N/A'}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      )}
+          {/* Error State */}
+          {error && (
+            <Card className="border-destructive bg-destructive/10">
+              <CardContent className="p-4">
+                <div className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="h-5 w-5" />
+                  <span className="font-medium">Data Error</span>
+                  <span className="text-sm">
+                    {error instanceof Error ? error.message : 'Failed to load violation trends'}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p className="text-muted-foreground">Loading violation trends...</p>
+            </div>
+          )}
+
+          {/* Statistics Overview */}
+          {statistics && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4 text-blue-600" />
+                    <div className="text-sm font-medium text-muted-foreground">Total Violations</div>
+                  </div>
+                  <div className="text-2xl font-bold mt-1">
+                    {statistics.totalViolations.toLocaleString()}
+                  </div>
+                  {statistics.percentageChange !== undefined && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {statistics.percentageChange > 0 ? '+' : ''}{statistics.percentageChange.toFixed(1)}% vs. {selectedYear - 1}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-red-600" />
+                    <div className="text-sm font-medium text-muted-foreground">Total Fines</div>
+                  </div>
+                  <div className="text-2xl font-bold mt-1">
+                    ${statistics.totalFines.toLocaleString()}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-green-600" />
+                    <div className="text-sm font-medium text-muted-foreground">Average Fine</div>
+                  </div>
+                  <div className="text-2xl font-bold mt-1">
+                    ${statistics.averageFine.toFixed(0)}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-purple-600" />
+                    <div className="text-sm font-medium text-muted-foreground">Most Common</div>
+                  </div>
+                  <div className="text-sm font-bold mt-1 leading-tight">
+                    {statistics.mostCommonViolation?.violation_type || 'N/A'}
+                  </div>
+                  {(statistics.trendingUp > 0 || statistics.trendingDown > 0) && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {statistics.trendingUp} types up, {statistics.trendingDown} down year over year
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
 
-      {/* Charts */}
-      {hasData && (
-        <div className="space-y-6">
-          {/* Violations by Type */}
-          <ViolationChart
-            data={chartData.byType}
-            title="Violations by Type"
-            type="bar"
-          />
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Monthly Trend */}
-            {chartData.byMonth.length > 0 && (
+          {/* Charts */}
+          {hasData && (
+            <div className="space-y-6">
+              {/* Violations by Type */}
               <ViolationChart
-                data={chartData.byMonth}
-                title="Monthly Trend"
-                type="line"
+                data={chartData.byType}
+                title="Violations by Type"
+                type="bar"
+                thresholds={thresholds}
               />
-            )}
-
-            {/* Distribution Pie Chart */}
-            <ViolationChart
-              data={chartData.byType.slice(0, 8)}
-              title="Violation Distribution"
-              type="pie"
-            />
-          </div>
-        </div>
-      )}
 
-      {/* No Data */}
-      {!isLoading && !error && !hasData && (
-        <Card>
-          <CardContent className="p-8 text-center">
-            <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No Violation Data Found</h3>
-            <p className="text-muted-foreground mb-4">
-              No violation trends were found for the selected borough, year, and month.
-            </p>
-            <div className="space-y-2 text-sm text-muted-foreground">
-              <p>Try adjusting your filters:</p>
-              <p>• Select a different borough or year</p>
-              <p>• Remove the month filter to see annual data</p>
-              <p>• Check if data is available for more recent years</p>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Monthly Trend */}
+                {chartData.byMonth.length > 0 && (
+                  <ViolationChart
+                    data={chartData.byMonth}
+                    title="Monthly Trend"
+                    type="line"
+                    thresholds={thresholds}
+                    forecast={forecast}
+                  />
+                )}
+
+                {/* Distribution Pie Chart */}
+                <ViolationChart
+                  data={chartData.byType.slice(0, 8)}
+                  title="Violation Distribution"
+                  type="pie"
+                  thresholds={thresholds}
+                />
+              </div>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setSelectedYear(currentYear - 1)
-                setSelectedMonth(undefined)
-              }}
-              className="mt-4"
-            >
-              Reset to Default Filters
-            </Button>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Refresh Button */}
-      {hasData && (
-        <div className="text-center">
-          <Button variant="outline" onClick={() => refetch()} disabled={isLoading}>
-            <TrendingUp className="h-4 w-4 mr-2" />
-            Refresh Data
-          </Button>
-        </div>
+          )}
+
+          {/* No Data */}
+          {!isLoading && !error && !hasData && (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No Violation Data Found</h3>
+                <p className="text-muted-foreground mb-4">
+                  No violation trends were found for the selected borough, year, and month.
+                </p>
+                <div className="space-y-2 text-sm text-muted-foreground">
+                  <p>Try adjusting your filters:</p>
+                  <p>• Select a different borough or year</p>
+                  <p>• Remove the month filter to see annual data</p>
+                  <p>• Check if data is available for more recent years</p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSelectedYear(currentYear - 1)
+                    setSelectedMonth(undefined)
+                  }}
+                  className="mt-4"
+                >
+                  Reset to Default Filters
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Refresh Button */}
+          {hasData && (
+            <div className="text-center">
+              <Button variant="outline" onClick={() => refetch()} disabled={isLoading}>
+                <TrendingUp className="h-4 w-4 mr-2" />
+                Refresh Data
+              </Button>
+            </div>
+          )}
+        </>
       )}
     </div>
   )
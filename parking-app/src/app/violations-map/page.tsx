@@ -1,18 +1,23 @@
 "use client"
 
 import * as React from "react"
-import { MapPin, Filter, Download, Search, Calendar, AlertCircle, Loader2, RefreshCw } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
+import { MapPin, Filter, Download, Search, Calendar, AlertCircle, Loader2, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react"
+import { useQuery, keepPreviousData } from "@tanstack/react-query"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { NYCMap } from "@/components/map/nyc-map"
+import { ViolationTimeMatrix } from "@/components/charts/violation-time-matrix"
 import { AddressSearch } from "@/components/forms/address-search"
-import { api } from "@/lib/api"
-import { Violation, Borough, NYC_BOROUGHS, MapLocation, MapMarker } from "@/lib/types"
+import { useViewportSearch } from "@/hooks/use-viewport-search"
+import { api, apiUtils } from "@/lib/api"
+import { Borough, NYC_BOROUGHS, MapLocation, MapMarker, ViolationTimeSlot } from "@/lib/types"
 import { exportUtils, constants } from "@/lib/utils"
+import { countTimeSlots, formatTimeSlot, matchesTimeSlot } from "@/lib/analytics/timeMatrix"
+
+const RADIUS_OPTIONS = [500, 1000, 2000, 5000]
 
 export default function ViolationsMapPage() {
   // State for map and filters
@@ -27,12 +32,28 @@ export default function ViolationsMapPage() {
     start: '', // No start date filter initially
     end: '', // No end date filter initially
   })
-  const [limit, setLimit] = React.useState(500)
+  const [limit, setLimit] = React.useState(constants.VIOLATIONS_PAGE_SIZE)
+  const [page, setPage] = React.useState(0)
+  // Day-of-week/hour slot picked in the time matrix
+  const [timeSlot, setTimeSlot] = React.useState<ViolationTimeSlot | null>(null)
+  const viewportSearch = useViewportSearch()
+  const viewportArea = viewportSearch.area
+
+  // Any filter change starts again from the first page
+  React.useEffect(() => {
+    setPage(0)
+  }, [searchLocation, searchRadius, viewportArea, selectedBorough, selectedViolationType, dateRange, limit, timeSlot])
+
+  // A slot only makes sense for the query it was picked from
+  React.useEffect(() => {
+    setTimeSlot(null)
+  }, [searchLocation, searchRadius, viewportArea, selectedBorough, selectedViolationType, dateRange])
 
   // Fetch violations based on current filters
   const {
-    data: violations = [],
+    data: violationsResponse,
     isLoading,
+    isFetching,
     error,
     refetch,
   } = useQuery({
@@ -41,41 +62,56 @@ export default function ViolationsMapPage() {
       searchLocation.latitude, 
       searchLocation.longitude, 
       searchRadius, 
+      viewportArea,
       selectedBorough, 
       selectedViolationType,
       dateRange.start,
       dateRange.end,
-      limit
+      limit,
+      page,
+      timeSlot,
     ],
-    queryFn: async () => {
-      const params = {
-        lat: searchLocation.latitude,
-        lon: searchLocation.longitude,
-        radius: searchRadius,
-        borough: selectedBorough !== 'all' ? selectedBorough : undefined,
-        violation_type: selectedViolationType !== 'all' ? selectedViolationType : undefined,
-        start_date: dateRange.start || undefined,
-        end_date: dateRange.end || undefined,
-        limit,
-      }
-      console.log('Fetching violations with params:', params)
-      const result = await api.getViolations(params)
-      console.log('Violations API response:', result)
-      return result
-    },
+    queryFn: ({ signal }) => api.getViolations({
+      lat: searchLocation.latitude,
+      lon: searchLocation.longitude,
+      radius: searchRadius,
+      area: viewportArea ?? undefined,
+      borough: selectedBorough !== 'all' ? selectedBorough : undefined,
+      violation_type: selectedViolationType !== 'all' ? selectedViolationType : undefined,
+      start_date: dateRange.start || undefined,
+      end_date: dateRange.end || undefined,
+      limit,
+      offset: page * limit,
+      time_slot: timeSlot ?? undefined,
+      time_matrix: true,
+    }, { signal }),
     staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: keepPreviousData,
     enabled: true,
   })
 
-  // Convert violations to map markers with optimizations
+  const violations = React.useMemo(() => violationsResponse?.violations ?? [], [violationsResponse])
+  const totalViolations = violationsResponse?.total ?? 0
+  const pageCount = Math.max(1, Math.ceil(totalViolations / limit))
+  const pageStart = totalViolations === 0 ? 0 : page * limit + 1
+  const pageEnd = page * limit + violations.length
+
+  // Day × hour counts for the whole query; backends without them leave the
+  // matrix to this page and return pages that ignore the selected slot
+  const timeMatrix = violationsResponse?.time_matrix
+  const matrixCounts = React.useMemo(() => timeMatrix ?? countTimeSlots(violations), [timeMatrix, violations])
+
+  // Violations in the selected time slot, or all of them
+  const mappedViolations = React.useMemo(() => {
+    if (!timeSlot) return violations
+    return violations.filter(v =>
+      matchesTimeSlot(v, timeSlot) && (!timeSlot.violation_type || v.violation_type === timeSlot.violation_type)
+    )
+  }, [violations, timeSlot])
+
+  // Convert the current page of violations to map markers
   const violationMarkers: MapMarker[] = React.useMemo(() => {
-    // For performance, limit markers if there are too many
-    const maxMarkers = 5000
-    const markersToShow = violations.length > maxMarkers 
-      ? violations.slice(0, maxMarkers) 
-      : violations
-    
-    return markersToShow.map(violation => ({
+    return mappedViolations.map(violation => ({
       id: `violation-${violation.id}`,
       latitude: violation.latitude,
       longitude: violation.longitude,
@@ -86,10 +122,7 @@ export default function ViolationsMapPage() {
         content: `Fine: $${violation.fine_amount}\nDate: ${new Date(violation.issue_date).toLocaleDateString()}\nLocation: ${violation.street_name || 'Unknown'}\nVehicle: ${violation.vehicle_make || ''} ${violation.vehicle_color || ''}`.trim(),
       },
     }))
-  }, [violations])
-
-  // Check if we're showing limited results
-  const isLimitedResults = violations.length > 5000
+  }, [mappedViolations])
 
   // Get unique violation types for filter
   const violationTypes = React.useMemo(() => {
@@ -110,16 +143,17 @@ export default function ViolationsMapPage() {
     const mostCommon = Array.from(typeCount.entries()).sort((a, b) => b[1] - a[1])[0]
 
     return {
-      total: violations.length,
+      total: totalViolations,
       totalFines,
       avgFine,
       mostCommon: mostCommon ? { type: mostCommon[0], count: mostCommon[1] } : null,
     }
-  }, [violations])
+  }, [violations, totalViolations])
 
   // Handle location search
   const handleLocationSelect = (location: MapLocation) => {
     setSearchLocation(location)
+    viewportSearch.clear()
   }
 
   // Handle export
@@ -129,7 +163,8 @@ export default function ViolationsMapPage() {
       data: violations,
       filters: {
         location: searchLocation,
-        radius: searchRadius,
+        radius: viewportArea ? undefined : searchRadius,
+        area: viewportArea ?? undefined,
         borough: selectedBorough,
         violation_type: selectedViolationType,
         date_range: dateRange,
@@ -201,10 +236,12 @@ export default function ViolationsMapPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="500">500m</SelectItem>
-                  <SelectItem value="1000">1km</SelectItem>
-                  <SelectItem value="2000">2km</SelectItem>
-                  <SelectItem value="5000">5km</SelectItem>
+                  {/* A radius dragged on the map may not be a preset */}
+                  {(RADIUS_OPTIONS.includes(searchRadius) ? RADIUS_OPTIONS : [...RADIUS_OPTIONS, searchRadius].sort((a, b) => a - b)).map((radius) => (
+                    <SelectItem key={radius} value={radius.toString()}>
+                      {apiUtils.formatDistance(radius)}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -249,7 +286,7 @@ export default function ViolationsMapPage() {
 
             {/* Limit */}
             <div className="space-y-2">
-              <label className="text-sm font-medium">Max Results</label>
+              <label className="text-sm font-medium">Results per Page</label>
               <Select value={limit.toString()} onValueChange={(value) => setLimit(parseInt(value))}>
                 <SelectTrigger>
                   <SelectValue />
@@ -358,7 +395,7 @@ export default function ViolationsMapPage() {
                 Radius: {searchRadius}m
                 Borough: {selectedBorough}
                 Date Range: {dateRange.start} to {dateRange.end}
-                Violations Found: {violations.length}
+                Violations Found: {totalViolations} (page {page + 1} of {pageCount})
               </pre>
             </details>
           </CardContent>
@@ -384,7 +421,7 @@ export default function ViolationsMapPage() {
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-green-600" />
-                <div className="text-sm font-medium text-muted-foreground">Total Fines</div>
+                <div className="text-sm font-medium text-muted-foreground">Total Fines (this page)</div>
               </div>
               <div className="text-2xl font-bold mt-1">
                 ${statistics.totalFines.toLocaleString()}
@@ -396,7 +433,7 @@ export default function ViolationsMapPage() {
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <AlertCircle className="h-4 w-4 text-blue-600" />
-                <div className="text-sm font-medium text-muted-foreground">Average Fine</div>
+                <div className="text-sm font-medium text-muted-foreground">Average Fine (this page)</div>
               </div>
               <div className="text-2xl font-bold mt-1">
                 ${statistics.avgFine.toFixed(0)}
@@ -408,7 +445,7 @@ export default function ViolationsMapPage() {
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <Filter className="h-4 w-4 text-purple-600" />
-                <div className="text-sm font-medium text-muted-foreground">Most Common</div>
+                <div className="text-sm font-medium text-muted-foreground">Most Common (this page)</div>
               </div>
               <div className="text-sm font-bold mt-1 leading-tight">
                 {statistics.mostCommon?.type || 'N/A'}
@@ -431,6 +468,16 @@ export default function ViolationsMapPage() {
         </div>
       )}
 
+      {/* Timing */}
+      {hasData && (
+        <ViolationTimeMatrix
+          counts={matrixCounts}
+          scope={timeMatrix ? undefined : 'this page'}
+          selected={timeSlot}
+          onSelect={setTimeSlot}
+        />
+      )}
+
       {/* Map */}
       <Card>
         <CardHeader>
@@ -439,15 +486,41 @@ export default function ViolationsMapPage() {
             Violations Map
             {hasData && (
               <span className="text-sm font-normal text-muted-foreground">
-                ({violationMarkers.length}{isLimitedResults ? ' of ' + violations.length : ''} violations shown)
-                {isLimitedResults && (
-                  <span className="text-amber-600 ml-2">
-                    • Limited for performance
-                  </span>
-                )}
+                ({pageStart.toLocaleString()}–{pageEnd.toLocaleString()} of {totalViolations.toLocaleString()} violations shown)
+              </span>
+            )}
+            {timeSlot && (
+              <span className="text-sm font-normal text-muted-foreground">
+                · {formatTimeSlot(timeSlot)} only
+                {timeSlot.violation_type && ` (${timeSlot.violation_type})`}
               </span>
             )}
           </CardTitle>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(p => Math.max(0, p - 1))}
+                disabled={page === 0 || isLoading}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                disabled={page >= pageCount - 1 || isLoading}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <NYCMap
@@ -456,6 +529,10 @@ export default function ViolationsMapPage() {
             markers={violationMarkers}
             onLocationSelect={handleLocationSelect}
             searchRadius={searchRadius}
+            onSearchRadiusChange={setSearchRadius}
+            viewportSearch={viewportSearch}
+            viewportSearchLoading={isFetching}
+            viewportSearchTruncated={totalViolations > violations.length}
             height="600px"
             className="rounded-lg overflow-hidden"
           />
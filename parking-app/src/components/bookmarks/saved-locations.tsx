@@ -0,0 +1,136 @@
+"use client"
+
+import * as React from "react"
+import { Bookmark, BookmarkPlus, CalendarPlus, Trash2, Loader2 } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { api } from "@/lib/api"
+import { BookmarkedLocation, MapLocation } from "@/lib/types"
+import { constants, exportUtils, storage } from "@/lib/utils"
+import { selectBlockFace } from "@/lib/regulations/evaluator"
+import { streetCleaningEvents, toICalendar } from "@/lib/regulations/ical"
+import { SuspensionCalendar } from "@/lib/regulations/suspensions"
+
+interface SavedLocationsProps {
+  currentLocation: MapLocation
+  onLocationSelect: (location: MapLocation) => void
+  calendar?: SuspensionCalendar
+}
+
+// How far ahead the street-cleaning calendar export reaches
+const ICAL_EXPORT_DAYS = 90
+
+// Saved areas are listed on the area search page
+const pointBookmarks = () => storage.getBookmarks().filter((b) => b.type !== 'area')
+
+export function SavedLocations({ currentLocation, onLocationSelect, calendar }: SavedLocationsProps) {
+  const [bookmarks, setBookmarks] = React.useState<BookmarkedLocation[]>([])
+  const [exportingId, setExportingId] = React.useState<string | null>(null)
+  const [message, setMessage] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    setBookmarks(pointBookmarks())
+  }, [])
+
+  const handleSave = () => {
+    const coordinates = `${currentLocation.latitude.toFixed(5)}, ${currentLocation.longitude.toFixed(5)}`
+    storage.saveBookmark({
+      name: currentLocation.address || coordinates,
+      latitude: currentLocation.latitude,
+      longitude: currentLocation.longitude,
+      address: currentLocation.address || '',
+      type: 'custom',
+    })
+    setBookmarks(pointBookmarks())
+  }
+
+  const handleRemove = (id: string) => {
+    storage.removeBookmark(id)
+    setBookmarks(pointBookmarks())
+  }
+
+  // Download the street-cleaning days for the bookmark's block face as .ics
+  const handleExport = async (bookmark: BookmarkedLocation) => {
+    setExportingId(bookmark.id)
+    setMessage(null)
+    try {
+      const signs = await api.getParkingSigns({
+        lat: bookmark.latitude,
+        lon: bookmark.longitude,
+        radius: constants.BLOCK_FACE_RADIUS,
+      })
+      const events = streetCleaningEvents(selectBlockFace(signs), calendar, new Date(), ICAL_EXPORT_DAYS)
+      if (events.length === 0) {
+        setMessage(`No street cleaning found near ${bookmark.name}`)
+        return
+      }
+      exportUtils.downloadICS(
+        toICalendar(events, `Street cleaning – ${bookmark.name}`),
+        `street-cleaning-${bookmark.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+      )
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not export calendar')
+    } finally {
+      setExportingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5" />
+          Saved Locations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button variant="outline" size="sm" className="w-full" onClick={handleSave}>
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          Save Selected Location
+        </Button>
+
+        {bookmarks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved locations yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {bookmarks.map((bookmark) => (
+              <li key={bookmark.id} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  className="flex-1 truncate text-left text-sm hover:underline"
+                  onClick={() => onLocationSelect({
+                    latitude: bookmark.latitude,
+                    longitude: bookmark.longitude,
+                    address: bookmark.address || undefined,
+                  })}
+                  title={bookmark.name}
+                >
+                  {bookmark.name}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleExport(bookmark)}
+                  disabled={exportingId === bookmark.id}
+                  title="Export upcoming street cleaning (.ics)"
+                >
+                  {exportingId === bookmark.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <CalendarPlus className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(bookmark.id)} title="Remove">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import * as React from "react"
+import { CalendarDays, Upload, RotateCcw } from "lucide-react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { importSuspensionFile, loadSuspensionCalendar, resetSuspensionOverrides } from "@/lib/regulations/suspensions"
+import { dateUtils } from "@/lib/utils"
+
+// Upcoming ASP/holiday suspensions, with updates from a local JSON file
+export function SuspensionCalendarCard() {
+  const queryClient = useQueryClient()
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const [message, setMessage] = React.useState<string | null>(null)
+
+  const { data: calendar } = useQuery({
+    queryKey: ['suspension-calendar'],
+    queryFn: loadSuspensionCalendar,
+    staleTime: Infinity,
+  })
+
+  const upcoming = calendar?.upcoming(new Date(), 5) ?? []
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const count = await importSuspensionFile(file)
+      setMessage(`Imported ${count} suspension day${count === 1 ? '' : 's'} from ${file.name}`)
+      queryClient.invalidateQueries({ queryKey: ['suspension-calendar'] })
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not import calendar file')
+    }
+  }
+
+  const handleReset = () => {
+    resetSuspensionOverrides()
+    setMessage('Using the bundled calendar')
+    queryClient.invalidateQueries({ queryKey: ['suspension-calendar'] })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Upcoming Suspensions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming suspensions in the calendar.</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {upcoming.map((day) => (
+              <li key={day.date} className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium">{day.holiday}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {dateUtils.formatDate(`${day.date}T00:00:00`)}
+                  </div>
+                </div>
+                <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                  {day.meters ? 'ASP + meters' : 'ASP'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {calendar && calendar.overrides > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Includes {calendar.overrides} day{calendar.overrides === 1 ? '' : 's'} from a local file.
+          </p>
+        )}
+        {message && <p className="text-xs text-muted-foreground">{message}</p>}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Update from File
+          </Button>
+          {calendar && calendar.overrides > 0 && (
+            <Button variant="outline" size="sm" onClick={handleReset} title="Reset to bundled calendar">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,20 +1,59 @@
 "use client"
 
 import * as React from "react"
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from "recharts"
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, ComposedChart, Area } from "recharts"
 import { TrendingUp, TrendingDown, Minus } from "lucide-react"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { ViolationTrend } from "@/lib/types"
+import {
+  combineTrends,
+  comparisonRows,
+  DEFAULT_TREND_THRESHOLDS,
+  normalizeCount,
+  NORMALIZATION_LABELS,
+  TrendNormalization,
+  TrendSeries,
+  TrendThresholds,
+} from "@/lib/analytics/violationTrends"
+import { ViolationForecast } from "@/lib/analytics/forecast"
 
 interface ViolationChartProps {
   data: ViolationTrend[]
   title: string
   type?: 'bar' | 'line' | 'pie'
+  thresholds?: TrendThresholds
+  // Comparison mode: overlay several borough-year slices instead of `data`
+  series?: TrendSeries[]
+  normalization?: TrendNormalization
+  // Line mode: dashed continuation with a confidence band after the last month
+  forecast?: ViolationForecast
   className?: string
 }
 
-export function ViolationChart({ data, title, type = 'bar', className }: ViolationChartProps) {
+interface ForecastRow {
+  name: string
+  violations?: number
+  forecast?: number
+  band?: [number, number]
+  lower?: number
+  upper?: number
+}
+
+const monthName = (year: number, month: number) => `${year}-${month.toString().padStart(2, '0')}`
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${change.toFixed(1)}%`
+
+export function ViolationChart({
+  data,
+  title,
+  type = 'bar',
+  thresholds = DEFAULT_TREND_THRESHOLDS,
+  series,
+  normalization = 'count',
+  forecast,
+  className,
+}: ViolationChartProps) {
   // Process data for charts
   const chartData = React.useMemo(() => {
     if (type === 'pie') {
@@ -47,11 +86,12 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
 
     // For bar and line charts, group by month or violation type
     const processed = data.map(item => ({
-      name: item.month ? `${item.year}-${item.month.toString().padStart(2, '0')}` : item.violation_type,
+      name: item.month ? monthName(item.year, item.month) : item.violation_type,
       violations: item.count,
       totalFines: item.total_fines,
       averageFine: item.average_fine,
       trend: item.trend_direction,
+      percentageChange: item.percentage_change,
       borough: item.borough,
       year: item.year,
       month: item.month,
@@ -64,6 +104,25 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
     })
   }, [data, type])
 
+  // Observed months followed by the forecast; the dashed line starts at the last observed month
+  const lineData = React.useMemo((): ForecastRow[] => {
+    const rows = (chartData as ForecastRow[]).map((row) => ({ ...row }))
+    if (type !== 'line' || !forecast || rows.length === 0) return rows
+    const last = rows[rows.length - 1]
+    if (last.violations !== undefined) {
+      last.forecast = last.violations
+      last.band = [last.violations, last.violations]
+    }
+    forecast.points.forEach((point) => rows.push({
+      name: monthName(point.year, point.month),
+      forecast: point.value,
+      band: [point.lower, point.upper],
+      lower: point.lower,
+      upper: point.upper,
+    }))
+    return rows
+  }, [chartData, type, forecast])
+
   // Colors for pie chart
   const COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#06b6d4', '#f97316', '#84cc16']
 
@@ -74,6 +133,9 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
       payload: {
         totalFines?: number
         averageFine?: number
+        percentageChange?: number
+        lower?: number
+        upper?: number
       }
       name: string
       value: number
@@ -86,7 +148,7 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
       return (
                     <div className="bg-background border border-gray-200 rounded-lg shadow-lg p-3">
           <p className="font-medium">{label}</p>
-          {payload.map((entry, index: number) => (
+          {payload.filter((entry) => !Array.isArray(entry.value)).map((entry, index: number) => (
             <div key={index} className="text-sm space-y-1">
               <p style={{ color: entry.color }}>
                 {entry.name}: {entry.value?.toLocaleString()}
@@ -101,6 +163,16 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
                   Avg Fine: ${entry.payload.averageFine.toFixed(2)}
                 </p>
               )}
+              {entry.name === 'Forecast' && entry.payload.lower !== undefined && entry.payload.upper !== undefined && (
+                <p className="text-muted-foreground">
+                  Range: {entry.payload.lower.toLocaleString()}–{entry.payload.upper.toLocaleString()}
+                </p>
+              )}
+              {entry.payload.percentageChange !== undefined && (
+                <p className="text-muted-foreground">
+                  vs. prior year: {formatChange(entry.payload.percentageChange)}
+                </p>
+              )}
             </div>
           ))}
         </div>
@@ -126,24 +198,110 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
   const totalFines = data.reduce((sum, item) => sum + item.total_fines, 0)
   const averageFine = totalViolations > 0 ? totalFines / totalViolations : 0
 
+  // Whole chart against the same period a year earlier
+  const overall = React.useMemo(() => combineTrends(data, thresholds), [data, thresholds])
+
+  // Comparison mode: grouped bars by violation type, or one line per series by month
+  const isComparison = !!series && series.length > 0
+  const comparisonData = React.useMemo(
+    () => (series && series.length > 0 ? comparisonRows(series, type === 'line' ? 'month' : 'violation_type', normalization) : []),
+    [series, type, normalization]
+  )
+  const seriesTotals = React.useMemo(
+    () =>
+      (series ?? []).map((s) => ({
+        id: s.id,
+        label: s.label,
+        value: normalizeCount(s.trends.reduce((sum, row) => sum + row.count, 0), s.borough, normalization),
+      })),
+    [series, normalization]
+  )
+  const formatValue = (value: number) =>
+    normalization === 'count' ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+
+  const renderComparison = () => {
+    if (type === 'line') {
+      return (
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={comparisonData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip formatter={(value) => formatValue(Number(value))} />
+            <Legend />
+            {series?.map((s, index) => (
+              <Line
+                key={s.id}
+                type="monotone"
+                dataKey={s.id}
+                name={s.label}
+                stroke={COLORS[index % COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )
+    }
+    return (
+      <ResponsiveContainer width="100%" height={340}>
+        <BarChart data={comparisonData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="name" interval={0} angle={-20} textAnchor="end" height={80} tick={{ fontSize: 11 }} />
+          <YAxis />
+          <Tooltip formatter={(value) => formatValue(Number(value))} />
+          <Legend />
+          {series?.map((s, index) => (
+            <Bar key={s.id} dataKey={s.id} name={s.label} fill={COLORS[index % COLORS.length]} />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    )
+  }
+
   const renderChart = () => {
+    if (isComparison) return renderComparison()
     switch (type) {
       case 'line':
         return (
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={chartData}>
+            <ComposedChart data={lineData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" />
               <YAxis />
               <Tooltip content={<CustomTooltip />} />
+              {forecast && (
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="Confidence band"
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.15}
+                  isAnimationActive={false}
+                />
+              )}
               <Line 
                 type="monotone" 
                 dataKey="violations" 
+                name="violations"
                 stroke="#3b82f6" 
                 strokeWidth={2}
                 dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
               />
-            </LineChart>
+              {forecast && (
+                <Line
+                  type="monotone"
+                  dataKey="forecast"
+                  name="Forecast"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={{ fill: '#ffffff', stroke: '#3b82f6', strokeWidth: 2, r: 3 }}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         )
 
@@ -185,7 +343,7 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
     }
   }
 
-  if (!data.length) {
+  if (!data.length && !isComparison) {
     return (
       <Card className={className}>
         <CardHeader>
@@ -205,42 +363,76 @@ export function ViolationChart({ data, title, type = 'bar', className }: Violati
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           {title}
-          {data.length > 0 && data[0].trend_direction && (
-            <div className="flex items-center gap-1 text-sm">
-              {getTrendIcon(data[0].trend_direction)}
-              <span className="capitalize">{data[0].trend_direction}</span>
+          {!isComparison && data.length > 0 && overall.previous_count !== undefined && (
+            <div className="flex items-center gap-1 text-sm" title={`${overall.previous_count.toLocaleString()} the year before`}>
+              {getTrendIcon(overall.trend_direction)}
+              <span className="capitalize">{overall.trend_direction}</span>
+              {overall.percentage_change !== undefined && (
+                <span className="text-muted-foreground font-normal">{formatChange(overall.percentage_change)} YoY</span>
+              )}
             </div>
           )}
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {/* Per-series totals in comparison mode */}
+        {isComparison && (
+          <div className="flex flex-wrap gap-4 mb-6">
+            {seriesTotals.map((total, index) => (
+              <div key={total.id} className="text-center min-w-24">
+                <div className="text-2xl font-bold" style={{ color: COLORS[index % COLORS.length] }}>
+                  {formatValue(total.value)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {total.label} · {NORMALIZATION_LABELS[normalization]}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Summary Stats */}
-        <div className="grid grid-cols-3 gap-4 mb-6">
-          <div className="text-center">
-            <div className="text-2xl font-bold text-blue-600">
-              {totalViolations.toLocaleString()}
+        {!isComparison && (
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-600">
+                {totalViolations.toLocaleString()}
+              </div>
+              <div className="text-xs text-muted-foreground">Total Violations</div>
             </div>
-            <div className="text-xs text-muted-foreground">Total Violations</div>
-          </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-red-600">
-              ${totalFines.toLocaleString()}
+            <div className="text-center">
+              <div className="text-2xl font-bold text-red-600">
+                ${totalFines.toLocaleString()}
+              </div>
+              <div className="text-xs text-muted-foreground">Total Fines</div>
             </div>
-            <div className="text-xs text-muted-foreground">Total Fines</div>
-          </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-green-600">
-              ${averageFine.toFixed(0)}
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600">
+                ${averageFine.toFixed(0)}
+              </div>
+              <div className="text-xs text-muted-foreground">Avg Fine</div>
             </div>
-            <div className="text-xs text-muted-foreground">Avg Fine</div>
           </div>
-        </div>
+        )}
 
         {/* Chart */}
         <div className="w-full">
           {renderChart()}
         </div>
 
+        {/* Forecast summary */}
+        {type === 'line' && forecast && !isComparison && (
+          <p className="mt-4 text-xs text-muted-foreground">
+            Forecast for the next {forecast.points.length} months:{" "}
+            <span className="font-medium text-foreground">
+              {forecast.total.value.toLocaleString()} violations
+            </span>{" "}
+            ({Math.round(forecast.confidence * 100)}% range {forecast.total.lower.toLocaleString()}–
+            {forecast.total.upper.toLocaleString()}),{" "}
+            {forecast.method === 'holt-winters' ? 'seasonal Holt-Winters' : "Holt's linear trend"} model.
+          </p>
+        )}
+
         {/* Legend for pie chart */}
         {type === 'pie' && chartData.length > 0 && (
           <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
@@ -0,0 +1,179 @@
+"use client"
+
+import * as React from "react"
+import { AlertCircle, Loader2, Scale } from "lucide-react"
+import { useQueries } from "@tanstack/react-query"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ViolationChart } from "@/components/charts/violation-chart"
+import { api } from "@/lib/api"
+import { Borough, NYC_BOROUGHS } from "@/lib/types"
+import { NORMALIZATION_LABELS, TrendNormalization, TrendSeries, TrendThresholds } from "@/lib/analytics/violationTrends"
+
+interface ViolationComparisonProps {
+  availableYears: number[]
+  initialBoroughs: Borough[]
+  initialYears: number[]
+  thresholds: TrendThresholds
+}
+
+const formatBorough = (borough: Borough) =>
+  borough.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+// Add or remove a value, never leaving the selection empty
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? (values.length > 1 ? values.filter(v => v !== value) : values) : [...values, value]
+
+// Overlays several borough-year slices of the violation trends
+export function ViolationComparison({ availableYears, initialBoroughs, initialYears, thresholds }: ViolationComparisonProps) {
+  const [boroughs, setBoroughs] = React.useState<Borough[]>(initialBoroughs)
+  const [years, setYears] = React.useState<number[]>(initialYears)
+  const [normalization, setNormalization] = React.useState<TrendNormalization>('per_capita')
+
+  const slices = React.useMemo(
+    () => NYC_BOROUGHS.filter(b => boroughs.includes(b)).flatMap(borough =>
+      [...years].sort((a, b) => b - a).map(year => ({ borough, year }))
+    ),
+    [boroughs, years]
+  )
+
+  // Same query keys as the single-slice view, so slices are shared in the cache
+  const results = useQueries({
+    queries: slices.map(({ borough, year }) => ({
+      queryKey: ['violation-trends', borough, year, undefined, thresholds.stable_percent],
+      queryFn: ({ signal }: { signal: AbortSignal }) => api.getViolationTrends({
+        borough,
+        year,
+        stable_threshold: thresholds.stable_percent,
+        min_count: thresholds.min_count,
+      }, { signal }),
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    })),
+  })
+
+  const isLoading = results.some(r => r.isLoading)
+  const error = results.find(r => r.error)?.error
+
+  const series = React.useMemo((): TrendSeries[] => slices.map(({ borough, year }, index) => ({
+    id: `${borough}-${year}`,
+    // Only name what differs between series
+    label: boroughs.length > 1 && years.length > 1
+      ? `${formatBorough(borough)} ${year}`
+      : boroughs.length > 1 ? formatBorough(borough) : year.toString(),
+    borough,
+    year,
+    trends: results[index]?.data ?? [],
+  })), [slices, results, boroughs.length, years.length])
+
+  const hasData = series.some(s => s.trends.length > 0)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Compare
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Boroughs</label>
+            <div className="flex flex-wrap gap-2">
+              {NYC_BOROUGHS.map((borough) => (
+                <Button
+                  key={borough}
+                  size="sm"
+                  variant={boroughs.includes(borough) ? "default" : "outline"}
+                  onClick={() => setBoroughs(toggle(boroughs, borough))}
+                >
+                  {formatBorough(borough)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Years</label>
+            <div className="flex flex-wrap gap-2">
+              {availableYears.map((year) => (
+                <Button
+                  key={year}
+                  size="sm"
+                  variant={years.includes(year) ? "default" : "outline"}
+                  onClick={() => setYears(toggle(years, year))}
+                >
+                  {year}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 max-w-xs">
+            <label className="text-sm font-medium">Show</label>
+            <Select value={normalization} onValueChange={(value: TrendNormalization) => setNormalization(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Total violations</SelectItem>
+                <SelectItem value="per_capita">Violations {NORMALIZATION_LABELS.per_capita}</SelectItem>
+                <SelectItem value="per_lane_mile">Violations {NORMALIZATION_LABELS.per_lane_mile}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              <span className="font-medium">Data Error</span>
+              <span className="text-sm">
+                {error instanceof Error ? error.message : 'Failed to load violation trends'}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading && (
+        <div className="text-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading violation trends...</p>
+        </div>
+      )}
+
+      {!isLoading && hasData && (
+        <div className="space-y-6">
+          <ViolationChart
+            data={[]}
+            series={series}
+            normalization={normalization}
+            title="Violations by Type"
+            type="bar"
+          />
+          <ViolationChart
+            data={[]}
+            series={series}
+            normalization={normalization}
+            title="Monthly Trend"
+            type="line"
+          />
+        </div>
+      )}
+
+      {!isLoading && !error && !hasData && (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No violation data for the selected boroughs and years.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
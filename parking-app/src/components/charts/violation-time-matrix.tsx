@@ -0,0 +1,145 @@
+"use client"
+
+import * as React from "react"
+import { Clock, X } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ViolationTimeMatrixCounts, ViolationTimeSlot } from "@/lib/types"
+import { buildTimeMatrix, DAY_LABELS, formatTimeSlot } from "@/lib/analytics/timeMatrix"
+
+interface ViolationTimeMatrixProps {
+  counts: ViolationTimeMatrixCounts
+  // Says what the counts cover when it is less than the whole query, e.g. "this page"
+  scope?: string
+  title?: string
+  // A clicked cell, narrowed to the type the matrix was filtered by
+  selected?: ViolationTimeSlot | null
+  onSelect?: (selection: ViolationTimeSlot | null) => void
+  className?: string
+}
+
+const HOUR_LABELS = [0, 6, 12, 18].map(hour => ({ hour, label: `${hour % 12 || 12}${hour < 12 ? "a" : "p"}` }))
+
+// Violations by day of week and hour of day; click a cell to select that slot
+export function ViolationTimeMatrix({
+  counts,
+  scope,
+  title = "When Violations Are Written",
+  selected,
+  onSelect,
+  className,
+}: ViolationTimeMatrixProps) {
+  const [violationType, setViolationType] = React.useState<string>('all')
+
+  const types = React.useMemo(() => Object.keys(counts).sort(), [counts])
+
+  // Drop a type filter the current violations no longer contain
+  React.useEffect(() => {
+    if (violationType !== 'all' && !types.includes(violationType)) setViolationType('all')
+  }, [types, violationType])
+
+  const matrix = React.useMemo(
+    () => buildTimeMatrix(counts, violationType !== 'all' ? violationType : undefined),
+    [counts, violationType]
+  )
+
+  const handleTypeChange = (value: string) => {
+    setViolationType(value)
+    if (selected) onSelect?.({ day: selected.day, hour: selected.hour, violation_type: value !== 'all' ? value : undefined })
+  }
+
+  const handleCellClick = (day: number, hour: number) => {
+    if (!onSelect) return
+    const isSelected = selected?.day === day && selected?.hour === hour
+    onSelect(isSelected ? null : { day, hour, violation_type: violationType !== 'all' ? violationType : undefined })
+  }
+
+  const selectedCount = selected ? matrix.cells[selected.day][selected.hour] : 0
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            {title}
+            {scope && <span className="text-sm font-normal text-muted-foreground">({scope})</span>}
+          </span>
+          <div className="w-56">
+            <Select value={violationType} onValueChange={handleTypeChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {types.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {matrix.total === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No data available for the selected filters
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="grid min-w-[560px] gap-px" style={{ gridTemplateColumns: "2.5rem repeat(24, minmax(0, 1fr))" }}>
+              <div />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} className="text-[10px] text-muted-foreground">
+                  {HOUR_LABELS.find(h => h.hour === hour)?.label}
+                </div>
+              ))}
+              {DAY_LABELS.map((dayLabel, day) => (
+                <React.Fragment key={dayLabel}>
+                  <div className="pr-1 text-xs text-muted-foreground leading-6">{dayLabel}</div>
+                  {matrix.cells[day].map((count, hour) => {
+                    const isSelected = selected?.day === day && selected?.hour === hour
+                    const intensity = matrix.max > 0 ? count / matrix.max : 0
+                    return (
+                      <button
+                        key={hour}
+                        type="button"
+                        className={`h-6 rounded-sm ${isSelected ? "ring-2 ring-primary ring-offset-1" : ""} ${onSelect ? "cursor-pointer hover:opacity-80" : "cursor-default"}`}
+                        style={{
+                          backgroundColor: count > 0 ? `rgba(168, 85, 247, ${0.15 + intensity * 0.85})` : "hsl(var(--muted))",
+                        }}
+                        title={`${formatTimeSlot({ day, hour })}: ${count} violation${count === 1 ? "" : "s"}`}
+                        onClick={() => handleCellClick(day, hour)}
+                      />
+                    )
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {matrix.total.toLocaleString()} violations{scope && ` on ${scope}`} · busiest slot {matrix.max.toLocaleString()}
+          </span>
+          {selected && (
+            <span className="flex items-center gap-2">
+              <span className="font-medium text-foreground">
+                Showing {formatTimeSlot(selected)}: {selectedCount.toLocaleString()} violations
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onSelect?.(null)}>
+                <X className="h-3 w-3 mr-1" />
+                Clear
+              </Button>
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
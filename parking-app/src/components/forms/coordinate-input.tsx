@@ -46,6 +46,11 @@ export function CoordinateInput({
     }
   }, [initialLocation])
 
+  // Follow radius changes made elsewhere, e.g. on the map
+  React.useEffect(() => {
+    setRadius(initialRadius.toString())
+  }, [initialRadius])
+
   // Validate inputs
   const validateInputs = () => {
     const newErrors: typeof errors = {}
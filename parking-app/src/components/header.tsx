@@ -15,6 +15,7 @@ const navigation = [
   { name: "Meter Rates", href: "/meter-rates" },
   { name: "Violation Trends", href: "/violation-trends" },
   { name: "Violations Map", href: "/violations-map" },
+  { name: "Area Search", href: "/area-search" },
 ]
 
 export function Header() {
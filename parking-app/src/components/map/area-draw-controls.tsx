@@ -0,0 +1,68 @@
+"use client"
+
+import * as React from "react"
+import { Check, PenLine, Undo2, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+
+interface AreaDrawControlsProps {
+  drawing: boolean
+  vertexCount: number
+  hasArea: boolean
+  onStart: () => void
+  onFinish: () => void
+  onUndo: () => void
+  onCancel: () => void
+  onClear: () => void
+}
+
+// Map overlay for drawing a search polygon vertex by vertex
+export function AreaDrawControls({
+  drawing,
+  vertexCount,
+  hasArea,
+  onStart,
+  onFinish,
+  onUndo,
+  onCancel,
+  onClear,
+}: AreaDrawControlsProps) {
+  if (!drawing) {
+    return (
+      <div className="absolute bottom-10 left-2 z-10 flex gap-1 rounded-lg border bg-background/95 p-2 shadow-md">
+        <Button size="sm" className="h-7 px-2 text-xs" onClick={onStart}>
+          <PenLine className="h-3 w-3 mr-1" />
+          {hasArea ? "Redraw Area" : "Draw Area"}
+        </Button>
+        {hasArea && (
+          <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={onClear}>
+            <X className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="absolute bottom-10 left-2 z-10 w-60 space-y-2 rounded-lg border bg-background/95 p-2 text-xs shadow-md">
+      <p className="text-muted-foreground">
+        {vertexCount < 3
+          ? `Click the map to add corners (${vertexCount} of at least 3)`
+          : "Click the first corner or double-click to finish"}
+      </p>
+      <div className="flex gap-1">
+        <Button size="sm" className="h-7 flex-1 px-2 text-xs" onClick={onFinish} disabled={vertexCount < 3}>
+          <Check className="h-3 w-3 mr-1" />
+          Finish
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={onUndo} disabled={vertexCount === 0}>
+          <Undo2 className="h-3 w-3" />
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={onCancel}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import * as React from "react"
+import { ChevronDown, ChevronUp, Layers, RotateCcw } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { MapLayers } from "@/hooks/use-map-layers"
+import { MAP_LAYER_IDS, MAP_LAYER_LABELS, METER_STATUSES } from "@/lib/map/layers"
+import { BLOCK_FACE_CLASSES } from "@/lib/regulations/blockFaces"
+import { MapLayerId } from "@/lib/types"
+
+// Violation types offered as quick filters, most common first
+const VIOLATION_TYPE_CHOICES = 8
+
+export interface LayerAvailability {
+  count?: number
+}
+
+interface LayerPanelProps {
+  layers: MapLayers
+  // Layers this map has something to draw for
+  available: Partial<Record<MapLayerId, LayerAvailability>>
+  violationTypes: { type: string; count: number }[]
+}
+
+interface FilterChipsProps {
+  options: { value: string; label: string; color?: string }[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+}
+
+// Toggle buttons; nothing selected means no filter
+function FilterChips({ options, selected, onChange }: FilterChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-1 pl-5">
+      {options.map(({ value, label, color }) => {
+        const active = selected.includes(value)
+        return (
+          <Button
+            key={value}
+            size="sm"
+            variant={active ? "secondary" : "ghost"}
+            className="h-5 max-w-full truncate px-1.5 text-[10px]"
+            onClick={() => onChange(active ? selected.filter(v => v !== value) : [...selected, value])}
+            title={label}
+          >
+            {color && <span className="mr-1 h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: color }} />}
+            {label}
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
+
+// Map overlay listing the layers with visibility, opacity and quick filters
+export function LayerPanel({ layers, available, violationTypes }: LayerPanelProps) {
+  const [open, setOpen] = React.useState(false)
+  const { state, setLayer, setFilter, reset } = layers
+  const ids = MAP_LAYER_IDS.filter(id => available[id])
+
+  const filtersFor = (id: MapLayerId) => {
+    switch (id) {
+      case 'signs':
+        return (
+          <FilterChips
+            options={Object.entries(BLOCK_FACE_CLASSES).map(([value, { label, color }]) => ({ value, label, color }))}
+            selected={state.filters.sign_classes}
+            onChange={(values) => setFilter('sign_classes', values)}
+          />
+        )
+      case 'meters':
+        return (
+          <FilterChips
+            options={METER_STATUSES.map(status => ({ value: status, label: status.charAt(0).toUpperCase() + status.slice(1) }))}
+            selected={state.filters.meter_statuses}
+            onChange={(values) => setFilter('meter_statuses', values as typeof state.filters.meter_statuses)}
+          />
+        )
+      case 'violation_clusters':
+      case 'violation_heatmap': {
+        // Both violation layers share the filter; it sits under the first one shown
+        if (id === 'violation_heatmap' && available.violation_clusters && state.layers.violation_clusters.visible) return null
+        // Keep selected types listed even when they are not among the most common
+        const common = violationTypes.slice(0, VIOLATION_TYPE_CHOICES).map(({ type }) => type)
+        const options = [...new Set([...common, ...state.filters.violation_types])]
+        return options.length > 0 && (
+          <FilterChips
+            options={options.map(type => ({ value: type, label: type }))}
+            selected={state.filters.violation_types}
+            onChange={(values) => setFilter('violation_types', values)}
+          />
+        )
+      }
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className="w-56 rounded-lg border bg-background/95 text-xs shadow-md">
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-8 w-full justify-start px-2 text-xs"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <Layers className="h-3 w-3 mr-1" />
+        <span className="flex-1 text-left">Layers</span>
+        {open ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </Button>
+
+      {open && (
+        <div className="max-h-[22rem] space-y-2 overflow-y-auto border-t p-2">
+          {ids.map((id) => {
+            const setting = state.layers[id]
+            const { count } = available[id] ?? {}
+            return (
+              <div key={id} className="space-y-1">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={setting.visible}
+                    onChange={(e) => setLayer(id, { visible: e.target.checked })}
+                    className="accent-primary"
+                  />
+                  <span className="flex-1">{MAP_LAYER_LABELS[id]}</span>
+                  {count !== undefined && <span className="text-muted-foreground">{count.toLocaleString()}</span>}
+                </label>
+                {setting.visible && (
+                  <>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(setting.opacity * 100)}
+                      onChange={(e) => setLayer(id, { opacity: Number(e.target.value) / 100 })}
+                      className="ml-5 w-[calc(100%-1.25rem)] accent-primary"
+                      aria-label={`${MAP_LAYER_LABELS[id]} opacity`}
+                    />
+                    {filtersFor(id)}
+                  </>
+                )}
+              </div>
+            )
+          })}
+          <Button size="sm" variant="outline" className="h-6 w-full px-2 text-[10px]" onClick={reset}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset layers
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
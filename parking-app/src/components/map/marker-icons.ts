@@ -0,0 +1,122 @@
+import type { Map as MapboxMap } from "mapbox-gl"
+
+import { MapMarker } from "@/lib/types"
+
+export const MARKER_TYPES: MapMarker['type'][] = ['parking_sign', 'meter', 'search_center', 'violation']
+
+export const MARKER_LABELS: Record<MapMarker['type'], string> = {
+  parking_sign: 'Parking sign',
+  meter: 'Meter',
+  search_center: 'Search centre',
+  violation: 'Violation',
+}
+
+export const getMarkerColor = (type: MapMarker['type']) => {
+  switch (type) {
+    case 'parking_sign':
+      return '#ef4444' // red
+    case 'meter':
+      return '#22c55e' // green
+    case 'search_center':
+      return '#3b82f6' // blue
+    case 'violation':
+      return '#a855f7' // violet
+    default:
+      return '#6b7280' // gray
+  }
+}
+
+export const getMarkerIcon = (type: MapMarker['type']) => {
+  switch (type) {
+    case 'parking_sign':
+      return '🚫'
+    case 'meter':
+      return '🅿️'
+    case 'search_center':
+      return '📍'
+    case 'violation':
+      return '⚠️'
+    default:
+      return '📍'
+  }
+}
+
+// Style image name for a marker type, used as the symbol layer's icon-image
+export const markerImageId = (type: MapMarker['type']) => `marker-${type}`
+export const USER_LOCATION_IMAGE_ID = 'marker-user-location'
+export const BOOKMARK_IMAGE_ID = 'marker-bookmark'
+export const BOOKMARK_COLOR = '#f59e0b'
+
+// Icons are drawn at twice their size for high-density screens
+const PIXEL_RATIO = 2
+const MARKER_SIZE = 32
+const USER_LOCATION_SIZE = 24
+
+function drawImage(size: number, draw: (ctx: CanvasRenderingContext2D, center: number) => void) {
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = size * PIXEL_RATIO
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return undefined
+  ctx.scale(PIXEL_RATIO, PIXEL_RATIO)
+  draw(ctx, size / 2)
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+// Adds the marker sprites to the map's style: a coloured disc with the type's
+// emoji for each marker type, a star for bookmarks and a blue dot for the
+// user's location
+export function addMarkerImages(map: MapboxMap) {
+  for (const type of MARKER_TYPES) {
+    const id = markerImageId(type)
+    if (map.hasImage(id)) continue
+    const image = drawImage(MARKER_SIZE, (ctx, center) => {
+      ctx.beginPath()
+      ctx.arc(center, center, center - 2, 0, Math.PI * 2)
+      ctx.fillStyle = getMarkerColor(type)
+      ctx.fill()
+      ctx.lineWidth = 2
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)'
+      ctx.stroke()
+      ctx.font = `${MARKER_SIZE / 2}px sans-serif`
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(getMarkerIcon(type), center, center + 1)
+    })
+    if (image) map.addImage(id, image, { pixelRatio: PIXEL_RATIO })
+  }
+
+  if (!map.hasImage(BOOKMARK_IMAGE_ID)) {
+    const image = drawImage(MARKER_SIZE, (ctx, center) => {
+      ctx.beginPath()
+      ctx.arc(center, center, center - 4, 0, Math.PI * 2)
+      ctx.fillStyle = BOOKMARK_COLOR
+      ctx.fill()
+      ctx.lineWidth = 2
+      ctx.strokeStyle = '#ffffff'
+      ctx.stroke()
+      ctx.font = `bold ${MARKER_SIZE / 2}px sans-serif`
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillStyle = '#ffffff'
+      ctx.fillText('★', center, center + 1)
+    })
+    if (image) map.addImage(BOOKMARK_IMAGE_ID, image, { pixelRatio: PIXEL_RATIO })
+  }
+
+  if (!map.hasImage(USER_LOCATION_IMAGE_ID)) {
+    const image = drawImage(USER_LOCATION_SIZE, (ctx, center) => {
+      ctx.beginPath()
+      ctx.arc(center, center, center, 0, Math.PI * 2)
+      ctx.fillStyle = 'rgba(37, 99, 235, 0.25)'
+      ctx.fill()
+      ctx.beginPath()
+      ctx.arc(center, center, 7, 0, Math.PI * 2)
+      ctx.fillStyle = '#2563eb'
+      ctx.fill()
+      ctx.lineWidth = 2
+      ctx.strokeStyle = '#ffffff'
+      ctx.stroke()
+    })
+    if (image) map.addImage(USER_LOCATION_IMAGE_ID, image, { pixelRatio: PIXEL_RATIO })
+  }
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import * as React from "react"
+
+import { getMarkerColor, getMarkerIcon, MARKER_LABELS } from "@/components/map/marker-icons"
+import { MapMarker } from "@/lib/types"
+
+interface MarkerLegendProps {
+  types: MapMarker['type'][]
+}
+
+// Key for the marker symbols on the map, in the same colours and icons
+export function MarkerLegend({ types }: MarkerLegendProps) {
+  if (types.length === 0) return null
+
+  return (
+    <div className="space-y-1 rounded-lg border bg-background/95 p-2 text-xs shadow-md">
+      {types.map((type) => (
+        <div key={type} className="flex items-center gap-2">
+          <span
+            className="flex h-4 w-4 items-center justify-center rounded-full border border-white/60 text-[9px] leading-none"
+            style={{ backgroundColor: getMarkerColor(type) }}
+          >
+            {getMarkerIcon(type)}
+          </span>
+          {MARKER_LABELS[type]}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,14 +1,64 @@
 "use client"
 
 import * as React from "react"
-import Map, { NavigationControl, GeolocateControl, Marker, Popup, Source, Layer } from "react-map-gl"
-import { api } from "@/lib/api"
-import { Borough } from "@/lib/types"
+import Map, { NavigationControl, GeolocateControl, Marker, Popup, Source, Layer, LayerProps } from "react-map-gl"
+import type { GeoJSONSource, LngLatBounds } from "mapbox-gl"
 import { MapPinOff } from "lucide-react"
-import { Button } from "@/components/ui/button"
+import { useQuery } from "@tanstack/react-query"
 import { Card, CardContent } from "@/components/ui/card"
-import { MapLocation, MapMarker } from "@/lib/types"
-import { constants } from "@/lib/utils"
+import { ViolationLayerControls } from "@/components/map/violation-layer-controls"
+import { LayerAvailability, LayerPanel } from "@/components/map/layer-panel"
+import { AreaDrawControls } from "@/components/map/area-draw-controls"
+import { ViewportSearchControls } from "@/components/map/viewport-search-controls"
+import { RegulationTimeSlider } from "@/components/map/regulation-time-slider"
+import { MarkerLegend } from "@/components/map/marker-legend"
+import { addMarkerImages, BOOKMARK_COLOR, BOOKMARK_IMAGE_ID, MARKER_TYPES, markerImageId, USER_LOCATION_IMAGE_ID } from "@/components/map/marker-icons"
+import { ViewportSearch } from "@/hooks/use-viewport-search"
+import { useMapLayers } from "@/hooks/use-map-layers"
+import { apiUtils } from "@/lib/api"
+import { getClusterExpansionZoom, getMapProvider, MapProvider } from "@/lib/map/provider"
+import { BookmarkedLocation, MapLayerId, MapLocation, MapMarker, MapViewport, MeterRate, ParkingSign, SearchArea, Violation } from "@/lib/types"
+import { constants, storage } from "@/lib/utils"
+import { areaRing, destinationPoint, geodesicCircle, haversineDistance } from "@/lib/utils/geospatial"
+import { explainHotspot, findHotspots, Hotspot, hotspotOutline, HotspotWeight } from "@/lib/analytics/hotspots"
+import { RISK_LEVELS, TicketRisk } from "@/lib/analytics/ticketRisk"
+import { BLOCK_FACE_CLASSES, BlockFace, BlockFaceStatus, blockFaceStatus, buildBlockFaces } from "@/lib/regulations/blockFaces"
+import { loadSuspensionCalendar } from "@/lib/regulations/suspensions"
+import { loadBoroughBoundaries } from "@/lib/data/boroughBoundariesProvider"
+
+// Smallest radius the resize handle allows, in meters
+const MIN_SEARCH_RADIUS = 50
+// Clicking this close to the first corner closes a polygon being drawn, in pixels
+const CLOSE_POLYGON_PIXELS = 10
+// Sign points sit on their block face lines and only show once zoomed in this far
+const SIGN_POINT_MIN_ZOOM = 17
+// Marker types drawn above the rest when symbols collide
+const MARKER_SORT_KEYS: Record<MapMarker['type'], number> = { search_center: 0, violation: 1, parking_sign: 2, meter: 3 }
+
+// Marker lookup key, also the features' marker_id property
+const markerKey = (marker: MapMarker) => `${marker.type}-${marker.id}`
+
+const markerFeatureCollection = (markers: MapMarker[]) => ({
+  type: 'FeatureCollection',
+  features: markers.map(marker => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [marker.longitude, marker.latitude] },
+    properties: {
+      marker_id: markerKey(marker),
+      icon: markerImageId(marker.type),
+      sort: MARKER_SORT_KEYS[marker.type],
+    },
+  })),
+} as const)
+
+function readViewport(map: { getBounds: () => LngLatBounds | null; getZoom: () => number }): MapViewport | undefined {
+  const bounds = map.getBounds()
+  if (!bounds) return undefined
+  return {
+    bounds: { type: 'bbox', north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() },
+    zoom: map.getZoom(),
+  }
+}
 
 interface NYCMapProps {
   center?: MapLocation
@@ -20,6 +70,22 @@ interface NYCMapProps {
   height?: string
   interactive?: boolean
   searchRadius?: number
+  // Shows a handle on the radius circle for resizing it
+  onSearchRadiusChange?: (radius: number) => void
+  // Search polygon shown on the map
+  area?: SearchArea | null
+  // Shows the draw tools; called with the finished polygon, or null when cleared
+  onAreaDraw?: (area: SearchArea | null) => void
+  // Reports the visible bounds and shows the "Search this area" controls
+  viewportSearch?: ViewportSearch
+  viewportSearchLoading?: boolean
+  viewportSearchTruncated?: boolean
+  // When the block faces are coloured for; now when unset
+  regulationTime?: Date
+  // Shows the week time slider; null returns to now
+  onRegulationTimeChange?: (time: Date | null) => void
+  // Ticket risk at a point, shown under the cursor
+  riskAt?: (location: MapLocation) => TicketRisk | undefined
   className?: string
 }
 
@@ -33,6 +99,15 @@ export function NYCMap({
   height = "500px",
   interactive = true,
   searchRadius,
+  onSearchRadiusChange,
+  area,
+  onAreaDraw,
+  viewportSearch,
+  viewportSearchLoading,
+  viewportSearchTruncated,
+  regulationTime,
+  onRegulationTimeChange,
+  riskAt,
   className,
 }: NYCMapProps) {
   const [viewport, setViewport] = React.useState({
@@ -44,15 +119,248 @@ export function NYCMap({
   const [selectedMarker, setSelectedMarker] = React.useState<MapMarker | null>(null)
   const [userLocation, setUserLocation] = React.useState<MapLocation | null>(null)
   const [mapLoading, setMapLoading] = React.useState(true)
+  // Symbol layers wait for their icons to be added to the style
+  const [markerImagesReady, setMarkerImagesReady] = React.useState(false)
   const [violationPopup, setViolationPopup] = React.useState<{
     longitude: number
     latitude: number
     title?: string
     content?: string
   } | null>(null)
-  const [violationLoading, setViolationLoading] = React.useState(false)
-  const [violationError, setViolationError] = React.useState<string | null>(null)
   const [mapCursor, setMapCursor] = React.useState<string>('')
+  // Mapbox, or MapLibre over the self-hosted basemap
+  const [mapProvider, setMapProvider] = React.useState<MapProvider | null>(null)
+  // What the layer panel shows, with opacities and quick filters
+  const mapLayers = useMapLayers()
+  const { layers, filters } = mapLayers.state
+  const [violationWeight, setViolationWeight] = React.useState<HotspotWeight>('count')
+  const [showHotspots, setShowHotspots] = React.useState(false)
+  const [hotspotPopup, setHotspotPopup] = React.useState<Hotspot | null>(null)
+  const [hoverRisk, setHoverRisk] = React.useState<(MapLocation & { risk: TicketRisk }) | null>(null)
+  const riskFrame = React.useRef<number | null>(null)
+  // Radius circle while it is being moved or resized
+  const [draftCenter, setDraftCenter] = React.useState<MapLocation | null>(null)
+  const [draftRadius, setDraftRadius] = React.useState<number | null>(null)
+  const circleDrag = React.useRef<{ latOffset: number; lonOffset: number } | null>(null)
+  // Corners of a polygon being drawn ([lon, lat]); null when not drawing
+  const [drawVertices, setDrawVertices] = React.useState<[number, number][] | null>(null)
+  const [drawCursor, setDrawCursor] = React.useState<[number, number] | null>(null)
+  const drawing = drawVertices !== null
+  const [blockFacePopup, setBlockFacePopup] = React.useState<{ face: BlockFace; longitude: number; latitude: number } | null>(null)
+
+  const allViolationMarkers = React.useMemo(
+    () => markers.filter(m => m.type === 'violation' && Number.isFinite(m.latitude) && Number.isFinite(m.longitude)),
+    [markers]
+  )
+
+  // Violation types on the map, most common first, for the layer panel's filter
+  const violationTypes = React.useMemo(() => {
+    const counts: Record<string, number> = {}
+    for (const m of allViolationMarkers) {
+      const type = (m.data as Violation | undefined)?.violation_type
+      if (type) counts[type] = (counts[type] ?? 0) + 1
+    }
+    return Object.entries(counts).map(([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count)
+  }, [allViolationMarkers])
+
+  const violationMarkers = React.useMemo(() => {
+    if (filters.violation_types.length === 0) return allViolationMarkers
+    return allViolationMarkers.filter(m => filters.violation_types.includes((m.data as Violation | undefined)?.violation_type ?? ''))
+  }, [allViolationMarkers, filters.violation_types])
+
+  // Built once per marker set: the sources would otherwise reload their data on every render
+  const violationFeatures = React.useMemo(() => ({
+    type: 'FeatureCollection',
+    features: violationMarkers.map((m, index) => {
+      const violation = m.data as Violation | undefined
+      return {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [m.longitude, m.latitude] },
+        properties: {
+          id: `${m.id}`,
+          title: m.popup?.title || '',
+          content: m.popup?.content || '',
+          borough: `${m.id}`.replace('violation-', ''),
+          index,
+          // Add violation-specific data for clustering
+          violation_type: violation?.violation_type || '',
+          fine_amount: violation?.fine_amount || 0,
+        },
+      }
+    }),
+  } as const), [violationMarkers])
+
+  const maxViolationFine = React.useMemo(
+    () => violationMarkers.reduce((max, m) => Math.max(max, (m.data as Violation | undefined)?.fine_amount ?? 0), 1),
+    [violationMarkers]
+  )
+
+  // Every other marker is a symbol: search centres always show, signs sit on
+  // their block faces, and the rest cluster
+  const markerLayers = React.useMemo(() => {
+    const statuses = filters.meter_statuses
+    const located = markers.filter(m =>
+      m.type !== 'violation' && Number.isFinite(m.latitude) && Number.isFinite(m.longitude) &&
+      (m.type !== 'meter' || statuses.length === 0 || statuses.includes((m.data as MeterRate | undefined)?.status ?? 'active'))
+    )
+    return {
+      pinned: markerFeatureCollection(located.filter(m => m.type === 'search_center')),
+      signs: markerFeatureCollection(located.filter(m => m.type === 'parking_sign')),
+      clustered: markerFeatureCollection(located.filter(m => m.type !== 'search_center' && m.type !== 'parking_sign')),
+    }
+  }, [markers, filters.meter_statuses])
+
+  const markersById = React.useMemo(
+    (): Record<string, MapMarker> => Object.fromEntries(markers.map(m => [markerKey(m), m])),
+    [markers]
+  )
+
+  // Marker types drawn on the map, for the legend
+  const legendTypes = React.useMemo(() => {
+    const hidden: Partial<Record<MapMarker['type'], boolean>> = {
+      parking_sign: !layers.signs.visible,
+      meter: !layers.meters.visible,
+      violation: !layers.violation_clusters.visible && !layers.violation_heatmap.visible,
+    }
+    return MARKER_TYPES.filter(type => !hidden[type] && markers.some(m => m.type === type))
+  }, [markers, layers.signs.visible, layers.meters.visible, layers.violation_clusters.visible, layers.violation_heatmap.visible])
+
+  // Borough outlines, loaded once the layer is switched on
+  const { data: boroughBoundaries } = useQuery({
+    queryKey: ['borough-boundaries'],
+    queryFn: loadBoroughBoundaries,
+    enabled: layers.boroughs.visible,
+    staleTime: Infinity,
+  })
+
+  const boroughFeatures = React.useMemo(() => ({
+    type: 'FeatureCollection',
+    features: (boroughBoundaries ?? []).map(boundary => ({
+      type: 'Feature',
+      geometry: { type: 'MultiPolygon', coordinates: boundary.coordinates },
+      properties: { borough: boundary.borough, name: boundary.name },
+    })),
+  } as const), [boroughBoundaries])
+
+  React.useEffect(() => {
+    let cancelled = false
+    getMapProvider().then((provider) => {
+      if (!cancelled) setMapProvider(provider)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Saved locations, kept in step with local storage while the layer is on
+  const [bookmarks, setBookmarks] = React.useState<BookmarkedLocation[]>([])
+  const [bookmarkPopup, setBookmarkPopup] = React.useState<BookmarkedLocation | null>(null)
+  React.useEffect(() => {
+    if (!layers.bookmarks.visible) return
+    const load = () => setBookmarks(storage.getBookmarks())
+    load()
+    return storage.onBookmarksChange(load)
+  }, [layers.bookmarks.visible])
+
+  const bookmarkFeatures = React.useMemo(() => ({
+    type: 'FeatureCollection',
+    features: bookmarks.flatMap(bookmark => [
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [bookmark.longitude, bookmark.latitude] },
+        properties: { bookmark_id: bookmark.id, name: bookmark.name },
+      },
+      ...(bookmark.area ? [{
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [areaRing(bookmark.area)] },
+        properties: { bookmark_id: bookmark.id, name: bookmark.name },
+      }] : []),
+    ] as const),
+  } as const), [bookmarks])
+
+  const userLocationFeature = React.useMemo(() => userLocation ? {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [userLocation.longitude, userLocation.latitude] },
+    properties: {},
+  } as const : undefined, [userLocation])
+
+  // Signs are drawn as block faces rather than one marker each
+  const { data: suspensionCalendar } = useQuery({
+    queryKey: ['suspension-calendar'],
+    queryFn: loadSuspensionCalendar,
+    staleTime: Infinity,
+  })
+  const blockFaces = React.useMemo(() => {
+    const signs = markers
+      .filter(m => m.type === 'parking_sign' && m.data && 'description' in m.data)
+      .map(m => m.data as ParkingSign)
+    return buildBlockFaces(signs)
+  }, [markers])
+
+  // "Now" is refreshed every minute unless a time is chosen
+  const [now, setNow] = React.useState(() => new Date())
+  React.useEffect(() => {
+    if (regulationTime || blockFaces.length === 0) return
+    setNow(new Date())
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [regulationTime, blockFaces.length])
+  const statusTime = regulationTime ?? now
+
+  const blockFaceStatuses = React.useMemo(
+    (): Record<string, BlockFaceStatus> =>
+      Object.fromEntries(blockFaces.map(face => [face.id, blockFaceStatus(face, statusTime, suspensionCalendar)])),
+    [blockFaces, statusTime, suspensionCalendar]
+  )
+
+  const blockFaceFeatures = React.useMemo(() => ({
+    type: 'FeatureCollection',
+    features: blockFaces.flatMap((face) => {
+      const faceClass = blockFaceStatuses[face.id].class
+      if (filters.sign_classes.length > 0 && !filters.sign_classes.includes(faceClass)) return []
+      const color = BLOCK_FACE_CLASSES[faceClass].color
+      return [
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: face.coordinates },
+          properties: { face_id: face.id, color, kind: 'face' },
+        },
+        ...(face.arrows.length > 0 ? [{
+          type: 'Feature',
+          geometry: { type: 'MultiLineString', coordinates: face.arrows },
+          properties: { face_id: face.id, color, kind: 'arrow' },
+        }] : []),
+      ] as const
+    }),
+  } as const), [blockFaces, blockFaceStatuses, filters.sign_classes])
+
+  React.useEffect(() => setBlockFacePopup(null), [blockFaces])
+
+  // Getis-Ord Gi* hotspots over the violations currently on the map
+  const hotspotAnalysis = React.useMemo(() => {
+    if (!showHotspots || violationMarkers.length === 0) return undefined
+    const violations = violationMarkers.map(m => m.data).filter((v): v is Violation => !!v && 'violation_type' in v)
+    return findHotspots(violations, { weight: violationWeight })
+  }, [showHotspots, violationMarkers, violationWeight])
+
+  React.useEffect(() => setHotspotPopup(null), [hotspotAnalysis])
+
+  // Evaluate the risk at most once per frame while the cursor moves
+  const updateHoverRisk = React.useCallback((location: MapLocation | null) => {
+    if (riskFrame.current !== null) cancelAnimationFrame(riskFrame.current)
+    riskFrame.current = requestAnimationFrame(() => {
+      riskFrame.current = null
+      const risk = location && riskAt?.(location)
+      setHoverRisk(location && risk ? { ...location, risk } : null)
+    })
+  }, [riskAt])
+
+  React.useEffect(() => {
+    setHoverRisk(null)
+    return () => {
+      if (riskFrame.current !== null) cancelAnimationFrame(riskFrame.current)
+    }
+  }, [riskAt])
 
   // Update viewport when center changes
   React.useEffect(() => {
@@ -73,6 +381,118 @@ export function NYCMap({
     })
   }, [interactive, onLocationSelect])
 
+  // While the visible area drives the search, the radius circle no longer applies
+  const radiusAvailable = typeof searchRadius === 'number' && searchRadius > 0 && !viewportSearch?.area
+  const hasRadius = radiusAvailable && layers.search_radius.visible
+
+  // Layers the panel lists for this map
+  const layerAvailability = React.useMemo((): Partial<Record<MapLayerId, LayerAvailability>> => {
+    const count = (type: MapMarker['type']) => markers.filter(m => m.type === type).length
+    const signs = count('parking_sign')
+    const meters = count('meter')
+    return {
+      ...(signs > 0 && { signs: { count: signs } }),
+      ...(meters > 0 && { meters: { count: meters } }),
+      ...(allViolationMarkers.length > 0 && {
+        violation_clusters: { count: allViolationMarkers.length },
+        violation_heatmap: {},
+      }),
+      ...(radiusAvailable && { search_radius: {} }),
+      boroughs: {},
+      bookmarks: { count: bookmarks.length },
+    }
+  }, [markers, allViolationMarkers.length, radiusAvailable, bookmarks.length])
+  const canMoveCircle = hasRadius && interactive && !!onLocationSelect && !drawing
+  const circleCenter = draftCenter ?? center
+  const circleRadius = draftRadius ?? searchRadius ?? 0
+
+  const radiusCircle = React.useMemo(() => ({
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [geodesicCircle(circleCenter.latitude, circleCenter.longitude, circleRadius)],
+    },
+    properties: {},
+  } as const), [circleCenter.latitude, circleCenter.longitude, circleRadius])
+
+  const hoverRiskCircle = React.useMemo(() => hoverRisk && ({
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [geodesicCircle(hoverRisk.latitude, hoverRisk.longitude, constants.TICKET_RISK_RADIUS)],
+    },
+    properties: { color: RISK_LEVELS[hoverRisk.risk.level].color },
+  } as const), [hoverRisk])
+
+  // Label below the circle's southern edge
+  const hoverRiskLabel = hoverRisk ? {
+    position: destinationPoint(hoverRisk.latitude, hoverRisk.longitude, constants.TICKET_RISK_RADIUS, 180),
+    color: RISK_LEVELS[hoverRisk.risk.level].color,
+    text: `${RISK_LEVELS[hoverRisk.risk.level].label} risk · ${hoverRisk.risk.score}`,
+  } : undefined
+
+  const resizeHandle = hasRadius ? destinationPoint(circleCenter.latitude, circleCenter.longitude, circleRadius, 90) : undefined
+
+  const handleResize = React.useCallback((lngLat: { lng: number; lat: number }) => {
+    const distance = haversineDistance(center.latitude, center.longitude, lngLat.lat, lngLat.lng)
+    // Whole tens of meters, within what the data sources accept
+    return Math.min(constants.MAX_RADIUS, Math.max(MIN_SEARCH_RADIUS, Math.round(distance / 10) * 10))
+  }, [center])
+
+  // Drop a moved circle at its new centre
+  const endCircleDrag = React.useCallback(() => {
+    if (!circleDrag.current) return
+    circleDrag.current = null
+    if (draftCenter && onLocationSelect) onLocationSelect(draftCenter)
+    setDraftCenter(null)
+    setMapCursor('')
+  }, [draftCenter, onLocationSelect])
+
+  const stopDrawing = React.useCallback(() => {
+    setDrawVertices(null)
+    setDrawCursor(null)
+    setMapCursor('')
+  }, [])
+
+  const finishDrawing = React.useCallback((vertices: [number, number][]) => {
+    // A double-click lands twice on the same spot
+    const corners = vertices.filter((v, i) => i === 0 || v[0] !== vertices[i - 1][0] || v[1] !== vertices[i - 1][1])
+    if (corners.length >= 3) onAreaDraw?.({ type: 'polygon', coordinates: corners })
+    stopDrawing()
+  }, [onAreaDraw, stopDrawing])
+
+  // Escape abandons the polygon being drawn
+  React.useEffect(() => {
+    if (!drawing) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') stopDrawing()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [drawing, stopDrawing])
+
+  const areaFeature = React.useMemo(() => area ? {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [areaRing(area)] },
+    properties: {},
+  } as const : undefined, [area])
+
+  const drawFeatures = React.useMemo(() => {
+    if (!drawVertices) return undefined
+    const path = drawCursor ? [...drawVertices, drawCursor] : drawVertices
+    return {
+      type: 'FeatureCollection',
+      features: [
+        ...(path.length > 1 ? [{ type: 'Feature', geometry: { type: 'LineString', coordinates: path }, properties: {} } as const] : []),
+        ...drawVertices.map((coordinates, index) => ({
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates },
+          properties: { first: index === 0 },
+        } as const)),
+      ],
+    } as const
+  }, [drawVertices, drawCursor])
+
   const handleMarkerClick = React.useCallback((marker: MapMarker) => {
     setSelectedMarker(marker)
     if (onMarkerClick) {
@@ -91,40 +511,15 @@ export function NYCMap({
     }
   }, [onLocationSelect])
 
-  const getMarkerColor = (type: MapMarker['type']) => {
-    switch (type) {
-      case 'parking_sign':
-        return '#ef4444' // red
-      case 'meter':
-        return '#22c55e' // green
-      case 'search_center':
-        return '#3b82f6' // blue
-      case 'violation':
-        return '#a855f7' // violet
-      default:
-        return '#6b7280' // gray
-    }
-  }
-
-  const getMarkerIcon = (type: MapMarker['type']) => {
-    switch (type) {
-      case 'parking_sign':
-        return '🚫'
-      case 'meter':
-        return '🅿️'
-      case 'search_center':
-        return '📍'
-      case 'violation':
-        return '⚠️'
-      default:
-        return '📍'
-    }
+  if (!mapProvider) {
+    return (
+      <div className={`${className ?? ''} flex items-center justify-center rounded-lg bg-muted`} style={{ height }}>
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
   }
 
-  // Get Mapbox token from environment variable
-  const mapboxToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
-
-  if (!mapboxToken) {
+  if (mapProvider.kind === 'mapbox' && !mapProvider.accessToken) {
     return (
       <Card className={className} style={{ height }}>
         <CardContent className="flex items-center justify-center h-full">
@@ -132,7 +527,8 @@ export function NYCMap({
             <MapPinOff className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <h3 className="text-lg font-semibold mb-2">Map Unavailable</h3>
             <p className="text-sm text-muted-foreground">
-              Mapbox token not configured. Please set NEXT_PUBLIC_MAPBOX_TOKEN environment variable.
+              Mapbox token not configured. Please set NEXT_PUBLIC_MAPBOX_TOKEN, or set
+              NEXT_PUBLIC_MAP_PROVIDER=maplibre to use the self-hosted basemap.
             </p>
           </div>
         </CardContent>
@@ -141,31 +537,64 @@ export function NYCMap({
   }
 
   const VIOLATION_LAYER_ID = 'violation-points'
+  const RADIUS_LAYER_ID = 'search-radius-fill'
+  const HOTSPOT_LAYER_ID = 'violation-hotspots'
+  const BLOCK_FACE_LAYER_ID = 'block-face-lines'
+  const MARKER_LAYER_ID = 'marker-points'
+  const MARKER_CLUSTER_LAYER_ID = 'marker-clusters'
+  const SIGN_POINT_LAYER_ID = 'sign-points'
+  const PINNED_MARKER_LAYER_ID = 'pinned-markers'
+  const markerLayerIds = [MARKER_LAYER_ID, SIGN_POINT_LAYER_ID, PINNED_MARKER_LAYER_ID]
+  const clusterLayerIds = ['violation-clusters', MARKER_CLUSTER_LAYER_ID]
+  const BOOKMARK_LAYER_ID = 'bookmark-points'
 
   return (
     <div className={className} style={{ height, position: 'relative' }}>
       <Map
         {...viewport}
         onMove={evt => setViewport(evt.viewState)}
+        onMouseDown={(evt) => {
+          // Dragging inside the radius circle moves the search centre instead of the map
+          if (!canMoveCircle || evt.features?.[0]?.layer?.id !== RADIUS_LAYER_ID) return
+          evt.preventDefault()
+          circleDrag.current = {
+            latOffset: center.latitude - evt.lngLat.lat,
+            lonOffset: center.longitude - evt.lngLat.lng,
+          }
+          setMapCursor('grabbing')
+        }}
+        onMouseUp={endCircleDrag}
         onClick={async (evt) => {
-          // Handle clicks on cluster layer first (zoom in on clusters)
-          const clusterFeature = evt.features?.find(f => f.layer?.id === 'violation-clusters')
+          // While drawing, clicks place corners; the first corner closes the polygon
+          if (drawVertices) {
+            const first = drawVertices[0]
+            if (first && drawVertices.length >= 3) {
+              const point = evt.target.project(first)
+              if (Math.hypot(point.x - evt.point.x, point.y - evt.point.y) <= CLOSE_POLYGON_PIXELS) {
+                finishDrawing(drawVertices)
+                return
+              }
+            }
+            setDrawVertices([...drawVertices, [evt.lngLat.lng, evt.lngLat.lat]])
+            return
+          }
+
+          // Handle clicks on cluster layers first (zoom in on clusters)
+          const clusterFeature = evt.features?.find(f => clusterLayerIds.includes(f.layer?.id ?? ''))
           if (clusterFeature && clusterFeature.geometry.type === 'Point') {
             const [longitude, latitude] = clusterFeature.geometry.coordinates as [number, number]
             const clusterId = clusterFeature.properties?.cluster_id
-            const source = evt.target.getSource('violations-source')
+            const source = clusterFeature.source ? evt.target.getSource(clusterFeature.source) as GeoJSONSource | undefined : undefined
             
-            if (source && source.getClusterExpansionZoom && clusterId !== undefined) {
-              source.getClusterExpansionZoom(clusterId, (err: Error | null, zoom: number) => {
-                if (err) return
-                
+            if (source && clusterId !== undefined) {
+              getClusterExpansionZoom(source, clusterId).then((zoom) => {
                 setViewport(prev => ({
                   ...prev,
                   longitude,
                   latitude,
                   zoom: Math.min(zoom, 16), // Cap zoom level
                 }))
-              })
+              }, () => undefined)
             }
             return
           }
@@ -195,21 +624,97 @@ export function NYCMap({
             }
             return
           }
+
+          // Marker symbols
+          const markerFeature = evt.features?.find(f => markerLayerIds.includes(f.layer?.id ?? ''))
+          const marker = markersById[markerFeature?.properties?.marker_id]
+          if (marker) {
+            handleMarkerClick(marker)
+            return
+          }
+
+          // Saved location under the click
+          const bookmarkFeature = evt.features?.find(f => f.layer?.id === BOOKMARK_LAYER_ID)
+          const bookmark = bookmarks.find(b => b.id === bookmarkFeature?.properties?.bookmark_id)
+          if (bookmark) {
+            setBookmarkPopup(bookmark)
+            return
+          }
+
+          // Block face under the click
+          const faceFeature = evt.features?.find(f => f.layer?.id === BLOCK_FACE_LAYER_ID)
+          const face = blockFaces.find(f => f.id === faceFeature?.properties?.face_id)
+          if (face) {
+            setBlockFacePopup({ face, longitude: evt.lngLat.lng, latitude: evt.lngLat.lat })
+            return
+          }
+
+          // Explain the hotspot under the click
+          const hotspotFeature = evt.features?.find(f => f.layer?.id === HOTSPOT_LAYER_ID)
+          const hotspot = hotspotAnalysis?.hotspots.find(h => h.id === hotspotFeature?.properties?.hotspot_id)
+          if (hotspot) {
+            setHotspotPopup(hotspot)
+            return
+          }
           handleMapClick(evt)
         }}
+        onDblClick={(evt) => {
+          if (!drawVertices) return
+          evt.preventDefault()
+          finishDrawing(drawVertices)
+        }}
         onMouseMove={(evt) => {
+          if (drawing) {
+            setDrawCursor([evt.lngLat.lng, evt.lngLat.lat])
+            setMapCursor('crosshair')
+            return
+          }
+          if (circleDrag.current) {
+            setDraftCenter({
+              latitude: evt.lngLat.lat + circleDrag.current.latOffset,
+              longitude: evt.lngLat.lng + circleDrag.current.lonOffset,
+            })
+            return
+          }
           const overViolation = !!evt.features?.find(f => 
-            f.layer?.id === VIOLATION_LAYER_ID || f.layer?.id === 'violation-clusters'
+            f.layer?.id === VIOLATION_LAYER_ID || f.layer?.id === HOTSPOT_LAYER_ID || f.layer?.id === BLOCK_FACE_LAYER_ID ||
+            f.layer?.id === BOOKMARK_LAYER_ID || clusterLayerIds.includes(f.layer?.id ?? '') || markerLayerIds.includes(f.layer?.id ?? '')
           )
-          setMapCursor(overViolation ? 'pointer' : '')
+          const overCircle = canMoveCircle && evt.features?.[0]?.layer?.id === RADIUS_LAYER_ID
+          setMapCursor(overViolation ? 'pointer' : overCircle ? 'grab' : '')
+          if (riskAt) updateHoverRisk({ latitude: evt.lngLat.lat, longitude: evt.lngLat.lng })
+        }}
+        onMouseOut={() => {
+          endCircleDrag()
+          if (riskAt) updateHoverRisk(null)
         }}
-        onLoad={() => setMapLoading(false)}
-        mapboxAccessToken={mapboxToken}
-        mapStyle="mapbox://styles/mapbox/streets-v12"
+        onMoveEnd={(evt) => {
+          const next = viewportSearch && readViewport(evt.target)
+          if (next) viewportSearch.onViewportChange(next)
+        }}
+        onLoad={(evt) => {
+          setMapLoading(false)
+          addMarkerImages(evt.target)
+          setMarkerImagesReady(true)
+          const next = viewportSearch && readViewport(evt.target)
+          if (next) viewportSearch.onViewportChange(next)
+        }}
+        mapLib={mapProvider.mapLib}
+        mapboxAccessToken={mapProvider.accessToken}
+        mapStyle={mapProvider.mapStyle}
         attributionControl={false}
         style={{ width: '100%', height: '100%', borderRadius: '0.5rem' }}
         interactive={interactive}
-        interactiveLayerIds={[VIOLATION_LAYER_ID, 'violation-clusters', 'violation-cluster-count']}
+        doubleClickZoom={!drawing}
+        interactiveLayerIds={[
+          VIOLATION_LAYER_ID,
+          'violation-clusters',
+          'violation-cluster-count',
+          HOTSPOT_LAYER_ID,
+          ...(markerImagesReady ? [...markerLayerIds, MARKER_CLUSTER_LAYER_ID, BOOKMARK_LAYER_ID] : []),
+          ...(blockFaces.length > 0 ? [BLOCK_FACE_LAYER_ID] : []),
+          ...(canMoveCircle ? [RADIUS_LAYER_ID] : []),
+        ]}
         cursor={mapCursor}
       >
         {/* Controls */}
@@ -224,103 +729,310 @@ export function NYCMap({
           </>
         )}
 
-        {/* Search radius circle (meters → pixels based on zoom/latitude) */}
-        {typeof searchRadius === 'number' && searchRadius > 0 && (
-          (() => {
-            const metersPerPixel = 156543.03392 * Math.cos(viewport.latitude * Math.PI / 180) / Math.pow(2, viewport.zoom)
-            const pixelRadius = Math.max(8, Math.round(searchRadius / metersPerPixel))
-            const diameter = pixelRadius * 2
-            return (
-              <div
-                style={{
-                  position: 'absolute',
-                  left: '50%',
-                  top: '50%',
-                  width: `${diameter}px`,
-                  height: `${diameter}px`,
-                  marginLeft: `-${pixelRadius}px`,
-                  marginTop: `-${pixelRadius}px`,
-                  border: '2px solid #3b82f6',
-                  borderRadius: '50%',
-                  backgroundColor: 'rgba(59, 130, 246, 0.08)',
-                  pointerEvents: 'none',
-                }}
-              />
-            )
-          })()
+        {/* Borough boundaries, under everything else */}
+        {layers.boroughs.visible && boroughFeatures.features.length > 0 && (
+          <Source id="borough-boundaries-source" type="geojson" data={boroughFeatures}>
+            <Layer
+              id="borough-boundaries-fill"
+              type="fill"
+              paint={{ 'fill-color': '#64748b', 'fill-opacity': 0.04 * layers.boroughs.opacity }}
+            />
+            <Layer
+              id="borough-boundaries-line"
+              type="line"
+              paint={{ 'line-color': '#475569', 'line-width': 1.5, 'line-opacity': 0.8 * layers.boroughs.opacity }}
+            />
+          </Source>
+        )}
+
+        {/* Search radius as a geodesic circle around the search centre */}
+        {hasRadius && (
+          <Source id="search-radius-source" type="geojson" data={radiusCircle}>
+            <Layer
+              id={RADIUS_LAYER_ID}
+              type="fill"
+              paint={{ 'fill-color': '#3b82f6', 'fill-opacity': 0.08 * layers.search_radius.opacity }}
+            />
+            <Layer
+              id="search-radius-outline"
+              type="line"
+              paint={{ 'line-color': '#3b82f6', 'line-width': 2, 'line-opacity': layers.search_radius.opacity }}
+            />
+          </Source>
         )}
 
-        {/* User location marker */}
-        {userLocation && (
+        {/* Search area polygon */}
+        {areaFeature && !drawing && (
+          <Source id="search-area-source" type="geojson" data={areaFeature}>
+            <Layer
+              id="search-area-fill"
+              type="fill"
+              paint={{ 'fill-color': '#0ea5e9', 'fill-opacity': 0.1 }}
+            />
+            <Layer
+              id="search-area-outline"
+              type="line"
+              paint={{ 'line-color': '#0284c7', 'line-width': 2.5 }}
+            />
+          </Source>
+        )}
+
+        {/* Polygon being drawn */}
+        {drawFeatures && (
+          <Source id="area-draw-source" type="geojson" data={drawFeatures}>
+            <Layer
+              id="area-draw-line"
+              type="line"
+              filter={['==', ['geometry-type'], 'LineString']}
+              paint={{ 'line-color': '#0284c7', 'line-width': 2, 'line-dasharray': [2, 1] }}
+            />
+            <Layer
+              id="area-draw-vertices"
+              type="circle"
+              filter={['==', ['geometry-type'], 'Point']}
+              paint={{
+                'circle-radius': ['case', ['get', 'first'], 6, 4],
+                'circle-color': '#ffffff',
+                'circle-stroke-color': '#0284c7',
+                'circle-stroke-width': 2,
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Parking signs as curb lines per block face, with the signs' arrows */}
+        {blockFaces.length > 0 && layers.signs.visible && (
+          <Source id="block-faces-source" type="geojson" data={blockFaceFeatures}>
+            <Layer
+              id={BLOCK_FACE_LAYER_ID}
+              type="line"
+              filter={['==', ['get', 'kind'], 'face']}
+              layout={{ 'line-cap': 'round' }}
+              paint={{
+                'line-color': ['get', 'color'],
+                'line-width': ['interpolate', ['linear'], ['zoom'], 13, 2, 16, 5, 19, 10],
+                'line-opacity': 0.9 * layers.signs.opacity,
+              }}
+            />
+            <Layer
+              id="block-face-arrows"
+              type="line"
+              minzoom={15}
+              filter={['==', ['get', 'kind'], 'arrow']}
+              layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+              paint={{
+                'line-color': ['get', 'color'],
+                'line-width': ['interpolate', ['linear'], ['zoom'], 15, 1.5, 19, 3],
+                'line-opacity': layers.signs.opacity,
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Resize handle on the circle's east edge */}
+        {resizeHandle && onSearchRadiusChange && interactive && (
           <Marker
-            latitude={userLocation.latitude}
-            longitude={userLocation.longitude}
+            latitude={resizeHandle[0]}
+            longitude={resizeHandle[1]}
             anchor="center"
+            draggable
+            onDrag={(e) => setDraftRadius(handleResize(e.lngLat))}
+            onDragEnd={(e) => {
+              setDraftRadius(null)
+              onSearchRadiusChange(handleResize(e.lngLat))
+            }}
           >
-            <div className="relative">
-              <div className="w-4 h-4 bg-blue-600 rounded-full border-2 border-white shadow-lg" />
-              <div className="absolute inset-0 w-4 h-4 bg-blue-600 rounded-full animate-ping opacity-75" />
+            <div className="relative cursor-ew-resize" title="Drag to resize the search radius">
+              <div className="w-4 h-4 rounded-full border-2 border-white bg-blue-600 shadow-lg" />
+              {draftRadius !== null && (
+                <div className="absolute left-5 top-1/2 -translate-y-1/2 whitespace-nowrap rounded bg-blue-600 px-2 py-0.5 text-xs font-semibold text-white shadow">
+                  {apiUtils.formatDistance(draftRadius)}
+                </div>
+              )}
             </div>
           </Marker>
         )}
 
-        {/* Markers (HTML) - exclude violation markers; they will be rendered via Mapbox layers */}
-        {(markers || [])
-          .filter(m => m.type !== 'violation')
-          .filter(m => Number.isFinite(m.latitude) && Number.isFinite(m.longitude))
-          .map((marker) => (
-          <Marker
-            key={`${marker.type}-${marker.id}`}
-            latitude={marker.latitude}
-            longitude={marker.longitude}
-            anchor={(marker.type === 'violation' || marker.type === 'search_center') ? 'center' : 'bottom'}
-          >
-            <Button
-              aria-label={`Map marker - ${marker.type}`}
-              variant="default"
-              size="icon"
-              className="h-10 w-10 rounded-full shadow-xl border border-white/60 ring-2 ring-white/70 hover:scale-110 transition-transform"
-              style={{ backgroundColor: getMarkerColor(marker.type) }}
-              onClick={() => handleMarkerClick(marker)}
+        {/* Ticket risk under the cursor: the area it is computed over, coloured by level */}
+        {hoverRiskCircle && hoverRiskLabel && (
+          <>
+            <Source id="hover-risk-source" type="geojson" data={hoverRiskCircle}>
+              <Layer
+                id="hover-risk-fill"
+                type="fill"
+                paint={{ 'fill-color': ['get', 'color'], 'fill-opacity': 0.2 }}
+              />
+              <Layer
+                id="hover-risk-outline"
+                type="line"
+                paint={{ 'line-color': ['get', 'color'], 'line-width': 2 }}
+              />
+            </Source>
+            <Marker
+              latitude={hoverRiskLabel.position[0]}
+              longitude={hoverRiskLabel.position[1]}
+              anchor="top"
+              offset={[0, 4]}
+              style={{ pointerEvents: 'none' }}
             >
-              <span className="text-white text-base leading-none">
-                {getMarkerIcon(marker.type)}
-              </span>
-            </Button>
-          </Marker>
-        ))}
+              <div
+                className="whitespace-nowrap rounded px-2 py-0.5 text-xs font-semibold text-white shadow"
+                style={{ backgroundColor: hoverRiskLabel.color }}
+              >
+                {hoverRiskLabel.text}
+              </div>
+            </Marker>
+          </>
+        )}
+
+        {/* Marker symbols: sprite icons per marker type, hidden where they collide */}
+        {markerImagesReady && (
+          <>
+            {layers.meters.visible && (
+              <Source
+                id="markers-source"
+                type="geojson"
+                data={markerLayers.clustered}
+                cluster={true}
+                clusterMaxZoom={15}
+                clusterRadius={50}
+              >
+                <Layer
+                  id={MARKER_CLUSTER_LAYER_ID}
+                  type="circle"
+                  filter={['has', 'point_count']}
+                  paint={{
+                    'circle-radius': ['step', ['get', 'point_count'], 14, 10, 18, 100, 23, 1000, 28],
+                    'circle-color': '#334155',
+                    'circle-stroke-color': '#ffffff',
+                    'circle-stroke-width': 2,
+                    'circle-opacity': 0.85 * layers.meters.opacity,
+                    'circle-stroke-opacity': layers.meters.opacity,
+                  }}
+                />
+                {mapProvider.textFont && (
+                  <Layer
+                    id="marker-cluster-count"
+                    type="symbol"
+                    filter={['has', 'point_count']}
+                    layout={{
+                      'text-field': '{point_count_abbreviated}',
+                      'text-font': mapProvider.textFont,
+                      'text-size': 12,
+                      'text-allow-overlap': true,
+                    }}
+                    paint={{ 'text-color': '#ffffff', 'text-opacity': layers.meters.opacity }}
+                  />
+                )}
+                <Layer
+                  id={MARKER_LAYER_ID}
+                  type="symbol"
+                  filter={['!', ['has', 'point_count']]}
+                  layout={{
+                    'icon-image': ['get', 'icon'],
+                    'icon-size': ['interpolate', ['linear'], ['zoom'], 12, 0.7, 17, 1],
+                    'icon-padding': 1,
+                    'symbol-sort-key': ['get', 'sort'],
+                  }}
+                  paint={{ 'icon-opacity': layers.meters.opacity }}
+                />
+              </Source>
+            )}
+            {layers.signs.visible && (
+              <Source id="sign-points-source" type="geojson" data={markerLayers.signs}>
+                <Layer
+                  id={SIGN_POINT_LAYER_ID}
+                  type="symbol"
+                  minzoom={SIGN_POINT_MIN_ZOOM}
+                  layout={{
+                    'icon-image': ['get', 'icon'],
+                    'icon-size': 0.75,
+                    'icon-padding': 1,
+                  }}
+                  paint={{ 'icon-opacity': layers.signs.opacity }}
+                />
+              </Source>
+            )}
+            {layers.bookmarks.visible && bookmarks.length > 0 && (
+              <Source id="bookmarks-source" type="geojson" data={bookmarkFeatures}>
+                <Layer
+                  id="bookmark-areas"
+                  type="line"
+                  filter={['==', ['geometry-type'], 'Polygon']}
+                  paint={{
+                    'line-color': BOOKMARK_COLOR,
+                    'line-width': 2,
+                    'line-dasharray': [3, 2],
+                    'line-opacity': layers.bookmarks.opacity,
+                  }}
+                />
+                <Layer
+                  id={BOOKMARK_LAYER_ID}
+                  type="symbol"
+                  filter={['==', ['geometry-type'], 'Point']}
+                  layout={{
+                    'icon-image': BOOKMARK_IMAGE_ID,
+                    'icon-allow-overlap': true,
+                    // Names only where the style has glyphs to draw them with
+                    ...(mapProvider.textFont && {
+                      'text-field': ['step', ['zoom'], '', 14, ['get', 'name']],
+                      'text-font': mapProvider.textFont,
+                      'text-size': 11,
+                      'text-offset': [0, 1.4],
+                      'text-anchor': 'top',
+                      'text-optional': true,
+                    }),
+                  }}
+                  paint={{
+                    'icon-opacity': layers.bookmarks.opacity,
+                    'text-opacity': layers.bookmarks.opacity,
+                    'text-color': '#92400e',
+                    'text-halo-color': '#ffffff',
+                    'text-halo-width': 1.5,
+                  }}
+                />
+              </Source>
+            )}
+            <Source id="pinned-markers-source" type="geojson" data={markerLayers.pinned}>
+              <Layer
+                id={PINNED_MARKER_LAYER_ID}
+                type="symbol"
+                layout={{
+                  'icon-image': ['get', 'icon'],
+                  'icon-allow-overlap': true,
+                  'icon-ignore-placement': true,
+                }}
+              />
+            </Source>
+            {userLocationFeature && (
+              <Source id="user-location-source" type="geojson" data={userLocationFeature}>
+                <Layer
+                  id="user-location"
+                  type="symbol"
+                  layout={{
+                    'icon-image': USER_LOCATION_IMAGE_ID,
+                    'icon-allow-overlap': true,
+                    'icon-ignore-placement': true,
+                  }}
+                />
+              </Source>
+            )}
+          </>
+        )}
 
         {/* Violation markers rendered as a vector layer with clustering for performance */}
         {(() => {
-          const violationMarkers = (markers || [])
-            .filter(m => m.type === 'violation')
-            .filter(m => Number.isFinite(m.latitude) && Number.isFinite(m.longitude))
-          if (violationMarkers.length === 0) return null
-
-          // Create geojson with clustering data
-          const geojson = {
-            type: 'FeatureCollection',
-            features: violationMarkers.map((m, index) => ({
-              type: 'Feature',
-              geometry: { type: 'Point', coordinates: [m.longitude, m.latitude] },
-              properties: { 
-                id: `${m.id}`,
-                title: m.popup?.title || '',
-                content: m.popup?.content || '',
-                borough: `${m.id}`.replace('violation-', ''),
-                index,
-                // Add violation-specific data for clustering
-                violation_type: m.data?.violation_type || '',
-                fine_amount: m.data?.fine_amount || 0,
-              },
-            })),
-          } as const
+          const showClusters = layers.violation_clusters.visible
+          const showHeatmap = layers.violation_heatmap.visible
+          if (violationMarkers.length === 0 || (!showClusters && !showHeatmap)) return null
 
           // Base circle layer for individual violations
-          const circleLayer = {
+          const circleLayer = (opacity: number): LayerProps => ({
             id: VIOLATION_LAYER_ID,
-            type: 'circle' as const,
+            type: 'circle',
             filter: ['!', ['has', 'point_count']], // Only show unclustered points
+            // Under the heatmap alone, points only appear once zoomed in to street level
+            minzoom: showClusters ? 0 : 15,
             paint: {
               'circle-radius': [
                 'interpolate',
@@ -338,14 +1050,56 @@ export function NYCMap({
               ],
               'circle-stroke-color': '#ffffff',
               'circle-stroke-width': 1.5,
-              'circle-opacity': 0.8,
+              'circle-opacity': 0.8 * opacity,
+              'circle-stroke-opacity': opacity,
             },
+          })
+
+          let heatmap: React.ReactNode = null
+          if (showHeatmap) {
+            const opacity = layers.violation_heatmap.opacity
+            const heatmapLayer: LayerProps = {
+              id: 'violation-heatmap',
+              type: 'heatmap',
+              maxzoom: 17,
+              paint: {
+                'heatmap-weight': violationWeight === 'fine_amount'
+                  ? ['interpolate', ['linear'], ['get', 'fine_amount'], 0, 0, maxViolationFine, 1]
+                  : 1,
+                'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 10, 1, 16, 3],
+                'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 10, 8, 16, 24],
+                'heatmap-color': [
+                  'interpolate',
+                  ['linear'],
+                  ['heatmap-density'],
+                  0, 'rgba(168, 85, 247, 0)',
+                  0.2, '#c4b5fd',
+                  0.4, '#a855f7',
+                  0.6, '#f97316',
+                  0.8, '#ef4444',
+                  1, '#b91c1c'
+                ],
+                // Fade out as individual points take over
+                'heatmap-opacity': ['interpolate', ['linear'], ['zoom'], 15, 0.9 * opacity, 17, 0.3 * opacity],
+              },
+            }
+
+            // Separate source: clustering cannot be toggled on an existing source.
+            // With the clusters also shown, their source draws the points.
+            heatmap = (
+              <Source key="violations-heat" id="violations-heat-source" type="geojson" data={violationFeatures}>
+                <Layer {...heatmapLayer} />
+                {!showClusters && <Layer {...circleLayer(opacity)} />}
+              </Source>
+            )
           }
+          if (!showClusters) return heatmap
+          const clusterOpacity = layers.violation_clusters.opacity
 
           // Cluster layer for grouped violations
-          const clusterLayer = {
+          const clusterLayer: LayerProps = {
             id: 'violation-clusters',
-            type: 'circle' as const,
+            type: 'circle',
             filter: ['has', 'point_count'],
             paint: {
               'circle-radius': [
@@ -366,41 +1120,184 @@ export function NYCMap({
               ],
               'circle-stroke-color': '#ffffff',
               'circle-stroke-width': 2,
-              'circle-opacity': 0.8,
+              'circle-opacity': 0.8 * clusterOpacity,
+              'circle-stroke-opacity': clusterOpacity,
             },
           }
 
           // Cluster count labels
-          const clusterCountLayer = {
+          const clusterCountLayer: LayerProps = {
             id: 'violation-cluster-count',
-            type: 'symbol' as const,
+            type: 'symbol',
             filter: ['has', 'point_count'],
             layout: {
               'text-field': '{point_count_abbreviated}',
-              'text-font': ['DIN Offc Pro Medium', 'Arial Unicode MS Bold'],
+              'text-font': mapProvider.textFont,
               'text-size': 12,
             },
             paint: {
               'text-color': '#ffffff',
+              'text-opacity': clusterOpacity,
             },
           }
 
           return (
-            <Source 
-              id="violations-source" 
-              type="geojson" 
-              data={geojson}
-              cluster={true}
-              clusterMaxZoom={14}
-              clusterRadius={50}
-            >
-              <Layer {...clusterLayer} />
-              <Layer {...clusterCountLayer} />
-              <Layer {...circleLayer} />
-            </Source>
+            <>
+              {heatmap}
+              <Source 
+                key="violations-clustered"
+                id="violations-source" 
+                type="geojson" 
+                data={violationFeatures}
+                cluster={true}
+                clusterMaxZoom={14}
+                clusterRadius={50}
+              >
+                <Layer {...clusterLayer} />
+                {mapProvider.textFont && <Layer {...clusterCountLayer} />}
+                <Layer {...circleLayer(clusterOpacity)} />
+              </Source>
+            </>
+          )
+        })()}
+
+        {/* Hotspots: shaded significant cells with the outline of each cluster */}
+        {hotspotAnalysis && hotspotAnalysis.hotspots.length > 0 && (() => {
+          const cells = {
+            type: 'FeatureCollection',
+            features: hotspotAnalysis.hotspots.flatMap(hotspot => hotspot.cells.map(cell => ({
+              type: 'Feature',
+              geometry: {
+                type: 'Polygon',
+                coordinates: [[
+                  [cell.bounds.west, cell.bounds.south],
+                  [cell.bounds.east, cell.bounds.south],
+                  [cell.bounds.east, cell.bounds.north],
+                  [cell.bounds.west, cell.bounds.north],
+                  [cell.bounds.west, cell.bounds.south],
+                ]],
+              },
+              properties: { hotspot_id: hotspot.id, z_score: cell.z_score },
+            }))),
+          } as const
+          const outlines = {
+            type: 'FeatureCollection',
+            features: hotspotAnalysis.hotspots.map(hotspot => ({
+              type: 'Feature',
+              geometry: { type: 'MultiLineString', coordinates: hotspotOutline(hotspot) },
+              properties: { hotspot_id: hotspot.id },
+            })),
+          } as const
+
+          const fillLayer: LayerProps = {
+            id: HOTSPOT_LAYER_ID,
+            type: 'fill',
+            paint: {
+              'fill-color': ['interpolate', ['linear'], ['get', 'z_score'], 1.96, '#fdba74', 2.58, '#f97316', 4, '#dc2626'],
+              'fill-opacity': 0.35,
+            },
+          }
+          const outlineLayer: LayerProps = {
+            id: 'violation-hotspot-outlines',
+            type: 'line',
+            paint: {
+              'line-color': '#b91c1c',
+              'line-width': 2.5,
+            },
+          }
+
+          return (
+            <>
+              <Source id="violation-hotspots-source" type="geojson" data={cells}>
+                <Layer {...fillLayer} />
+              </Source>
+              <Source id="violation-hotspot-outlines-source" type="geojson" data={outlines}>
+                <Layer {...outlineLayer} />
+              </Source>
+            </>
           )
         })()}
 
+        {/* Popup explaining a hotspot */}
+        {hotspotPopup && (
+          <Popup
+            longitude={hotspotPopup.center.longitude}
+            latitude={hotspotPopup.center.latitude}
+            onClose={() => setHotspotPopup(null)}
+            closeButton={true}
+            closeOnClick={false}
+            anchor="top"
+            offset={10}
+            maxWidth="280px"
+          >
+            <div className="p-2">
+              <h4 className="font-semibold text-sm mb-1">Violation hotspot</h4>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {explainHotspot(hotspotPopup, violationWeight).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          </Popup>
+        )}
+
+        {/* Popup for a block face */}
+        {blockFacePopup && (
+          <Popup
+            longitude={blockFacePopup.longitude}
+            latitude={blockFacePopup.latitude}
+            onClose={() => setBlockFacePopup(null)}
+            closeButton={true}
+            closeOnClick={false}
+            anchor="top"
+            offset={10}
+            maxWidth="300px"
+          >
+            <div className="p-2 space-y-1">
+              <h4 className="font-semibold text-sm">
+                {blockFacePopup.face.street_name}
+                {blockFacePopup.face.side_of_street && ` (${blockFacePopup.face.side_of_street} side)`}
+              </h4>
+              {blockFacePopup.face.from_street && blockFacePopup.face.to_street && (
+                <p className="text-xs text-muted-foreground">
+                  {blockFacePopup.face.from_street} to {blockFacePopup.face.to_street}
+                </p>
+              )}
+              {(() => {
+                const status = blockFaceStatuses[blockFacePopup.face.id]
+                return status && (
+                  <p className="text-xs font-medium" style={{ color: BLOCK_FACE_CLASSES[status.class].color }}>
+                    {BLOCK_FACE_CLASSES[status.class].label}: {status.verdict.summary}
+                  </p>
+                )
+              })()}
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {blockFacePopup.face.signs.map((sign) => (
+                  <li key={sign.id}>{sign.description}</li>
+                ))}
+              </ul>
+            </div>
+          </Popup>
+        )}
+
+        {/* Popup for a saved location */}
+        {bookmarkPopup && (
+          <Popup
+            longitude={bookmarkPopup.longitude}
+            latitude={bookmarkPopup.latitude}
+            onClose={() => setBookmarkPopup(null)}
+            closeButton={true}
+            closeOnClick={false}
+            anchor="bottom"
+            offset={16}
+          >
+            <div className="p-2">
+              <h4 className="font-semibold text-sm mb-1">{bookmarkPopup.name}</h4>
+              <p className="text-xs text-muted-foreground">{bookmarkPopup.address}</p>
+            </div>
+          </Popup>
+        )}
+
         {/* Popup for violation feature */}
         {violationPopup && (
           <Popup
@@ -414,11 +1311,7 @@ export function NYCMap({
           >
             <div className="p-2">
               <h4 className="font-semibold text-sm mb-1">{violationPopup.title}</h4>
-              {violationLoading ? (
-                <p className="text-xs text-muted-foreground">Loading...</p>
-              ) : violationError ? (
-                <p className="text-xs text-destructive">{violationError}</p>
-              ) : violationPopup.content ? (
+              {violationPopup.content ? (
                 <pre className="text-xs text-muted-foreground whitespace-pre-wrap">{violationPopup.content}</pre>
               ) : (
                 <p className="text-xs text-muted-foreground">No details available</p>
@@ -436,7 +1329,7 @@ export function NYCMap({
             closeButton={true}
             closeOnClick={false}
             anchor="bottom"
-            offset={25}
+            offset={16}
           >
             <div className="p-2">
               <h4 className="font-semibold text-sm mb-1">
@@ -450,6 +1343,70 @@ export function NYCMap({
         )}
       </Map>
 
+      {/* Layer panel and violation layer switches */}
+      <div className="absolute top-2 left-2 z-10 flex flex-col gap-2">
+        {showControls && interactive && (
+          <LayerPanel layers={mapLayers} available={layerAvailability} violationTypes={violationTypes} />
+        )}
+        {allViolationMarkers.length > 0 && (
+          <ViolationLayerControls
+            heatmap={layers.violation_heatmap.visible}
+            weight={violationWeight}
+            onWeightChange={setViolationWeight}
+            showHotspots={showHotspots}
+            onShowHotspotsChange={setShowHotspots}
+            hotspotCount={hotspotAnalysis?.hotspots.length}
+            hotspotNote={hotspotAnalysis?.insufficient ?? (hotspotAnalysis?.hotspots.length === 0 ? 'No significant clusters at 95% confidence' : undefined)}
+          />
+        )}
+      </div>
+
+      {/* Search the visible area */}
+      {viewportSearch && interactive && (
+        <ViewportSearchControls
+          search={viewportSearch}
+          isLoading={viewportSearchLoading}
+          truncated={viewportSearchTruncated}
+        />
+      )}
+
+      {/* Polygon drawing tools */}
+      {onAreaDraw && interactive && (
+        <AreaDrawControls
+          drawing={drawing}
+          vertexCount={drawVertices?.length ?? 0}
+          hasArea={!!area}
+          onStart={() => setDrawVertices([])}
+          onFinish={() => drawVertices && finishDrawing(drawVertices)}
+          onUndo={() => setDrawVertices(drawVertices ? drawVertices.slice(0, -1) : null)}
+          onCancel={stopDrawing}
+          onClear={() => onAreaDraw(null)}
+        />
+      )}
+
+      {/* Legends for the marker symbols and block faces */}
+      <div className="absolute bottom-10 right-2 z-10 flex flex-col items-end gap-1">
+        <MarkerLegend types={legendTypes} />
+        {blockFaces.length > 0 && (
+          <div className="space-y-1 rounded-lg border bg-background/95 p-2 text-xs shadow-md">
+            {Object.values(BLOCK_FACE_CLASSES).map(({ label, color }) => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="h-1 w-5 rounded-full" style={{ backgroundColor: color }} />
+                {label}
+              </div>
+            ))}
+            <div className="text-[10px] text-muted-foreground">
+              {regulationTime ? "At the chosen time" : "Now"}, for the next hour
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Week time slider for the block face colours */}
+      {blockFaces.length > 0 && onRegulationTimeChange && interactive && (
+        <RegulationTimeSlider time={regulationTime} onChange={onRegulationTimeChange} />
+      )}
+
       {/* Loading overlay */}
       {mapLoading && (
         <div className="absolute inset-0 bg-background/80 flex items-center justify-center rounded-lg">
@@ -462,7 +1419,7 @@ export function NYCMap({
 
       {/* Map attribution */}
       <div className="absolute bottom-2 right-2 text-xs text-muted-foreground bg-background/80 px-2 py-1 rounded">
-        © Mapbox © OpenStreetMap
+        {mapProvider.attribution}
       </div>
     </div>
   )
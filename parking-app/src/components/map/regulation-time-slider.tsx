@@ -0,0 +1,106 @@
+"use client"
+
+import * as React from "react"
+import { Clock, Pause, Play } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { DAY_LABELS } from "@/lib/analytics/timeMatrix"
+import { formatMinutes } from "@/lib/regulations/signParser"
+
+interface RegulationTimeSliderProps {
+  // Undefined means now
+  time?: Date
+  onChange: (time: Date | null) => void
+}
+
+const WEEK_MINUTES = 7 * 24 * 60
+const STEP_MINUTES = 15
+// Play mode runs through one day, a quarter hour per frame
+const PLAY_MINUTES = 24 * 60
+const PLAY_FRAME_MS = 125
+
+// Sunday 00:00 of the week containing `date`
+const weekStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay())
+
+const minutesInto = (date: Date, start: Date) => Math.round((date.getTime() - start.getTime()) / 60000)
+
+// Map overlay that scrubs the regulation time across a week
+export function RegulationTimeSlider({ time, onChange }: RegulationTimeSliderProps) {
+  const [playing, setPlaying] = React.useState(false)
+  const current = time ?? new Date()
+  const start = weekStart(current)
+  const value = minutesInto(current, start)
+
+  // The interval reads the latest time and callback through refs so each frame
+  // advances from the last one without restarting the timer
+  const latest = React.useRef({ time: current, onChange })
+  latest.current = { time: current, onChange }
+  const playEnd = React.useRef(0)
+  React.useEffect(() => {
+    if (!playing) return
+    const timer = setInterval(() => {
+      const next = new Date(latest.current.time.getTime() + STEP_MINUTES * 60000)
+      if (next.getTime() >= playEnd.current) setPlaying(false)
+      latest.current.onChange(next)
+    }, PLAY_FRAME_MS)
+    return () => clearInterval(timer)
+  }, [playing])
+
+  const togglePlay = () => {
+    if (!playing) playEnd.current = current.getTime() + PLAY_MINUTES * 60000
+    setPlaying(!playing)
+  }
+
+  const handleSlide = (minutes: number) => {
+    setPlaying(false)
+    onChange(new Date(start.getTime() + minutes * 60000))
+  }
+
+  return (
+    <div className="absolute bottom-10 left-2 z-10 w-[min(26rem,calc(100%-10rem))] space-y-1 rounded-lg border bg-background/95 p-2 text-xs shadow-md">
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 w-7 p-0"
+          onClick={togglePlay}
+          aria-label={playing ? "Pause" : "Play one day"}
+          title={playing ? "Pause" : "Play one day"}
+        >
+          {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+        </Button>
+        <span className="flex-1 font-medium">
+          {DAY_LABELS[current.getDay()]} {current.toLocaleDateString("en-US", { month: "short", day: "numeric" })},{" "}
+          {formatMinutes(current.getHours() * 60 + current.getMinutes())}
+        </span>
+        <Button
+          size="sm"
+          variant={time ? "outline" : "default"}
+          className="h-7 px-2 text-xs"
+          onClick={() => {
+            setPlaying(false)
+            onChange(null)
+          }}
+        >
+          <Clock className="h-3 w-3 mr-1" />
+          Now
+        </Button>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={WEEK_MINUTES - STEP_MINUTES}
+        step={STEP_MINUTES}
+        value={value - (value % STEP_MINUTES)}
+        onChange={(e) => handleSlide(Number(e.target.value))}
+        className="w-full accent-primary"
+        aria-label="Regulation time"
+      />
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        {DAY_LABELS.map((day) => (
+          <span key={day}>{day}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
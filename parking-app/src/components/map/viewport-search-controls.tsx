@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, RefreshCw, Search, X, ZoomIn } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { ViewportSearch } from "@/hooks/use-viewport-search"
+
+interface ViewportSearchControlsProps {
+  search: ViewportSearch
+  isLoading?: boolean
+  // More results fell inside the view than were loaded
+  truncated?: boolean
+}
+
+// Map overlay for searching the visible area instead of around a point
+export function ViewportSearchControls({ search, isLoading, truncated }: ViewportSearchControlsProps) {
+  const { area, live, moved, canSearch, viewport } = search
+  if (!viewport) return null
+
+  return (
+    <div className="absolute top-2 left-1/2 z-10 flex -translate-x-1/2 flex-col items-center gap-1">
+      <div className="flex gap-1 rounded-lg border bg-background/95 p-1 shadow-md">
+        {!canSearch ? (
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" disabled>
+            <ZoomIn className="h-3 w-3 mr-1" />
+            Zoom in to search this area
+          </Button>
+        ) : !live && moved ? (
+          <Button size="sm" className="h-7 px-2 text-xs" onClick={search.searchThisArea}>
+            <Search className="h-3 w-3 mr-1" />
+            Search this area
+          </Button>
+        ) : null}
+        <Button
+          size="sm"
+          variant={live ? "default" : "outline"}
+          className="h-7 px-2 text-xs"
+          onClick={() => search.setLive(!live)}
+          disabled={!canSearch && !live}
+          title="Search again whenever the map stops moving"
+        >
+          {live && isLoading ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3 mr-1" />
+          )}
+          Search as I move
+        </Button>
+        {area && (
+          <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={search.clear} title="Search around the selected point again">
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      {area && truncated && !isLoading && (
+        <div className="rounded-md bg-background/95 px-2 py-1 text-[11px] text-muted-foreground shadow">
+          Not everything in view is shown — zoom in to load the rest
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import * as React from "react"
+import { Target } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { HotspotWeight } from "@/lib/analytics/hotspots"
+
+interface ViolationLayerControlsProps {
+  // The heatmap layer is shown, so its weight applies
+  heatmap: boolean
+  weight: HotspotWeight
+  onWeightChange: (weight: HotspotWeight) => void
+  showHotspots: boolean
+  onShowHotspotsChange: (show: boolean) => void
+  hotspotCount?: number
+  hotspotNote?: string
+}
+
+// Map overlay for the violation heatmap's weight and the hotspot outlines; the
+// layer panel switches between clusters and the heatmap
+export function ViolationLayerControls({
+  heatmap,
+  weight,
+  onWeightChange,
+  showHotspots,
+  onShowHotspotsChange,
+  hotspotCount,
+  hotspotNote,
+}: ViolationLayerControlsProps) {
+  return (
+    <div className="w-56 space-y-2 rounded-lg border bg-background/95 p-2 text-xs shadow-md">
+      {(heatmap || showHotspots) && (
+        <div className="flex items-center justify-between gap-1">
+          <span className="text-muted-foreground">Weight</span>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={weight === 'count' ? "secondary" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => onWeightChange('count')}
+            >
+              Count
+            </Button>
+            <Button
+              size="sm"
+              variant={weight === 'fine_amount' ? "secondary" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => onWeightChange('fine_amount')}
+            >
+              Fines
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        variant={showHotspots ? "default" : "outline"}
+        className="h-7 w-full px-2 text-xs"
+        onClick={() => onShowHotspotsChange(!showHotspots)}
+      >
+        <Target className="h-3 w-3 mr-1" />
+        {showHotspots && hotspotCount !== undefined ? `Hotspots (${hotspotCount})` : "Hotspots"}
+      </Button>
+      {showHotspots && hotspotNote && <p className="text-muted-foreground">{hotspotNote}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import * as React from "react"
+import { Footprints, TrendingDown } from "lucide-react"
+
+import { MeterRate } from "@/lib/types"
+import { apiUtils } from "@/lib/api"
+import { MeterRateComparison } from "@/lib/regulations/meterRates"
+import { cn } from "@/lib/utils"
+
+interface MeterListProps {
+  meters: MeterRate[]
+  comparisons: Map<string, MeterRateComparison>
+  selectedId?: string
+  onSelect: (meter: MeterRate) => void
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: "text-green-700 bg-green-50 border-green-200",
+  inactive: "text-red-700 bg-red-50 border-red-200",
+  maintenance: "text-yellow-700 bg-yellow-50 border-yellow-200",
+}
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+
+// Nearby meters with walking distance, status and how each rate compares
+export function MeterList({ meters, comparisons, selectedId, onSelect }: MeterListProps) {
+  return (
+    <ul className="divide-y rounded-lg border">
+      {meters.map((meter) => {
+        const comparison = comparisons.get(meter.id)
+        const status = meter.status || "unknown"
+        return (
+          <li key={meter.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(meter)}
+              className={cn(
+                "w-full text-left p-3 flex items-center justify-between gap-3 hover:bg-muted/50 transition-colors",
+                meter.id === selectedId && "bg-muted"
+              )}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="font-medium truncate">{meter.street_name}</div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Footprints className="h-3 w-3" />
+                    {apiUtils.formatDistance(meter.walking_distance ?? meter.distance)}
+                    {meter.walking_minutes !== undefined && ` · ${meter.walking_minutes} min walk`}
+                  </span>
+                  <span className={cn("px-2 py-0.5 rounded-full border capitalize", STATUS_STYLES[status] ?? "text-gray-600 bg-gray-50 border-gray-200")}>
+                    {status}
+                  </span>
+                </div>
+              </div>
+              <div className="text-right shrink-0">
+                <div className="font-semibold">
+                  {comparison?.peak_rate !== undefined ? `${formatMoney(comparison.peak_rate)}/hr` : "Rate unknown"}
+                </div>
+                {comparison?.cheapest && (
+                  <div className="flex items-center justify-end gap-1 text-xs text-green-700">
+                    <TrendingDown className="h-3 w-3" />
+                    Cheapest nearby
+                  </div>
+                )}
+                {comparison && !comparison.cheapest && comparison.difference !== undefined && (
+                  <div className="text-xs text-muted-foreground">+{formatMoney(comparison.difference)}/hr vs cheapest</div>
+                )}
+              </div>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import * as React from "react"
+import { Calculator, AlertTriangle } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MeterRatePeriod, VehicleClass } from "@/lib/types"
+import { estimateParkingCost } from "@/lib/regulations/meterRates"
+import { formatTime } from "@/lib/regulations/evaluator"
+import { SuspensionCalendar } from "@/lib/regulations/suspensions"
+import { dateUtils } from "@/lib/utils"
+
+interface ParkingCostCalculatorProps {
+  periods: MeterRatePeriod[]
+  calendar?: SuspensionCalendar
+}
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240, 360, 480]
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+
+// Prices a stay at this meter, split at every rate boundary
+export function ParkingCostCalculator({ periods, calendar }: ParkingCostCalculatorProps) {
+  const [arrival, setArrival] = React.useState(() => dateUtils.toLocalInput(new Date()))
+  const [duration, setDuration] = React.useState(120)
+  const [vehicleClass, setVehicleClass] = React.useState<VehicleClass>("passenger")
+
+  const hasCommercialRates = periods.some((p) => p.vehicle_class === "commercial")
+  const arrivalDate = React.useMemo(() => new Date(arrival), [arrival])
+
+  const estimate = React.useMemo(() => {
+    if (isNaN(arrivalDate.getTime())) return undefined
+    return estimateParkingCost(periods, vehicleClass, arrivalDate, duration, calendar)
+  }, [periods, vehicleClass, arrivalDate, duration, calendar])
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium flex items-center gap-2">
+        <Calculator className="h-4 w-4" />
+        Cost Calculator
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Arriving</label>
+          <Input type="datetime-local" value={arrival} onChange={(e) => setArrival(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Duration</label>
+          <Select value={duration.toString()} onValueChange={(value) => setDuration(parseInt(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DURATION_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={minutes.toString()}>
+                  {formatDuration(minutes)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Vehicle</label>
+          <Select value={vehicleClass} onValueChange={(value: VehicleClass) => setVehicleClass(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="passenger">Passenger</SelectItem>
+              {hasCommercialRates && <SelectItem value="commercial">Commercial</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {estimate && (
+        <div className="p-4 bg-muted rounded-lg space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm text-muted-foreground">Estimated cost</span>
+            <span className="text-2xl font-bold">{formatMoney(estimate.total)}</span>
+          </div>
+
+          {estimate.segments.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {estimate.segments.map((segment, index) => (
+                <li key={index} className="flex justify-between gap-2">
+                  <span>
+                    {formatTime(segment.start, arrivalDate)}–{formatTime(segment.end, arrivalDate)} at {formatMoney(segment.hourly_rate)}/hr
+                  </span>
+                  <span className="font-medium">{formatMoney(segment.cost)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {estimate.free_minutes > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {formatDuration(estimate.free_minutes)} outside metered hours
+              {estimate.suspensions.length > 0 && ` (meters suspended for ${estimate.suspensions.map((s) => s.holiday).join(", ")})`}
+            </p>
+          )}
+
+          {estimate.limit_exceeded && (
+            <p className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-300">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Exceeds the {formatDuration(estimate.limit_exceeded.max_minutes)} limit — move by {formatTime(estimate.limit_exceeded.at, arrivalDate)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
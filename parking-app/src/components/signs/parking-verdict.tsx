@@ -0,0 +1,137 @@
+"use client"
+
+import * as React from "react"
+import { CheckCircle2, AlertTriangle, XCircle, Loader2, Car } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ParkingVerdict, ParkingVerdictStatus } from "@/lib/types"
+import { formatTime } from "@/lib/regulations/evaluator"
+
+interface ParkingVerdictPanelProps {
+  verdict?: ParkingVerdict
+  isLoading?: boolean
+  start: Date
+  startInput: string // datetime-local value; empty means "now"
+  onStartInputChange: (value: string) => void
+  duration: number
+  onDurationChange: (minutes: number) => void
+}
+
+const DURATION_OPTIONS = [
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+  { value: 120, label: "2 hours" },
+  { value: 180, label: "3 hours" },
+  { value: 240, label: "4 hours" },
+  { value: 480, label: "8 hours" },
+  { value: 720, label: "Overnight (12 hours)" },
+]
+
+const statusStyles: Record<ParkingVerdictStatus, { label: string; className: string; icon: React.ElementType }> = {
+  allowed: {
+    label: "You can park here",
+    className: "border-green-500 bg-green-50 text-green-900 dark:bg-green-950/40 dark:text-green-100",
+    icon: CheckCircle2,
+  },
+  conditional: {
+    label: "You can park here, with conditions",
+    className: "border-amber-500 bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-100",
+    icon: AlertTriangle,
+  },
+  restricted: {
+    label: "Don't park here",
+    className: "border-red-500 bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-100",
+    icon: XCircle,
+  },
+}
+
+// "Can I park here?" controls and verdict for the selected location
+export function ParkingVerdictPanel({
+  verdict,
+  isLoading,
+  start,
+  startInput,
+  onStartInputChange,
+  duration,
+  onDurationChange,
+}: ParkingVerdictPanelProps) {
+  const style = verdict ? statusStyles[verdict.status] : undefined
+  const Icon = style?.icon
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Car className="h-5 w-5" />
+          Can I Park Here?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Arriving</label>
+            <Input
+              type="datetime-local"
+              value={startInput}
+              onChange={(e) => onStartInputChange(e.target.value)}
+            />
+            {!startInput && <p className="text-xs text-muted-foreground">Leave empty to check right now</p>}
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Staying for</label>
+            <Select value={duration.toString()} onValueChange={(value) => onDurationChange(parseInt(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking nearby signs...
+          </div>
+        )}
+
+        {verdict && style && Icon && (
+          <div className={`rounded-lg border-l-4 p-4 space-y-2 ${style.className}`}>
+            <div className="flex items-center gap-2 font-semibold">
+              <Icon className="h-5 w-5" />
+              {style.label}
+            </div>
+            <p className="text-sm">{verdict.summary}</p>
+            {verdict.suspension && (
+              <p className="text-xs font-medium">
+                {verdict.suspension.meters ? "Meters and most rules" : "Alternate side parking"} suspended for {verdict.suspension.holiday}
+              </p>
+            )}
+            {verdict.sign && (
+              <p className="text-xs opacity-80">
+                Sign: {verdict.sign.description} ({verdict.sign.street_name})
+              </p>
+            )}
+            {verdict.restriction_start && verdict.status !== "allowed" && (
+              <p className="text-xs opacity-80">
+                Restriction window: {formatTime(verdict.restriction_start, start)}
+                {verdict.restriction_end && ` – ${formatTime(verdict.restriction_end, start)}`}
+              </p>
+            )}
+            <p className="text-xs opacity-70">
+              Based on {verdict.signs_evaluated} sign{verdict.signs_evaluated === 1 ? "" : "s"} on the nearest block face
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import * as React from "react"
+import { ArrowLeft, ArrowRight, ArrowLeftRight } from "lucide-react"
+
+import { ParkingRule, RestrictionClass, SignArrow } from "@/lib/types"
+import { formatDays, formatTimeLimit, formatWindows, restrictionLabel } from "@/lib/regulations/signParser"
+
+interface SignRulesProps {
+  rules: ParkingRule[]
+  arrow?: SignArrow
+  className?: string
+}
+
+const restrictionStyles: Record<RestrictionClass, string> = {
+  no_stopping: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  no_standing: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  bus_stop: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  no_parking: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200",
+  street_cleaning: "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200",
+  loading_zone: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  commercial_only: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  time_limit: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  unknown: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+}
+
+const arrowLabels: Record<SignArrow, string> = {
+  left: "Applies to the left of the sign",
+  right: "Applies to the right of the sign",
+  both: "Applies in both directions",
+}
+
+function ArrowIcon({ arrow }: { arrow: SignArrow }) {
+  const Icon = arrow === "both" ? ArrowLeftRight : arrow === "left" ? ArrowLeft : ArrowRight
+  return <Icon className="h-3 w-3" aria-label={arrowLabels[arrow]} />
+}
+
+// Structured view of the rules parsed from a sign description
+export function SignRules({ rules, arrow, className }: SignRulesProps) {
+  if (rules.length === 0) return null
+
+  return (
+    <ul className={`space-y-1 text-sm ${className ?? ""}`}>
+      {rules.map((rule, index) => (
+        <li key={index} className="flex flex-wrap items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${restrictionStyles[rule.restriction]}`}>
+            {rule.time_limit_minutes
+              ? `${formatTimeLimit(rule.time_limit_minutes)}${rule.metered ? " metered" : ""}`
+              : restrictionLabel(rule.restriction)}
+          </span>
+          <span>{formatWindows(rule)}</span>
+          <span className="text-muted-foreground">
+            {rule.school_days ? "School days" : formatDays(rule.days)}
+          </span>
+          {rule.except && (
+            <span className="text-xs text-muted-foreground">except {rule.except.toLowerCase()}</span>
+          )}
+        </li>
+      ))}
+      {arrow && (
+        <li className="flex items-center gap-1 text-xs text-muted-foreground">
+          <ArrowIcon arrow={arrow} />
+          {arrowLabels[arrow]}
+        </li>
+      )}
+    </ul>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, ShieldAlert } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { RISK_LEVELS, TicketRisk } from "@/lib/analytics/ticketRisk"
+
+interface TicketRiskPanelProps {
+  risk?: TicketRisk
+  isLoading?: boolean
+}
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? "a" : "p"}`
+
+// Ticket risk for the selected location and stay, with what drives it
+export function TicketRiskPanel({ risk, isLoading }: TicketRiskPanelProps) {
+  const level = risk ? RISK_LEVELS[risk.level] : undefined
+  const busiestHour = risk ? Math.max(1, ...risk.by_hour.map(h => h.count)) : 1
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Ticket Risk
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking nearby violations...
+          </div>
+        )}
+
+        {risk && level && (
+          <>
+            <div className="flex items-center gap-3">
+              <div
+                className="flex h-14 w-14 items-center justify-center rounded-full text-lg font-bold text-white"
+                style={{ backgroundColor: level.color }}
+              >
+                {risk.score}
+              </div>
+              <div>
+                <div className="font-semibold">{level.label} risk</div>
+                <p className="text-xs text-muted-foreground">Out of 100, for your arrival time and stay</p>
+              </div>
+            </div>
+
+            <ul className="space-y-1 text-sm">
+              {risk.factors.map((factor) => (
+                <li key={factor}>{factor}</li>
+              ))}
+            </ul>
+
+            {risk.by_type.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {risk.window_count > 0 ? "Tickets written nearby during your hours" : "Tickets written nearby"}
+                </h4>
+                {risk.by_type.map((type) => (
+                  <div key={type.violation_type} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="truncate pr-2">{type.violation_type}</span>
+                      <span className="text-muted-foreground">{Math.round(type.share * 100)}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted">
+                      <div
+                        className="h-1.5 rounded-full"
+                        style={{ width: `${type.share * 100}%`, backgroundColor: level.color }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {risk.nearby_count > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">By hour of day</h4>
+                <div className="flex h-16 items-end gap-px">
+                  {risk.by_hour.map((hour) => (
+                    <div
+                      key={hour.hour}
+                      className={`flex-1 rounded-t-sm ${hour.in_window ? "" : "bg-muted-foreground/30"}`}
+                      style={{
+                        height: `${Math.max(2, (hour.count / busiestHour) * 100)}%`,
+                        backgroundColor: hour.in_window ? level.color : undefined,
+                      }}
+                      title={`${formatHour(hour.hour)}: ${hour.count} violation${hour.count === 1 ? "" : "s"}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-muted-foreground">
+                  <span>12a</span>
+                  <span>6a</span>
+                  <span>12p</span>
+                  <span>6p</span>
+                  <span>11p</span>
+                </div>
+                <p className="text-xs text-muted-foreground">Highlighted hours overlap your stay</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import * as React from "react"
+import { CalendarOff } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+
+import { loadSuspensionCalendar } from "@/lib/regulations/suspensions"
+
+// Site-wide notice on days when alternate-side parking or meters are suspended
+export function SuspensionBanner() {
+  const { data: calendar } = useQuery({
+    queryKey: ['suspension-calendar'],
+    queryFn: loadSuspensionCalendar,
+    staleTime: Infinity,
+  })
+
+  const today = calendar?.get(new Date())
+  if (!today) return null
+
+  const suspended = today.meters
+    ? "Alternate side parking, parking meters and rules not in effect 7 days a week are"
+    : "Alternate side parking rules are"
+
+  return (
+    <div className="border-b border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-700 dark:bg-amber-950/60 dark:text-amber-100">
+      <div className="container mx-auto flex items-center gap-2 px-4 py-2 text-sm">
+        <CalendarOff className="h-4 w-4 shrink-0" />
+        <span>
+          <span className="font-medium">Rules suspended today:</span> {suspended} suspended for {today.holiday}.
+          {!today.meters && " Meters remain in effect."}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import * as React from "react"
+
+import { defaultMapLayers, encodeMapLayers, MAP_LAYERS_PARAM, parseMapLayers } from "@/lib/map/layers"
+import { MapLayerFilters, MapLayerId, MapLayerSetting, MapLayersState } from "@/lib/types"
+import { constants, performanceUtils, storage, urlUtils } from "@/lib/utils"
+
+export interface MapLayers {
+  state: MapLayersState
+  setLayer: (id: MapLayerId, setting: Partial<MapLayerSetting>) => void
+  setFilter: <K extends keyof MapLayerFilters>(key: K, values: MapLayerFilters[K]) => void
+  reset: () => void
+}
+
+// Layer panel state for NYCMap. A `layers` URL parameter wins over the
+// settings saved in local storage; changes are written back to both.
+export function useMapLayers(): MapLayers {
+  const [state, setState] = React.useState<MapLayersState>(defaultMapLayers)
+  const [loaded, setLoaded] = React.useState(false)
+
+  // Read after mount so the server render matches the first client render
+  React.useEffect(() => {
+    const fromURL = new URLSearchParams(window.location.search).get(MAP_LAYERS_PARAM)
+    const saved = parseMapLayers(fromURL) ?? parseMapLayers(storage.getMapLayers())
+    if (saved) setState(saved)
+    setLoaded(true)
+  }, [])
+
+  // Debounced so dragging an opacity slider does not flood the history API
+  const persist = React.useMemo(
+    () => performanceUtils.debounce((encoded: string) => {
+      storage.setMapLayers(encoded)
+      urlUtils.replaceSearchParam(MAP_LAYERS_PARAM, encoded || undefined)
+    }, constants.SEARCH_DEBOUNCE_MS),
+    []
+  )
+  React.useEffect(() => {
+    if (loaded) persist(encodeMapLayers(state))
+  }, [loaded, state, persist])
+
+  const setLayer = React.useCallback((id: MapLayerId, setting: Partial<MapLayerSetting>) => {
+    setState(prev => ({ ...prev, layers: { ...prev.layers, [id]: { ...prev.layers[id], ...setting } } }))
+  }, [])
+
+  const setFilter = React.useCallback(<K extends keyof MapLayerFilters>(key: K, values: MapLayerFilters[K]) => {
+    setState(prev => ({ ...prev, filters: { ...prev.filters, [key]: values } }))
+  }, [])
+
+  const reset = React.useCallback(() => setState(defaultMapLayers()), [])
+
+  return { state, setLayer, setFilter, reset }
+}
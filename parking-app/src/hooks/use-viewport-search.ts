@@ -0,0 +1,85 @@
+"use client"
+
+import * as React from "react"
+
+import { BoundingBox, MapViewport } from "@/lib/types"
+import { constants, performanceUtils } from "@/lib/utils"
+
+export interface ViewportSearch {
+  viewport: MapViewport | null
+  // Bounds of the last area searched; null while searching around a point
+  area: BoundingBox | null
+  // Search again whenever the map settles
+  live: boolean
+  // The map has moved since the last search
+  moved: boolean
+  // Zoomed in far enough to search what is in view
+  canSearch: boolean
+  onViewportChange: (viewport: MapViewport) => void
+  searchThisArea: () => void
+  setLive: (live: boolean) => void
+  clear: () => void
+}
+
+// ~1 m; smaller moves do not count as a new area
+const BOUNDS_PRECISION = 5
+
+const roundBounds = (bounds: BoundingBox): BoundingBox => ({
+  type: 'bbox',
+  north: Number(bounds.north.toFixed(BOUNDS_PRECISION)),
+  south: Number(bounds.south.toFixed(BOUNDS_PRECISION)),
+  east: Number(bounds.east.toFixed(BOUNDS_PRECISION)),
+  west: Number(bounds.west.toFixed(BOUNDS_PRECISION)),
+})
+
+const sameBounds = (a: BoundingBox, b: BoundingBox) =>
+  a.north === b.north && a.south === b.south && a.east === b.east && a.west === b.west
+
+// Lets the visible map bounds drive a page's queries: "Search this area" on
+// demand, or continuously while `live` is on. Pass the result to NYCMap's
+// `viewportSearch` prop and query with `area` when it is set.
+export function useViewportSearch(): ViewportSearch {
+  const [viewport, setViewport] = React.useState<MapViewport | null>(null)
+  const [area, setArea] = React.useState<BoundingBox | null>(null)
+  const [live, setLive] = React.useState(false)
+  // Where the map was when the current results were searched
+  const [searched, setSearched] = React.useState<BoundingBox | null>(null)
+
+  const onViewportChange = React.useMemo(
+    () => performanceUtils.debounce((next: MapViewport) => {
+      const bounds = roundBounds(next.bounds)
+      setViewport({ bounds, zoom: next.zoom })
+      // The first view of the map is what the page already searched
+      setSearched(prev => prev ?? bounds)
+    }, constants.VIEWPORT_DEBOUNCE_MS),
+    []
+  )
+
+  const canSearch = !!viewport && viewport.zoom >= constants.VIEWPORT_MIN_ZOOM
+  const moved = !!viewport && !!searched && !sameBounds(viewport.bounds, searched)
+
+  const searchThisArea = React.useCallback(() => {
+    if (!viewport || viewport.zoom < constants.VIEWPORT_MIN_ZOOM) return
+    setArea(viewport.bounds)
+    setSearched(viewport.bounds)
+  }, [viewport])
+
+  // In live mode every settled view is searched
+  React.useEffect(() => {
+    if (live && moved) searchThisArea()
+  }, [live, moved, searchThisArea])
+
+  // Turning live mode on searches the current view straight away
+  const updateLive = React.useCallback((next: boolean) => {
+    setLive(next)
+    if (next) searchThisArea()
+  }, [searchThisArea])
+
+  const clear = React.useCallback(() => {
+    setArea(null)
+    setLive(false)
+    setSearched(viewport?.bounds ?? null)
+  }, [viewport])
+
+  return { viewport, area, live, moved, canSearch, onViewportChange, searchThisArea, setLive: updateLive, clear }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ViolationTrend } from '../../types';
+import { decomposeSeasonal, forecastMonthly, MonthlyPoint, monthlySeries } from '../forecast';
+
+const trend = (year: number, month: number | undefined, count: number, violation_type = 'DOUBLE PARKING'): ViolationTrend => ({
+  borough: 'manhattan',
+  year,
+  month,
+  violation_type,
+  count,
+  total_fines: count * 115,
+  average_fine: 115,
+  trend_direction: 'stable',
+});
+
+// Consecutive months from January 2023
+const series = (values: number[]): MonthlyPoint[] =>
+  values.map((value, t) => ({ year: 2023 + Math.floor(t / 12), month: (t % 12) + 1, value }));
+
+// A seasonal pattern summing to zero: a busy January and a quiet February
+const SEASONAL = [300, -100, 0, 0, 0, 0, 0, 0, 0, -50, -50, -100];
+const seasonalValues = (length: number) => Array.from({ length }, (_, t) => 1000 + 10 * t + SEASONAL[t % 12]);
+
+// Alternating ±50 around a linear trend, so the one-step errors never vanish
+const noisyValues = (length: number) => Array.from({ length }, (_, t) => 1000 + 20 * t + (t % 2 ? 50 : -50));
+
+const margin = (interval: { lower: number; upper: number }) => (interval.upper - interval.lower) / 2;
+
+describe('monthlySeries', () => {
+  it('sums the violation types of each month in order', () => {
+    const result = monthlySeries([
+      trend(2024, 2, 40),
+      trend(2024, 1, 30),
+      trend(2024, 1, 5, 'FIRE HYDRANT'),
+      trend(2023, 12, 20),
+      trend(2024, undefined, 999),
+    ]);
+    // Yearly rows are left out, and December runs into January
+    expect(result).toEqual([
+      { year: 2023, month: 12, value: 20 },
+      { year: 2024, month: 1, value: 35 },
+      { year: 2024, month: 2, value: 40 },
+    ]);
+  });
+
+  it('keeps only the latest run of consecutive months', () => {
+    const early = [1, 2, 3, 4, 5, 6].map((month) => trend(2022, month, 10));
+    const result = monthlySeries([...early, trend(2023, 3, 7), trend(2023, 4, 8), trend(2023, 6, 9), trend(2023, 7, 11)]);
+    expect(result).toEqual([
+      { year: 2023, month: 6, value: 9 },
+      { year: 2023, month: 7, value: 11 },
+    ]);
+  });
+
+  it('returns nothing without monthly rows', () => {
+    expect(monthlySeries([trend(2024, undefined, 999)])).toEqual([]);
+  });
+});
+
+describe('decomposeSeasonal', () => {
+  it('needs two full seasons', () => {
+    expect(decomposeSeasonal(seasonalValues(23))).toBeUndefined();
+  });
+
+  it('separates a linear trend from a fixed seasonal pattern', () => {
+    const result = decomposeSeasonal(seasonalValues(24));
+    expect(result).toBeDefined();
+    if (!result) return;
+    // The centered average is defined from the seventh to the eighteenth month
+    expect(result.trend.slice(0, 6)).toEqual(Array(6).fill(undefined));
+    expect(result.trend.slice(18)).toEqual(Array(6).fill(undefined));
+    for (let t = 6; t < 18; t++) {
+      expect(result.trend[t]).toBeCloseTo(1000 + 10 * t, 9);
+      expect(result.residual[t]).toBeCloseTo(0, 9);
+    }
+    result.seasonal.forEach((index, position) => expect(index).toBeCloseTo(SEASONAL[position], 9));
+  });
+});
+
+describe('forecastMonthly', () => {
+  it('needs at least three months and a horizon', () => {
+    expect(forecastMonthly(series([100, 110]))).toBeUndefined();
+    expect(forecastMonthly(series([100, 110, 120]), 0)).toBeUndefined();
+  });
+
+  it("falls back to Holt's linear trend with less than two years", () => {
+    const result = forecastMonthly(series(seasonalValues(23)));
+    expect(result?.method).toBe('holt');
+    expect(result?.params.gamma).toBeUndefined();
+    expect(result?.decomposition).toBeUndefined();
+  });
+
+  it('extends a straight line exactly, with no spread', () => {
+    // Every parameter fits 100, 105, ..., 145 without error
+    const result = forecastMonthly(series(Array.from({ length: 10 }, (_, t) => 100 + 5 * t)));
+    expect(result?.params).toEqual({ alpha: 0.1, beta: 0.01, gamma: undefined });
+    expect(result?.points).toEqual([
+      { year: 2023, month: 11, value: 150, lower: 150, upper: 150 },
+      { year: 2023, month: 12, value: 155, lower: 155, upper: 155 },
+      { year: 2024, month: 1, value: 160, lower: 160, upper: 160 },
+    ]);
+    expect(result?.total).toEqual({ value: 465, lower: 465, upper: 465 });
+  });
+
+  it('uses Holt-Winters from two years and follows the season', () => {
+    const result = forecastMonthly(series(seasonalValues(24)), 2);
+    expect(result?.method).toBe('holt-winters');
+    expect(result?.params.gamma).toBeDefined();
+    expect(result?.decomposition?.seasonal[0]).toBeCloseTo(300, 9);
+    // January 2025 against February 2025
+    const [january, february] = result?.points ?? [];
+    expect([january.year, january.month, february.month]).toEqual([2025, 1, 2]);
+    expect(january.value - february.value).toBeGreaterThan(300);
+  });
+
+  it('widens the interval with the square root of the horizon', () => {
+    const result = forecastMonthly(series(noisyValues(18)), 4);
+    expect(result).toBeDefined();
+    if (!result) return;
+    const [first, ...rest] = result.points.map(margin);
+    expect(first).toBeGreaterThan(0);
+    // The bounds are rounded, so allow a point either way
+    rest.forEach((m, i) => expect(Math.abs(m - first * Math.sqrt(i + 2))).toBeLessThanOrEqual(2));
+    for (const point of result.points) {
+      expect(Math.abs(point.upper - point.value - (point.value - point.lower))).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("sums the months' variances for the total, not their bounds", () => {
+    const result = forecastMonthly(series(noisyValues(18)), 3);
+    expect(result).toBeDefined();
+    if (!result) return;
+    const monthly = result.points.map(margin);
+    // z·σ·√(1 + 2 + 3) for the total against z·σ·(1 + √2 + √3) for the summed bounds
+    expect(Math.abs(margin(result.total) - monthly[0] * Math.sqrt(6))).toBeLessThanOrEqual(2);
+    expect(margin(result.total)).toBeLessThan(monthly.reduce((sum, m) => sum + m, 0));
+    const pointSum = result.points.reduce((sum, p) => sum + p.value, 0);
+    expect(Math.abs(result.total.value - pointSum)).toBeLessThanOrEqual(2);
+  });
+
+  it('narrows the interval at a lower confidence', () => {
+    const wide = forecastMonthly(series(noisyValues(18)), 1, 0.95);
+    const narrow = forecastMonthly(series(noisyValues(18)), 1, 0.8);
+    expect(wide && narrow).toBeDefined();
+    if (!wide || !narrow) return;
+    expect(narrow.points[0].value).toBe(wide.points[0].value);
+    expect(Math.abs(margin(narrow.points[0]) - (margin(wide.points[0]) * 1.2816) / 1.96)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Violation } from '../../types';
+import { findHotspots } from '../hotspots';
+
+const CELL_SIZE = 150;
+const SOUTH = 40.75;
+const WEST = -73.99;
+const CELL_LAT = CELL_SIZE / 111320;
+const CELL_LON = CELL_SIZE / (111320 * Math.cos((SOUTH * Math.PI) / 180));
+
+let nextId = 0;
+const violation = (latitude: number, longitude: number, fine_amount: number, issue_date = '2025-06-03T08:30:00'): Violation => ({
+  id: String(nextId++),
+  latitude,
+  longitude,
+  violation_type: 'NO STANDING',
+  fine_amount,
+  issue_date,
+  borough: 'manhattan',
+});
+
+// `count` violations in the middle of grid cell (x, y)
+const inCell = (x: number, y: number, count: number, fine_amount: number, issue_date?: string) =>
+  Array.from({ length: count }, () =>
+    violation(SOUTH + (y + 0.5) * CELL_LAT, WEST + (x + 0.5) * CELL_LON, fine_amount, issue_date)
+  );
+
+// A 5×5 grid weighted by fines: $100 in each cell of the 3×3 block from (1, 1)
+// to (3, 3) and nothing elsewhere. Fine-free violations on the south-west corner
+// and in cell (4, 4) stretch the grid to its full size.
+//
+// n = 25, mean = 900/25 = 36, s = √(9·100²/25 − 36²) = 48
+// Gi* = (Σ neighbour weights − 36·k) / (48·√((25k − k²)/24)) with k cells in reach,
+// so for interior cells (k = 9) the denominator is 48·√6:
+//   (2, 2), the whole block:   (900 − 324) / (48·√6) = 2√6 = 4.90
+//   (2, 1), six block cells:   (600 − 324) / (48·√6) = 2.35
+//   (1, 1), four block cells:  (400 − 324) / (48·√6) = 0.65
+const block = () => {
+  const points = [violation(SOUTH, WEST, 0), ...inCell(4, 4, 1, 0)];
+  for (let x = 1; x <= 3; x++) {
+    for (let y = 1; y <= 3; y++) points.push(...inCell(x, y, 4, 25));
+  }
+  return points;
+};
+
+describe('findHotspots', () => {
+  it('computes Gi* z-scores over each cell and its neighbours', () => {
+    const { hotspots, cells, cell_size } = findHotspots(block(), { weight: 'fine_amount' });
+    expect(cells).toBe(25);
+    expect(cell_size).toBe(CELL_SIZE);
+    expect(hotspots).toHaveLength(1);
+
+    // The centre and the middle of each side clear 1.96; the block's corners do not
+    const [hotspot] = hotspots;
+    const scores = Object.fromEntries(hotspot.cells.map((cell) => [`${cell.x}:${cell.y}`, cell.z_score]));
+    expect(scores).toEqual({ '2:2': 4.9, '2:1': 2.35, '1:2': 2.35, '3:2': 2.35, '2:3': 2.35 });
+    expect(hotspot.z_score).toBe(4.9);
+    expect(hotspot.confidence).toBe(0.99);
+    expect(hotspot.count).toBe(20);
+    expect(hotspot.total_fines).toBe(500);
+    // 4 violations per cell against 38 / 25 = 1.52 across the grid
+    expect(hotspot.density_ratio).toBe(2.6);
+    expect(hotspot.peak_hour).toBe(8);
+  });
+
+  it('keeps only the cells clearing the chosen confidence', () => {
+    const { hotspots } = findHotspots(block(), { weight: 'fine_amount', minConfidence: 0.99 });
+    expect(hotspots.map((h) => h.cells.map((cell) => [cell.x, cell.y]))).toEqual([[[2, 2]]]);
+  });
+
+  it('finds nothing when every cell weighs the same', () => {
+    // One violation on the corner anchors the grid
+    const uniform = [violation(SOUTH, WEST, 65), ...inCell(0, 0, 3, 65)];
+    for (let x = 0; x < 3; x++) {
+      for (let y = 0; y < 3; y++) if (x || y) uniform.push(...inCell(x, y, 4, 65));
+    }
+    const result = findHotspots(uniform);
+    expect(result.cells).toBe(9);
+    expect(result.hotspots).toEqual([]);
+    expect(result.insufficient).toBeUndefined();
+  });
+
+  it('needs enough violations and cells', () => {
+    expect(findHotspots(inCell(0, 0, 29, 65)).insufficient).toBe('At least 30 violations are needed');
+    expect(findHotspots([...inCell(0, 0, 20, 65), ...inCell(2, 1, 20, 65)]).insufficient).toBe(
+      'The violations cover too small an area'
+    );
+  });
+});
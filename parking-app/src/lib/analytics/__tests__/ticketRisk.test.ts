@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ParkingSign, ParkingVerdict, Violation } from '../../types';
+import { parseSignDescription } from '../../regulations/signParser';
+import { computeTicketRisk, createRiskSurface, TicketRiskInput } from '../ticketRisk';
+
+const CENTER = { latitude: 40.75, longitude: -73.99 };
+const RADIUS = 100;
+const CONTEXT_RADIUS = 500;
+
+// Latitude offsets: ~33 m (near the spot), ~333 m (elsewhere in the
+// neighbourhood) and ~1.1 km (outside it)
+const NEAR = 0.0003;
+const NEIGHBOURHOOD = 0.003;
+const OUTSIDE = 0.01;
+
+let nextId = 0;
+const violations = (count: number, offset: number, issue_date: string, violation_type = 'DOUBLE PARKING'): Violation[] =>
+  Array.from({ length: count }, () => ({
+    id: String(nextId++),
+    latitude: CENTER.latitude + offset,
+    longitude: CENTER.longitude,
+    violation_type,
+    fine_amount: 115,
+    issue_date,
+    borough: 'manhattan' as const,
+  }));
+
+// 2025-06-02 is a Monday and 2025-06-07 a Saturday
+const MONDAY_9AM = '2025-06-02T09:15:00';
+const TUESDAY_3PM = '2025-06-03T15:00:00';
+const SATURDAY_2PM = '2025-06-07T14:00:00';
+
+const WHOLE_WEEK = { start: new Date(2025, 5, 2), duration_minutes: 7 * 24 * 60 };
+const MONDAY_9_TO_10 = { start: new Date(2025, 5, 2, 9), duration_minutes: 60 };
+
+const verdict = (status: ParkingVerdict['status']): ParkingVerdict => ({ status, summary: 'Test verdict', signs_evaluated: 1 });
+
+const risk = (input: Partial<TicketRiskInput>) =>
+  computeTicketRisk({
+    location: CENTER,
+    center: CENTER,
+    window: WHOLE_WEEK,
+    violations: [],
+    radius: RADIUS,
+    contextRadius: CONTEXT_RADIUS,
+    ...input,
+  });
+
+describe('computeTicketRisk', () => {
+  it('falls back to a neutral enforcement score with too few violations', () => {
+    const result = risk({ violations: violations(19, NEAR, MONDAY_9AM) });
+    expect(result.enforcement).toBeUndefined();
+    // No sign data: 60% of the score is enforcement, taken as 0.5
+    expect(result.score).toBe(30);
+    expect(result.level).toBe('moderate');
+    expect(result.factors).toEqual(['No sign data for this spot', 'Too few violations recorded nearby to judge enforcement']);
+  });
+
+  it('scores a spot as busy as the neighbourhood at 0.5 enforcement', () => {
+    // 50 violations in the neighbourhood, so 50 × (100/500)² = 2 are expected within 100 m
+    const result = risk({
+      violations: [...violations(2, NEAR, TUESDAY_3PM), ...violations(48, NEIGHBOURHOOD, TUESDAY_3PM)],
+    });
+    expect(result.location_ratio).toBe(1);
+    expect(result.timing_ratio).toBe(1);
+    expect(result.enforcement).toBe(0.5);
+    expect(result.score).toBe(30);
+  });
+
+  it('compares nearby violations with the neighbourhood', () => {
+    const result = risk({
+      violations: [
+        ...violations(4, NEAR, TUESDAY_3PM),
+        ...violations(36, NEIGHBOURHOOD, TUESDAY_3PM),
+        ...violations(100, OUTSIDE, TUESDAY_3PM),
+      ],
+    });
+    // (4 + 2) / (40 × 0.04 + 2) = 1.667; 1 - 2^-1.667 = 0.685
+    expect(result.nearby_count).toBe(4);
+    expect(result.location_ratio).toBe(1.67);
+    expect(result.enforcement).toBe(0.685);
+    expect(result.score).toBe(41);
+  });
+
+  it("weighs the share of tickets written during the stay's hours", () => {
+    const result = risk({
+      window: MONDAY_9_TO_10,
+      violations: [
+        ...violations(1, NEAR, MONDAY_9AM, 'NO PARKING-STREET CLEANING'),
+        ...violations(3, NEAR, SATURDAY_2PM),
+        ...violations(3, NEIGHBOURHOOD, MONDAY_9AM),
+        ...violations(33, NEIGHBOURHOOD, TUESDAY_3PM),
+      ],
+    });
+    // Weekday 9am is 5/168 of the week. The neighbourhood writes 4/40 = 10% of its
+    // tickets then; the spot's share is (1 + 10 × 0.1) / (4 + 10) = 1/7, so the
+    // timing ratio is (1/7) / (5/168) = 4.8
+    expect(result.window_count).toBe(1);
+    expect(result.location_ratio).toBe(1.67);
+    expect(result.timing_ratio).toBe(4.8);
+    // 1 - 2^-(1.667 × 4.8) = 1 - 2^-8
+    expect(result.enforcement).toBe(0.996);
+  });
+
+  it('breaks nearby violations down by type and hour', () => {
+    const result = risk({
+      window: MONDAY_9_TO_10,
+      violations: [
+        ...violations(2, NEAR, MONDAY_9AM, 'NO PARKING-STREET CLEANING'),
+        ...violations(1, NEAR, MONDAY_9AM, 'FIRE HYDRANT'),
+        ...violations(3, NEAR, SATURDAY_2PM, 'DOUBLE PARKING'),
+        ...violations(2, NEAR, '2025-06-04', 'DOUBLE PARKING'),
+        ...violations(30, NEIGHBOURHOOD, TUESDAY_3PM),
+      ],
+    });
+    // Types come from the stay's hours when any were written then
+    expect(result.by_type).toEqual([
+      { violation_type: 'NO PARKING-STREET CLEANING', count: 2, share: 0.667 },
+      { violation_type: 'FIRE HYDRANT', count: 1, share: 0.333 },
+    ]);
+    expect(result.by_hour).toHaveLength(24);
+    expect(result.by_hour[9]).toEqual({ hour: 9, count: 3, in_window: true });
+    expect(result.by_hour[14]).toEqual({ hour: 14, count: 3, in_window: false });
+    // Date-only timestamps count as nearby but have no hour
+    expect(result.nearby_count).toBe(8);
+    expect(result.by_hour.reduce((sum, h) => sum + h.count, 0)).toBe(6);
+
+    // Otherwise from every nearby violation
+    const outsideHours = risk({
+      window: { start: new Date(2025, 5, 2, 20), duration_minutes: 60 },
+      violations: violations(3, NEAR, SATURDAY_2PM, 'DOUBLE PARKING'),
+    });
+    expect(outsideHours.by_type).toEqual([{ violation_type: 'DOUBLE PARKING', count: 3, share: 1 }]);
+  });
+
+  it('adds the sign verdict on top of enforcement', () => {
+    const busy = [...violations(40, NEAR, MONDAY_9AM), ...violations(10, NEIGHBOURHOOD, TUESDAY_3PM)];
+    const scores = (['allowed', 'conditional', 'restricted'] as const).map(
+      (status) => risk({ window: MONDAY_9_TO_10, violations: busy, verdict: verdict(status) }).score
+    );
+    // Saturated enforcement: 5 + 35, 25 + 45 and 70 + 30
+    expect(scores).toEqual([40, 70, 100]);
+    expect(risk({ verdict: verdict('allowed') }).level).toBe('low');
+  });
+
+  it('keeps scores between 0 and 100 with levels matching them', () => {
+    const quiet = violations(1000, NEIGHBOURHOOD, TUESDAY_3PM);
+    const busy = [...violations(200, NEAR, MONDAY_9AM), ...violations(20, NEIGHBOURHOOD, TUESDAY_3PM)];
+    for (const status of [undefined, 'allowed', 'conditional', 'restricted'] as const) {
+      for (const data of [[], quiet, busy]) {
+        for (const window of [MONDAY_9_TO_10, WHOLE_WEEK]) {
+          const { score, level } = risk({ window, violations: data, verdict: status && verdict(status) });
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(100);
+          const expected = score >= 75 ? 'very_high' : score >= 50 ? 'high' : score >= 25 ? 'moderate' : 'low';
+          expect(level).toBe(expected);
+        }
+      }
+    }
+  });
+});
+
+describe('createRiskSurface', () => {
+  const sign: ParkingSign = {
+    id: 'no-stopping',
+    latitude: CENTER.latitude,
+    longitude: CENTER.longitude,
+    distance: 0,
+    description: 'NO STOPPING ANYTIME',
+    street_name: 'BROADWAY',
+    rules: parseSignDescription('NO STOPPING ANYTIME').rules,
+  };
+  const surface = createRiskSurface({
+    center: CENTER,
+    violations: violations(30, NEIGHBOURHOOD, TUESDAY_3PM),
+    signs: [sign],
+    signRadius: 200,
+    window: MONDAY_9_TO_10,
+    contextRadius: CONTEXT_RADIUS,
+  });
+
+  it('evaluates the block face under points the signs cover', () => {
+    expect(surface(CENTER)?.regulation).toBe('restricted');
+  });
+
+  it('leaves the regulation unknown past the loaded signs', () => {
+    const point = { latitude: CENTER.latitude + NEIGHBOURHOOD, longitude: CENTER.longitude };
+    const result = surface(point);
+    expect(result).toBeDefined();
+    expect(result?.regulation).toBeUndefined();
+  });
+
+  it('returns nothing outside the neighbourhood', () => {
+    expect(surface({ latitude: CENTER.latitude + OUTSIDE, longitude: CENTER.longitude })).toBeUndefined();
+  });
+});
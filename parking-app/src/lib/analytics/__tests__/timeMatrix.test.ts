@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildTimeMatrix, countTimeSlots, violationTimeSlot } from '../timeMatrix';
+
+const violation = (issue_date: string, violation_type: string) => ({ issue_date, violation_type });
+
+describe('violationTimeSlot', () => {
+  it('reads the day and hour from the local timestamp', () => {
+    // 2025-06-01 is a Sunday
+    expect(violationTimeSlot({ issue_date: '2025-06-01T08:45:00' })).toEqual({ day: 0, hour: 8 });
+    expect(violationTimeSlot({ issue_date: '2025-06-03T23:59:00' })).toEqual({ day: 2, hour: 23 });
+  });
+
+  it('leaves out date-only timestamps', () => {
+    expect(violationTimeSlot({ issue_date: '2025-06-03' })).toBeUndefined();
+  });
+});
+
+describe('countTimeSlots and buildTimeMatrix', () => {
+  const counts = countTimeSlots([
+    violation('2025-06-03T08:10:00', 'NO STANDING'),
+    violation('2025-06-03T08:50:00', 'NO STANDING'),
+    violation('2025-06-10T08:05:00', 'FIRE HYDRANT'),
+    violation('2025-06-04T17:30:00', 'FIRE HYDRANT'),
+    violation('2025-06-04', 'FIRE HYDRANT'),
+  ]);
+
+  it('counts each type by day and hour', () => {
+    expect(Object.keys(counts).sort()).toEqual(['FIRE HYDRANT', 'NO STANDING']);
+    expect(counts['NO STANDING'][2][8]).toBe(2);
+    expect(counts['FIRE HYDRANT'][2][8]).toBe(1);
+    expect(counts['FIRE HYDRANT'][3][17]).toBe(1);
+  });
+
+  it('sums the types into one matrix', () => {
+    const matrix = buildTimeMatrix(counts);
+    expect(matrix.total).toBe(4);
+    expect(matrix.max).toBe(3);
+    expect(matrix.cells[2][8]).toBe(3);
+  });
+
+  it('builds the matrix for one type', () => {
+    const matrix = buildTimeMatrix(counts, 'FIRE HYDRANT');
+    expect(matrix.total).toBe(2);
+    expect(matrix.max).toBe(1);
+    expect(matrix.cells[2][8]).toBe(1);
+  });
+});
@@ -0,0 +1,18 @@
+// Reference figures for comparing boroughs of very different size. Population
+// is the 2020 Census count; lane miles are NYC DOT's approximate street lane
+// mileage per borough.
+
+import type { Borough } from '../types';
+
+export interface BoroughStats {
+  population: number;
+  lane_miles: number;
+}
+
+export const BOROUGH_STATS: Record<Borough, BoroughStats> = {
+  manhattan: { population: 1694251, lane_miles: 2130 },
+  brooklyn: { population: 2736074, lane_miles: 4950 },
+  queens: { population: 2405464, lane_miles: 6880 },
+  bronx: { population: 1472654, lane_miles: 2960 },
+  staten_island: { population: 495747, lane_miles: 2270 },
+};
@@ -0,0 +1,197 @@
+// Monthly violation forecasts. The series is split with a classical additive
+// decomposition (trend, seasonal, residual); the seasonal indices and the
+// deseasonalized level seed an additive Holt-Winters model whose smoothing
+// parameters are fitted by grid search. Everything runs in the browser.
+
+import type { ViolationTrend } from '../types';
+import { toPeriodKey } from './violationTrends';
+
+export interface MonthlyPoint {
+  year: number;
+  month: number; // 1-12
+  value: number;
+}
+
+export interface ForecastPoint extends MonthlyPoint {
+  lower: number;
+  upper: number;
+}
+
+export interface SeasonalDecomposition {
+  trend: (number | undefined)[]; // undefined where the centered average is not defined
+  seasonal: number[]; // one index per position in the period, summing to zero
+  residual: (number | undefined)[];
+}
+
+export interface ViolationForecast {
+  method: 'holt-winters' | 'holt';
+  points: ForecastPoint[];
+  // Sum over the whole horizon, with its own interval
+  total: { value: number; lower: number; upper: number };
+  confidence: number; // e.g. 0.95
+  params: { alpha: number; beta: number; gamma?: number };
+  decomposition?: SeasonalDecomposition;
+}
+
+const SEASON = 12;
+const Z_SCORES: Record<number, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 };
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const nextMonth = ({ year, month }: { year: number; month: number }) =>
+  month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+
+// Monthly totals across all violation types, keeping the latest run of
+// consecutive months so the models never see a gap
+export function monthlySeries(trends: ViolationTrend[]): MonthlyPoint[] {
+  const totals = new Map<string, MonthlyPoint>();
+  for (const row of trends) {
+    if (!row.month) continue;
+    const key = toPeriodKey(row.year, row.month);
+    const point = totals.get(key);
+    if (point) point.value += row.count;
+    else totals.set(key, { year: row.year, month: row.month, value: row.count });
+  }
+  const sorted = [...totals.values()].sort((a, b) => a.year - b.year || a.month - b.month);
+
+  let start = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const expected = nextMonth(sorted[i - 1]);
+    if (sorted[i].year !== expected.year || sorted[i].month !== expected.month) start = i;
+  }
+  return sorted.slice(start);
+}
+
+// Classical additive decomposition with a centered 2×12 moving average
+export function decomposeSeasonal(values: number[], period: number = SEASON): SeasonalDecomposition | undefined {
+  if (values.length < 2 * period) return undefined;
+  const half = Math.floor(period / 2);
+
+  const trend = values.map((_, t) => {
+    if (t < half || t + half >= values.length) return undefined;
+    // Even period: the window ends count half
+    let sum = (values[t - half] + values[t + half]) / 2;
+    for (let k = t - half + 1; k < t + half; k++) sum += values[k];
+    return sum / period;
+  });
+
+  const byPosition: number[][] = Array.from({ length: period }, () => []);
+  values.forEach((value, t) => {
+    const level = trend[t];
+    if (level !== undefined) byPosition[t % period].push(value - level);
+  });
+  const raw = byPosition.map((detrended) => (detrended.length > 0 ? mean(detrended) : 0));
+  const offset = mean(raw);
+  const seasonal = raw.map((index) => index - offset);
+
+  const residual = values.map((value, t) => {
+    const level = trend[t];
+    return level === undefined ? undefined : value - level - seasonal[t % period];
+  });
+  return { trend, seasonal, residual };
+}
+
+interface FitResult {
+  sse: number;
+  errors: number;
+  level: number;
+  slope: number;
+  seasonal: number[];
+}
+
+// One pass of additive Holt-Winters (or Holt's linear method without `seasonal`)
+function runSmoothing(values: number[], alpha: number, beta: number, gamma: number, seasonal?: number[]): FitResult {
+  const period = seasonal?.length ?? 0;
+  const season = seasonal ? [...seasonal] : [];
+  const deseasonalize = (t: number) => values[t] - (seasonal ? seasonal[t % period] : 0);
+
+  // Seed the level and slope from the first two seasons (or first two points)
+  const span = seasonal ? period : 1;
+  let level = seasonal ? mean(values.slice(0, period).map((_, t) => deseasonalize(t))) : values[0];
+  let slope = seasonal
+    ? (mean(values.slice(period, 2 * period).map((_, t) => deseasonalize(t + period))) - level) / span
+    : values[1] - values[0];
+
+  let sse = 0;
+  let errors = 0;
+  for (let t = span; t < values.length; t++) {
+    const s = seasonal ? season[t % period] : 0;
+    const predicted = level + slope + s;
+    const error = values[t] - predicted;
+    sse += error * error;
+    errors++;
+
+    const previousLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + slope);
+    slope = beta * (level - previousLevel) + (1 - beta) * slope;
+    if (seasonal) season[t % period] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+  return { sse, errors, level, slope, seasonal: season };
+}
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.3, 0.5];
+
+// Forecast the next `horizon` months after the end of `series`. Needs two full
+// years for the seasonal model and falls back to Holt's linear trend with less.
+export function forecastMonthly(
+  series: MonthlyPoint[],
+  horizon: number = 3,
+  confidence: 0.8 | 0.9 | 0.95 = 0.95
+): ViolationForecast | undefined {
+  if (series.length < 3 || horizon < 1) return undefined;
+  const values = series.map((p) => p.value);
+  const decomposition = decomposeSeasonal(values);
+  const gammas = decomposition ? GAMMAS : [0];
+
+  let best: (FitResult & { alpha: number; beta: number; gamma: number }) | undefined;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of gammas) {
+        const fit = runSmoothing(values, alpha, beta, gamma, decomposition?.seasonal);
+        if (!best || fit.sse < best.sse) best = { ...fit, alpha, beta, gamma };
+      }
+    }
+  }
+  if (!best) return undefined;
+
+  // One-step error spread, widened with the square root of the horizon
+  const sigma = Math.sqrt(best.sse / Math.max(best.errors, 1));
+  const z = Z_SCORES[confidence];
+  const points: ForecastPoint[] = [];
+  let period = series[series.length - 1];
+  let total = 0;
+  let totalVariance = 0;
+  for (let h = 1; h <= horizon; h++) {
+    period = { ...nextMonth(period), value: 0 };
+    const s = decomposition ? best.seasonal[(values.length + h - 1) % SEASON] : 0;
+    const value = Math.max(0, best.level + h * best.slope + s);
+    const margin = z * sigma * Math.sqrt(h);
+    total += value;
+    totalVariance += sigma * sigma * h;
+    points.push({
+      year: period.year,
+      month: period.month,
+      value: Math.round(value),
+      lower: Math.max(0, Math.round(value - margin)),
+      upper: Math.round(value + margin),
+    });
+  }
+
+  // The horizon's interval comes from the summed monthly variances (treating the
+  // months' errors as independent), not from adding up the monthly bounds
+  const totalMargin = z * Math.sqrt(totalVariance);
+  return {
+    method: decomposition ? 'holt-winters' : 'holt',
+    points,
+    total: {
+      value: Math.round(total),
+      lower: Math.max(0, Math.round(total - totalMargin)),
+      upper: Math.round(total + totalMargin),
+    },
+    confidence,
+    params: { alpha: best.alpha, beta: best.beta, gamma: decomposition ? best.gamma : undefined },
+    decomposition,
+  };
+}
@@ -0,0 +1,233 @@
+// Violation hotspots by the Getis-Ord Gi* statistic on a square grid. Points
+// are binned into roughly block-sized cells; each cell's Gi* z-score compares
+// the weight in it and its 8 neighbours with the whole study area. Adjacent
+// significant cells are merged into one hotspot.
+
+import type { Violation } from '../types';
+import { dateUtils } from '../utils';
+
+export type HotspotWeight = 'count' | 'fine_amount';
+
+export interface HotspotCell {
+  x: number;
+  y: number;
+  bounds: { north: number; south: number; east: number; west: number };
+  count: number;
+  weight: number;
+  z_score: number;
+}
+
+export interface Hotspot {
+  id: string;
+  cells: HotspotCell[];
+  count: number;
+  total_fines: number;
+  z_score: number; // strongest cell
+  confidence: 0.9 | 0.95 | 0.99;
+  density_ratio: number; // violations per cell vs. the study-area average
+  top_types: { violation_type: string; count: number }[];
+  peak_hour?: number; // 0-23
+  center: { latitude: number; longitude: number };
+}
+
+export interface HotspotAnalysis {
+  hotspots: Hotspot[];
+  cell_size: number; // meters
+  cells: number; // cells in the study area
+  // Set when there are too few violations or cells for the statistic to mean anything
+  insufficient?: string;
+}
+
+export interface HotspotOptions {
+  weight?: HotspotWeight;
+  cellSizeMeters?: number;
+  minConfidence?: 0.9 | 0.95 | 0.99;
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+const DEFAULT_CELL_SIZE_METERS = 150; // about one Manhattan crosstown block
+const MIN_VIOLATIONS = 30;
+const MIN_CELLS = 9;
+const CRITICAL_Z: Record<0.9 | 0.95 | 0.99, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 };
+
+const confidenceFor = (z: number): Hotspot['confidence'] | undefined =>
+  z >= CRITICAL_Z[0.99] ? 0.99 : z >= CRITICAL_Z[0.95] ? 0.95 : z >= CRITICAL_Z[0.9] ? 0.9 : undefined;
+
+export function findHotspots(violations: Violation[], options: HotspotOptions = {}): HotspotAnalysis {
+  const cellSize = options.cellSizeMeters ?? DEFAULT_CELL_SIZE_METERS;
+  const minConfidence = options.minConfidence ?? 0.95;
+  const points = violations.filter((v) => Number.isFinite(v.latitude) && Number.isFinite(v.longitude));
+  if (points.length < MIN_VIOLATIONS) {
+    return { hotspots: [], cell_size: cellSize, cells: 0, insufficient: `At least ${MIN_VIOLATIONS} violations are needed` };
+  }
+
+  // Local equirectangular grid anchored at the study area's south-west corner
+  const south = Math.min(...points.map((v) => v.latitude));
+  const west = Math.min(...points.map((v) => v.longitude));
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((south * Math.PI) / 180);
+  const cellLat = cellSize / METERS_PER_DEGREE_LAT;
+  const cellLon = cellSize / metersPerDegreeLon;
+
+  const binned = new Map<string, { x: number; y: number; violations: Violation[]; weight: number }>();
+  let width = 0;
+  let height = 0;
+  for (const v of points) {
+    const x = Math.floor((v.longitude - west) / cellLon);
+    const y = Math.floor((v.latitude - south) / cellLat);
+    width = Math.max(width, x + 1);
+    height = Math.max(height, y + 1);
+    const key = `${x}:${y}`;
+    const cell = binned.get(key) ?? { x, y, violations: [], weight: 0 };
+    cell.violations.push(v);
+    cell.weight += options.weight === 'fine_amount' ? v.fine_amount : 1;
+    binned.set(key, cell);
+  }
+
+  // Every cell of the bounding grid counts, empty ones included
+  const n = width * height;
+  if (n < MIN_CELLS) {
+    return { hotspots: [], cell_size: cellSize, cells: n, insufficient: 'The violations cover too small an area' };
+  }
+  const weightAt = (x: number, y: number) => binned.get(`${x}:${y}`)?.weight ?? 0;
+  let sum = 0;
+  let sumSquares = 0;
+  binned.forEach((cell) => {
+    sum += cell.weight;
+    sumSquares += cell.weight * cell.weight;
+  });
+  const mean = sum / n;
+  const s = Math.sqrt(sumSquares / n - mean * mean);
+  if (s === 0) return { hotspots: [], cell_size: cellSize, cells: n };
+
+  // Gi* with binary weights over the cell and its neighbours inside the grid
+  const zScore = (x: number, y: number) => {
+    let local = 0;
+    let neighbours = 0;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        local += weightAt(nx, ny);
+        neighbours++;
+      }
+    }
+    const denominator = s * Math.sqrt((n * neighbours - neighbours * neighbours) / (n - 1));
+    return denominator > 0 ? (local - mean * neighbours) / denominator : 0;
+  };
+
+  // Only cells holding violations can anchor a hotspot
+  const significant = new Map<string, { cell: HotspotCell; violations: Violation[] }>();
+  binned.forEach((cell, key) => {
+    const z = zScore(cell.x, cell.y);
+    if (z < CRITICAL_Z[minConfidence]) return;
+    const cellSouth = south + cell.y * cellLat;
+    const cellWest = west + cell.x * cellLon;
+    significant.set(key, {
+      cell: {
+        x: cell.x,
+        y: cell.y,
+        bounds: { south: cellSouth, north: cellSouth + cellLat, west: cellWest, east: cellWest + cellLon },
+        count: cell.violations.length,
+        weight: cell.weight,
+        z_score: Math.round(z * 100) / 100,
+      },
+      violations: cell.violations,
+    });
+  });
+
+  // Merge touching significant cells (8-connectivity)
+  const seen = new Set<string>();
+  const hotspots: Hotspot[] = [];
+  const averagePerCell = points.length / n;
+  significant.forEach((start, startKey) => {
+    if (seen.has(startKey)) return;
+    const group: { cell: HotspotCell; violations: Violation[] }[] = [];
+    const queue = [startKey];
+    seen.add(startKey);
+    while (queue.length > 0) {
+      const member = significant.get(queue.pop()!)!;
+      const { cell } = member;
+      group.push(member);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const key = `${cell.x + dx}:${cell.y + dy}`;
+          if (significant.has(key) && !seen.has(key)) {
+            seen.add(key);
+            queue.push(key);
+          }
+        }
+      }
+    }
+
+    const cells = group.map((member) => member.cell);
+    const members = group.flatMap((member) => member.violations);
+    const byType = new Map<string, number>();
+    const byHour = new Array<number>(24).fill(0);
+    for (const v of members) {
+      byType.set(v.violation_type, (byType.get(v.violation_type) ?? 0) + 1);
+      // Date-only timestamps have no hour to count
+      const hourText = v.issue_date.slice(11, 13);
+      const hour = Number(hourText);
+      if (hourText && Number.isInteger(hour) && hour >= 0 && hour < 24) byHour[hour]++;
+    }
+    const peak = Math.max(...byHour);
+    const strongest = Math.max(...cells.map((cell) => cell.z_score));
+
+    hotspots.push({
+      id: `hotspot-${start.cell.x}-${start.cell.y}`,
+      cells,
+      count: members.length,
+      total_fines: members.reduce((total, v) => total + v.fine_amount, 0),
+      z_score: strongest,
+      confidence: confidenceFor(strongest) ?? minConfidence,
+      density_ratio: Math.round((members.length / cells.length / averagePerCell) * 10) / 10,
+      top_types: [...byType.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([violation_type, count]) => ({ violation_type, count })),
+      peak_hour: peak > 0 ? byHour.indexOf(peak) : undefined,
+      center: {
+        latitude: members.reduce((total, v) => total + v.latitude, 0) / members.length,
+        longitude: members.reduce((total, v) => total + v.longitude, 0) / members.length,
+      },
+    });
+  });
+
+  return { hotspots: hotspots.sort((a, b) => b.z_score - a.z_score), cell_size: cellSize, cells: n };
+}
+
+// Plain-language reasons a hotspot was flagged, one per line
+export function explainHotspot(hotspot: Hotspot, weight: HotspotWeight = 'count'): string[] {
+  const lines = [
+    `${hotspot.count} violations in ${hotspot.cells.length} block${hotspot.cells.length === 1 ? '' : 's'} — ${hotspot.density_ratio}× the area average`,
+    `Gi* z-score ${hotspot.z_score.toFixed(2)} (${Math.round(hotspot.confidence * 100)}% confidence this is not random)`,
+  ];
+  if (weight === 'fine_amount') lines.push(`$${hotspot.total_fines.toLocaleString()} in fines`);
+  if (hotspot.top_types.length > 0) {
+    lines.push(
+      `Mostly ${hotspot.top_types
+        .map((t) => `${t.violation_type.toLowerCase()} (${Math.round((t.count / hotspot.count) * 100)}%)`)
+        .join(', ')}`
+    );
+  }
+  if (hotspot.peak_hour !== undefined) {
+    lines.push(`Busiest hour: ${dateUtils.formatHour(hotspot.peak_hour)}–${dateUtils.formatHour((hotspot.peak_hour + 1) % 24)}`);
+  }
+  return lines;
+}
+
+// Outer boundary of a hotspot as line segments: every cell edge not shared
+// with another cell of the same hotspot
+export function hotspotOutline(hotspot: Hotspot): [number, number][][] {
+  const members = new Set(hotspot.cells.map((cell) => `${cell.x}:${cell.y}`));
+  const segments: [number, number][][] = [];
+  for (const { x, y, bounds } of hotspot.cells) {
+    const { north, south, east, west } = bounds;
+    if (!members.has(`${x}:${y + 1}`)) segments.push([[west, north], [east, north]]);
+    if (!members.has(`${x}:${y - 1}`)) segments.push([[west, south], [east, south]]);
+    if (!members.has(`${x + 1}:${y}`)) segments.push([[east, south], [east, north]]);
+    if (!members.has(`${x - 1}:${y}`)) segments.push([[west, south], [west, north]]);
+  }
+  return segments;
+}
@@ -0,0 +1,225 @@
+// Ticket risk for parking at a location over a time window. Two signals are
+// combined: the sign verdict for the block face, and how hard the spot is
+// enforced during the window's hours. Enforcement is relative — violations
+// near the spot are compared with the surrounding neighbourhood, and the share
+// issued during the window's hours with the share of the week those hours
+// cover — so the score does not depend on how complete the extract is.
+
+import type { MapLocation, ParkingEvaluationRequest, ParkingSign, ParkingVerdict, ParkingVerdictStatus, Violation } from '../types';
+import { constants } from '../utils';
+import { haversineDistance } from '../utils/geospatial';
+import { evaluateParking, selectBlockFace } from '../regulations/evaluator';
+import type { SuspensionCalendar } from '../regulations/suspensions';
+import { violationTimeSlot } from './timeMatrix';
+
+export type RiskLevel = 'low' | 'moderate' | 'high' | 'very_high';
+
+export interface RiskTypeShare {
+  violation_type: string;
+  count: number;
+  share: number; // 0-1 of the violations counted
+}
+
+export interface RiskHour {
+  hour: number; // 0-23
+  count: number;
+  in_window: boolean;
+}
+
+export interface TicketRisk {
+  score: number; // 0-100
+  level: RiskLevel;
+  regulation?: ParkingVerdictStatus; // unset without sign data
+  enforcement?: number; // 0-1; unset when the neighbourhood has too few violations
+  location_ratio?: number; // nearby violations vs. the neighbourhood average for the same area
+  timing_ratio?: number; // window-hour share of violations vs. the window's share of the week
+  nearby_count: number;
+  window_count: number; // nearby violations issued during the window's hours
+  by_type: RiskTypeShare[]; // during the window's hours, or all nearby when there are none
+  by_hour: RiskHour[];
+  factors: string[];
+}
+
+export interface TicketRiskInput {
+  location: MapLocation;
+  window: ParkingEvaluationRequest;
+  violations: Violation[]; // the neighbourhood around `center`
+  center: MapLocation;
+  contextRadius?: number;
+  radius?: number;
+  verdict?: ParkingVerdict;
+}
+
+export const RISK_LEVELS: Record<RiskLevel, { label: string; color: string }> = {
+  low: { label: 'Low', color: '#22c55e' },
+  moderate: { label: 'Moderate', color: '#eab308' },
+  high: { label: 'High', color: '#f97316' },
+  very_high: { label: 'Very high', color: '#dc2626' },
+};
+
+// Base score and the share left to enforcement, per sign verdict
+const REGULATION_WEIGHTS: Record<ParkingVerdictStatus | 'unknown', { base: number; enforcement: number }> = {
+  restricted: { base: 0.7, enforcement: 0.3 },
+  conditional: { base: 0.25, enforcement: 0.45 },
+  allowed: { base: 0.05, enforcement: 0.35 },
+  unknown: { base: 0, enforcement: 0.6 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_CONTEXT_VIOLATIONS = 20;
+// Pseudo-counts that pull sparse local figures toward the neighbourhood
+const LOCATION_PRIOR = 2;
+const TIMING_PRIOR = 10;
+const TOP_TYPES = 5;
+
+const levelFor = (score: number): RiskLevel =>
+  score >= 75 ? 'very_high' : score >= 50 ? 'high' : score >= 25 ? 'moderate' : 'low';
+
+const isWeekend = (day: number) => day === 0 || day === 6;
+
+// Weekday or weekend hour of the week, e.g. "we-9"
+const slotOf = (weekend: boolean, hour: number) => `${weekend ? 'we' : 'wd'}-${hour}`;
+
+function violationSlot(v: Violation): string | undefined {
+  const slot = violationTimeSlot(v);
+  return slot && slotOf(isWeekend(slot.day), slot.hour);
+}
+
+// Hours of the week the stay touches (capped at one week) and the share of the week they cover
+function windowSlots(window: ParkingEvaluationRequest): { slots: Set<string>; hours: Set<number>; share: number } {
+  const slots = new Set<string>();
+  const hours = new Set<number>();
+  const end = window.start.getTime() + Math.max(window.duration_minutes, 1) * 60 * 1000;
+  const first = new Date(window.start);
+  first.setMinutes(0, 0, 0);
+  for (let t = first.getTime(), i = 0; t < end && i < 24 * 7; t += HOUR_MS, i++) {
+    const date = new Date(t);
+    slots.add(slotOf(isWeekend(date.getDay()), date.getHours()));
+    hours.add(date.getHours());
+  }
+  let share = 0;
+  slots.forEach((slot) => {
+    share += (slot.startsWith('we') ? 2 : 5) / (7 * 24);
+  });
+  return { slots, hours, share };
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function computeTicketRisk(input: TicketRiskInput): TicketRisk {
+  const radius = input.radius ?? constants.TICKET_RISK_RADIUS;
+  const contextRadius = input.contextRadius ?? constants.TICKET_RISK_CONTEXT_RADIUS;
+  const { location, center, verdict } = input;
+
+  const context = input.violations.filter(
+    (v) => haversineDistance(center.latitude, center.longitude, v.latitude, v.longitude) <= contextRadius
+  );
+  const nearby = context.filter(
+    (v) => haversineDistance(location.latitude, location.longitude, v.latitude, v.longitude) <= radius
+  );
+  const { slots, hours, share: windowShare } = windowSlots(input.window);
+  const inWindow = (v: Violation) => {
+    const slot = violationSlot(v);
+    return slot !== undefined && slots.has(slot);
+  };
+  const nearbyInWindow = nearby.filter(inWindow);
+
+  // Enforcement: how much busier this spot is than the neighbourhood, and
+  // how much of its enforcement falls in the window's hours
+  let enforcement: number | undefined;
+  let locationRatio: number | undefined;
+  let timingRatio: number | undefined;
+  if (context.length >= MIN_CONTEXT_VIOLATIONS && windowShare > 0) {
+    const expectedNearby = context.length * Math.min(1, (radius / contextRadius) ** 2);
+    locationRatio = (nearby.length + LOCATION_PRIOR) / (expectedNearby + LOCATION_PRIOR);
+    const contextShare = context.filter(inWindow).length / context.length;
+    const localShare = (nearbyInWindow.length + TIMING_PRIOR * contextShare) / (nearby.length + TIMING_PRIOR);
+    timingRatio = localShare / windowShare;
+    // An index of 1 (the neighbourhood average) maps to 0.5
+    enforcement = 1 - 2 ** -(locationRatio * timingRatio);
+  }
+
+  const weights = REGULATION_WEIGHTS[verdict?.status ?? 'unknown'];
+  const score = Math.round(100 * (weights.base + weights.enforcement * (enforcement ?? 0.5)));
+
+  const typeSource = nearbyInWindow.length > 0 ? nearbyInWindow : nearby;
+  const byType = new Map<string, number>();
+  for (const v of typeSource) byType.set(v.violation_type, (byType.get(v.violation_type) ?? 0) + 1);
+  const byHour = Array.from({ length: 24 }, (_, hour): RiskHour => ({ hour, count: 0, in_window: hours.has(hour) }));
+  for (const v of nearby) {
+    const slot = violationTimeSlot(v);
+    if (slot) byHour[slot.hour].count++;
+  }
+
+  const factors: string[] = [];
+  if (verdict) {
+    factors.push(verdict.signs_evaluated > 0 ? `Signs: ${verdict.summary}` : 'No posted regulations found on this block face');
+  } else {
+    factors.push('No sign data for this spot');
+  }
+  if (locationRatio !== undefined && timingRatio !== undefined) {
+    factors.push(`${nearby.length} violations within ${radius} m — ${round(locationRatio, 1)}× the neighbourhood average`);
+    if (nearby.length > 0) {
+      factors.push(
+        `${Math.round((nearbyInWindow.length / nearby.length) * 100)}% of them were written during your hours, which cover ${Math.round(windowShare * 100)}% of the week`
+      );
+    }
+  } else {
+    factors.push('Too few violations recorded nearby to judge enforcement');
+  }
+
+  return {
+    score,
+    level: levelFor(score),
+    regulation: verdict?.status,
+    enforcement: enforcement === undefined ? undefined : round(enforcement, 3),
+    location_ratio: locationRatio === undefined ? undefined : round(locationRatio, 2),
+    timing_ratio: timingRatio === undefined ? undefined : round(timingRatio, 2),
+    nearby_count: nearby.length,
+    window_count: nearbyInWindow.length,
+    by_type: [...byType.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_TYPES)
+      .map(([violation_type, count]) => ({ violation_type, count, share: round(count / typeSource.length, 3) })),
+    by_hour: byHour,
+    factors,
+  };
+}
+
+export interface RiskSurfaceInput {
+  center: MapLocation;
+  violations: Violation[];
+  signs: ParkingSign[]; // around `center`, with sign rules
+  signRadius: number; // how far around `center` the signs cover
+  window: ParkingEvaluationRequest;
+  calendar?: SuspensionCalendar;
+  contextRadius?: number;
+}
+
+// Risk at any point near `center`, evaluating the block face under the point
+// from the signs already loaded. Undefined outside the neighbourhood.
+export function createRiskSurface(input: RiskSurfaceInput): (location: MapLocation) => TicketRisk | undefined {
+  const contextRadius = input.contextRadius ?? constants.TICKET_RISK_CONTEXT_RADIUS;
+  return (location) => {
+    const fromCenter = haversineDistance(input.center.latitude, input.center.longitude, location.latitude, location.longitude);
+    if (fromCenter > contextRadius) return undefined;
+
+    // Past the edge of the loaded signs the block face is unknown
+    let verdict: ParkingVerdict | undefined;
+    if (fromCenter <= input.signRadius) {
+      const signs = input.signs.map((s) => ({
+        ...s,
+        distance: haversineDistance(location.latitude, location.longitude, s.latitude, s.longitude),
+      }));
+      verdict = evaluateParking(selectBlockFace(signs), input.window, input.calendar);
+    }
+    return computeTicketRisk({
+      location,
+      window: input.window,
+      violations: input.violations,
+      center: input.center,
+      contextRadius,
+      verdict,
+    });
+  };
+}
@@ -0,0 +1,72 @@
+// When violations are written: counts by day of week and hour of day.
+// `issue_date` is a local timestamp, so the day and hour are read from the
+// string rather than through the browser's time zone.
+
+import type { Violation, ViolationTimeMatrixCounts } from '../types';
+import { dateUtils } from '../utils';
+
+export interface TimeSlot {
+  day: number; // 0 = Sunday
+  hour: number; // 0-23
+}
+
+export interface TimeMatrix {
+  cells: number[][]; // [day][hour]
+  max: number;
+  total: number;
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function violationTimeSlot(violation: Pick<Violation, 'issue_date'>): TimeSlot | undefined {
+  const [year, month, day] = violation.issue_date.slice(0, 10).split('-').map(Number);
+  const hourText = violation.issue_date.slice(11, 13);
+  const hour = Number(hourText);
+  // Date-only timestamps have no hour and are left out
+  if (!year || !month || !day || !hourText || !Number.isInteger(hour) || hour < 0 || hour > 23) return undefined;
+  return { day: new Date(year, month - 1, day).getDay(), hour };
+}
+
+export function matchesTimeSlot(violation: Pick<Violation, 'issue_date'>, slot: TimeSlot): boolean {
+  const own = violationTimeSlot(violation);
+  return own !== undefined && own.day === slot.day && own.hour === slot.hour;
+}
+
+const emptyCells = () => Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+
+// 7×24 counts per violation type; data sources return these for a whole query
+export function countTimeSlots(
+  violations: Pick<Violation, 'issue_date' | 'violation_type'>[]
+): ViolationTimeMatrixCounts {
+  const counts: ViolationTimeMatrixCounts = {};
+  for (const v of violations) {
+    const slot = violationTimeSlot(v);
+    if (!slot) continue;
+    if (!counts[v.violation_type]) counts[v.violation_type] = emptyCells();
+    counts[v.violation_type][slot.day][slot.hour]++;
+  }
+  return counts;
+}
+
+// The 7×24 matrix for all types, or for one
+export function buildTimeMatrix(counts: ViolationTimeMatrixCounts, violationType?: string): TimeMatrix {
+  const cells = emptyCells();
+  let max = 0;
+  let total = 0;
+  for (const [type, typeCells] of Object.entries(counts)) {
+    if (violationType && type !== violationType) continue;
+    typeCells.forEach((hours, day) =>
+      hours.forEach((count, hour) => {
+        cells[day][hour] += count;
+        total += count;
+      })
+    );
+  }
+  for (const hours of cells) max = Math.max(max, ...hours);
+  return { cells, max, total };
+}
+
+// "Tue 8am–9am"
+export function formatTimeSlot(slot: TimeSlot): string {
+  return `${DAY_LABELS[slot.day]} ${dateUtils.formatHour(slot.hour)}–${dateUtils.formatHour((slot.hour + 1) % 24)}`;
+}
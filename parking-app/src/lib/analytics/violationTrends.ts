@@ -0,0 +1,232 @@
+// Violation trends aggregated from individual violations. Counts are bucketed
+// by borough, calendar month and violation type; every period is compared
+// with the same period one year earlier so seasonality does not read as a trend.
+
+import type { Borough, TrendDirection, ViolationTrend, ViolationTrendsRequest } from '../types';
+import { constants } from '../utils';
+import { BOROUGH_STATS } from './boroughStats';
+
+export interface TrendRecord {
+  borough: string; // borough key, e.g. "staten_island"
+  violation_type: string;
+  fine_amount: number;
+  issue_date: string; // local ISO timestamp
+}
+
+export interface TrendCell {
+  count: number;
+  total_fines: number;
+}
+
+export interface TrendCube {
+  periods: ReadonlySet<string>; // "YYYY-MM" months the dataset covers, any borough
+  get(borough: string, year: number, month: number): ReadonlyMap<string, TrendCell> | undefined;
+}
+
+export interface TrendThresholds {
+  stable_percent: number;
+  min_count: number;
+}
+
+export const DEFAULT_TREND_THRESHOLDS: TrendThresholds = {
+  stable_percent: constants.TREND_STABLE_PERCENT,
+  min_count: constants.TREND_MIN_COUNT,
+};
+
+export const toPeriodKey = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+
+export function createTrendCube(records: TrendRecord[]): TrendCube {
+  const periods = new Set<string>();
+  const cells = new Map<string, Map<string, TrendCell>>();
+
+  for (const record of records) {
+    // Timestamps are local, so the month is read straight from the string
+    const period = record.issue_date.slice(0, 7);
+    periods.add(period);
+    const key = `${record.borough}|${period}`;
+    let byType = cells.get(key);
+    if (!byType) {
+      byType = new Map();
+      cells.set(key, byType);
+    }
+    const cell = byType.get(record.violation_type);
+    if (cell) {
+      cell.count += 1;
+      cell.total_fines += record.fine_amount;
+    } else {
+      byType.set(record.violation_type, { count: 1, total_fines: record.fine_amount });
+    }
+  }
+
+  return {
+    periods,
+    get: (borough, year, month) => cells.get(`${borough}|${toPeriodKey(year, month)}`),
+  };
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Direction of `count` against `previous`; no comparison when the prior period is unknown
+export function trendDirection(
+  count: number,
+  previous: number | undefined,
+  thresholds: TrendThresholds = DEFAULT_TREND_THRESHOLDS
+): { trend_direction: TrendDirection; percentage_change?: number } {
+  if (previous === undefined) return { trend_direction: 'stable' };
+  const percentage_change = previous > 0 ? round(((count - previous) / previous) * 100, 1) : undefined;
+  if (Math.max(count, previous) < thresholds.min_count) return { trend_direction: 'stable', percentage_change };
+  if (percentage_change === undefined) return { trend_direction: 'up' };
+  if (Math.abs(percentage_change) <= thresholds.stable_percent) return { trend_direction: 'stable', percentage_change };
+  return { trend_direction: percentage_change > 0 ? 'up' : 'down', percentage_change };
+}
+
+const EMPTY_MONTH: ReadonlyMap<string, TrendCell> = new Map();
+
+// One row per violation type and month of the requested year (or the single
+// requested month). Months outside the dataset are left out.
+export function computeViolationTrends(
+  cube: TrendCube,
+  request: Pick<ViolationTrendsRequest, 'borough' | 'year' | 'month'>,
+  thresholds: TrendThresholds = DEFAULT_TREND_THRESHOLDS
+): ViolationTrend[] {
+  const { borough, year } = request;
+  const months = request.month ? [request.month] : Array.from({ length: 12 }, (_, i) => i + 1);
+  const trends: ViolationTrend[] = [];
+
+  for (const month of months) {
+    if (!cube.periods.has(toPeriodKey(year, month))) continue;
+    const current = cube.get(borough, year, month) ?? EMPTY_MONTH;
+    const previous = cube.periods.has(toPeriodKey(year - 1, month)) ? cube.get(borough, year - 1, month) ?? EMPTY_MONTH : undefined;
+
+    // Types seen in either year, so a type that disappeared still reports its drop
+    const types = new Set([...current.keys(), ...(previous?.keys() ?? [])]);
+    for (const type of types) {
+      const cell = current.get(type) ?? { count: 0, total_fines: 0 };
+      const previousCount = previous ? previous.get(type)?.count ?? 0 : undefined;
+      trends.push({
+        borough,
+        year,
+        month,
+        violation_type: type,
+        count: cell.count,
+        total_fines: cell.total_fines,
+        average_fine: cell.count > 0 ? round(cell.total_fines / cell.count, 2) : 0,
+        previous_count: previousCount,
+        ...trendDirection(cell.count, previousCount, thresholds),
+      });
+    }
+  }
+  return trends;
+}
+
+// Sum rows into one, recomputing the direction from the summed counts. The
+// prior-year total is only known when every row has one.
+export function combineTrends(
+  rows: ViolationTrend[],
+  thresholds: TrendThresholds = DEFAULT_TREND_THRESHOLDS
+): Omit<ViolationTrend, 'violation_type'> & { violation_type?: string } {
+  const count = rows.reduce((sum, row) => sum + row.count, 0);
+  const totalFines = rows.reduce((sum, row) => sum + row.total_fines, 0);
+  const previousCount = rows.every((row) => row.previous_count !== undefined)
+    ? rows.reduce((sum, row) => sum + (row.previous_count ?? 0), 0)
+    : undefined;
+  const types = new Set(rows.map((row) => row.violation_type));
+  const months = new Set(rows.map((row) => row.month));
+  return {
+    borough: rows[0]?.borough ?? '',
+    year: rows[0]?.year ?? 0,
+    month: months.size === 1 ? rows[0].month : undefined,
+    violation_type: types.size === 1 ? rows[0].violation_type : undefined,
+    count,
+    total_fines: totalFines,
+    average_fine: count > 0 ? round(totalFines / count, 2) : 0,
+    previous_count: rows.length > 0 ? previousCount : undefined,
+    ...trendDirection(count, rows.length > 0 ? previousCount : undefined, thresholds),
+  };
+}
+
+// Roll monthly rows up by violation type or by month
+export function rollUpTrends(
+  trends: ViolationTrend[],
+  by: 'violation_type' | 'month',
+  thresholds: TrendThresholds = DEFAULT_TREND_THRESHOLDS
+): ViolationTrend[] {
+  const groups = new Map<string, ViolationTrend[]>();
+  for (const row of trends) {
+    if (by === 'month' && !row.month) continue;
+    const key = String(row[by]);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  return [...groups.values()].map((rows) => {
+    const combined = combineTrends(rows, thresholds);
+    // A month's rows span every type
+    return { ...combined, violation_type: combined.violation_type ?? 'All violations' };
+  });
+}
+
+export type TrendNormalization = 'count' | 'per_capita' | 'per_lane_mile';
+
+export const NORMALIZATION_LABELS: Record<TrendNormalization, string> = {
+  count: 'violations',
+  per_capita: 'per 100k residents',
+  per_lane_mile: 'per 100 lane miles',
+};
+
+// Scale a borough's count so boroughs of different size compare fairly
+export function normalizeCount(count: number, borough: Borough, normalization: TrendNormalization): number {
+  const stats = BOROUGH_STATS[borough];
+  if (normalization === 'per_capita') return round((count / stats.population) * 100000, 2);
+  if (normalization === 'per_lane_mile') return round((count / stats.lane_miles) * 100, 2);
+  return count;
+}
+
+// One borough-year slice in comparison mode
+export interface TrendSeries {
+  id: string;
+  label: string;
+  borough: Borough;
+  year: number;
+  trends: ViolationTrend[];
+}
+
+export type ComparisonRow = { name: string } & Record<string, number | string>;
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Chart rows with one column per series: the top `limit` violation types
+// across all series, or every month
+export function comparisonRows(
+  series: TrendSeries[],
+  by: 'violation_type' | 'month',
+  normalization: TrendNormalization = 'count',
+  limit: number = 8
+): ComparisonRow[] {
+  const totals = series.map((s) => {
+    const byKey = new Map<string, number>();
+    for (const row of s.trends) {
+      if (by === 'month' && !row.month) continue;
+      const key = String(row[by]);
+      byKey.set(key, (byKey.get(key) ?? 0) + row.count);
+    }
+    return byKey;
+  });
+
+  let keys: string[];
+  if (by === 'month') {
+    keys = MONTH_LABELS.map((_, i) => String(i + 1)).filter((key) => totals.some((t) => t.has(key)));
+  } else {
+    const overall = new Map<string, number>();
+    totals.forEach((t) => t.forEach((count, key) => overall.set(key, (overall.get(key) ?? 0) + count)));
+    keys = [...overall.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([key]) => key);
+  }
+
+  return keys.map((key) => {
+    const row: ComparisonRow = { name: by === 'month' ? MONTH_LABELS[Number(key) - 1] : key };
+    series.forEach((s, i) => {
+      row[s.id] = normalizeCount(totals[i].get(key) ?? 0, s.borough, normalization);
+    });
+    return row;
+  });
+}
@@ -1,114 +1,50 @@
 import {
+  ApiError,
   HealthCheck,
   ParkingSign,
   MeterRate,
   ViolationTrend,
   Violation,
+  ViolationsResponse,
   DataStatus,
   ParkingSignsRequest,
   MeterRateRequest,
+  MeterRatesRequest,
   ViolationTrendsRequest,
   ViolationsRequest,
 } from './types';
-import { loadParkingSignsRaw } from './data/parkingSignsProvider';
-import { loadMeterZonesRaw } from './data/meterRatesProvider';
-import { loadViolationTrendsSample } from './data/violationTrendsProvider';
+import { getDataSource, RequestOptions } from './data/dataSource';
+import { haversineDistance } from './utils/geospatial';
 
-// Client-only API shim (no Python backend)
+// Delegates to the configured data source (static assets, in a worker when
+// available, or the HTTP backend). Pass React Query's `signal` as `options`.
 export const api = {
   async checkHealth(): Promise<HealthCheck> {
-    return {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      services: { api: 'online' },
-    } as HealthCheck;
-  },
-
-  async getParkingSigns(params: ParkingSignsRequest): Promise<ParkingSign[]> {
-    const raw = await loadParkingSignsRaw();
-    const list = raw
-      .map((s) => ({
-        id: s.sign_id,
-        latitude: s.latitude,
-        longitude: s.longitude,
-        distance: 0,
-        description: s.sign_description,
-        street_name: s.street_name,
-        borough: s.borough?.toLowerCase(),
-      })) as ParkingSign[];
-    // compute distances client-side to preserve existing UI expectations
-    const { filterByRadius } = await import('./utils/geospatial');
-    const filtered = filterByRadius(list, params.lat, params.lon, params.radius);
-    // map back to ParkingSign.distance property name
-    return filtered.map((f) => ({ ...f, distance: f.distance_meters }));
-  },
-
-  async getMeterRate(params: MeterRateRequest): Promise<MeterRate> {
-    const raw = await loadMeterZonesRaw();
-    const { calculateDistance } = await import('./utils/geospatial');
-    let best: { item: any; distance: number } | null = null;
-    for (const item of raw) {
-      const d = calculateDistance([params.lat, params.lon], [item.lat, item.long]);
-      if (!best || d < best.distance) best = { item, distance: d };
-    }
-    if (!best) throw new Error('No meter found');
-    const z = best.item;
-    return {
-      id: z.meter_number,
-      latitude: z.lat,
-      longitude: z.long,
-      distance: best.distance,
-      rate_schedule: [{ hours: z.meter_hours, rate: '0', rate_type: 'hourly' }],
-      status: (z.status || 'unknown').toLowerCase() as MeterRate['status'],
-      street_name: z.on_street,
-      borough: z.borough?.toLowerCase(),
-    } as MeterRate;
-  },
-
-  async getViolationTrends(params: ViolationTrendsRequest): Promise<ViolationTrend[]> {
-    const payload = await loadViolationTrendsSample();
-    // Adapt sample payload to ViolationTrend[]
-    const year = params.year ?? new Date().getFullYear() - 1;
-    return payload.trends.map((t) => ({
-      borough: (params.borough || payload.filters.borough || 'manhattan').toString(),
-      year,
-      violation_type: t.violation_type,
-      count: t.count,
-      total_fines: Math.round(t.count * t.avg_fine),
-      average_fine: t.avg_fine,
-      trend_direction: 'stable',
-    }));
+    return getDataSource().checkHealth();
+  },
+
+  async getParkingSigns(params: ParkingSignsRequest, options?: RequestOptions): Promise<ParkingSign[]> {
+    return getDataSource().getParkingSigns(params, options);
+  },
+
+  async getMeterRate(params: MeterRateRequest, options?: RequestOptions): Promise<MeterRate> {
+    return getDataSource().getMeterRate(params, options);
   },
 
-  async getViolations(_params: ViolationsRequest): Promise<Violation[]> {
-    // Not implemented in original backend; return empty for now
-    return [];
+  async getMeterRates(params: MeterRatesRequest, options?: RequestOptions): Promise<MeterRate[]> {
+    return getDataSource().getMeterRates(params, options);
+  },
+
+  async getViolationTrends(params: ViolationTrendsRequest, options?: RequestOptions): Promise<ViolationTrend[]> {
+    return getDataSource().getViolationTrends(params, options);
+  },
+
+  async getViolations(params: ViolationsRequest, options?: RequestOptions): Promise<ViolationsResponse> {
+    return getDataSource().getViolations(params, options);
   },
 
   async getDataStatus(): Promise<DataStatus> {
-    // Compute from static assets
-    const [signs, meters] = await Promise.all([
-      loadParkingSignsRaw().catch(() => []),
-      loadMeterZonesRaw().catch(() => []),
-    ]);
-    const now = new Date().toISOString();
-    return {
-      parking_signs: {
-        total_count: signs.length,
-        last_updated: now,
-        coverage_areas: ['Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'],
-      },
-      meter_rates: {
-        total_count: meters.length,
-        last_updated: now,
-        coverage_areas: ['Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'],
-      },
-      violations: {
-        total_count: 0,
-        last_updated: now,
-        date_range: { start: '2020-01-01', end: now.slice(0, 10) },
-      },
-    } as DataStatus;
+    return getDataSource().getDataStatus();
   },
 };
 
@@ -159,20 +95,9 @@ export const apiUtils = {
     );
   },
 
-  // Calculate distance between two coordinates (Haversine formula)
+  // Calculate distance between two coordinates in meters (Haversine formula)
   calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c; // Distance in meters
+    return haversineDistance(lat1, lon1, lat2, lon2);
   },
 
   // Format distance for display
@@ -215,7 +140,9 @@ export const apiUtils = {
   // Format date from ISO string to M/D/YYYY format
   formatLastUpdated(isoString: string): string {
     try {
-      const date = new Date(isoString);
+      // Date-only strings (dataset publish dates) are calendar dates, not UTC midnight
+      const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(isoString) ? `${isoString}T00:00:00` : isoString);
+      if (isNaN(date.getTime())) return 'Unknown';
       return date.toLocaleDateString('en-US', {
         month: 'numeric',
         day: 'numeric',
@@ -250,4 +177,4 @@ export const apiUtils = {
 };
 
 // Export types for easy access
-export type { ApiError, HealthCheck, ParkingSign, MeterRate, ViolationTrend, Violation, DataStatus };
\ No newline at end of file
+export type { ApiError, HealthCheck, ParkingSign, MeterRate, ViolationTrend, Violation, ViolationsResponse, DataStatus };
\ No newline at end of file
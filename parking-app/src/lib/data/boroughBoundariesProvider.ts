@@ -0,0 +1,52 @@
+import { isFiniteNumber, isObject, loadDatasetRecords, onDatasetUpdated } from './datasetLoader';
+import { Borough, NYC_BOROUGHS } from '../types';
+
+// Borough outline as a GeoJSON MultiPolygon of [lon, lat] positions. The
+// bundled extract is the Census TIGER/Line county boundary of each borough,
+// so it follows the legal line through the water rather than the shoreline.
+export interface RawBoroughBoundary {
+  borough: Borough;
+  name: string;
+  county_fips: string;
+  coordinates: [number, number][][][];
+}
+
+const isPosition = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length >= 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+
+const isArrayOf = <T>(value: unknown, item: (v: unknown) => v is T): value is T[] =>
+  Array.isArray(value) && value.every(item);
+
+// A linear ring needs at least four positions, the last repeating the first
+const isRing = (value: unknown): value is [number, number][] => {
+  if (!isArrayOf(value, isPosition) || value.length < 4) return false;
+  const [first, last] = [value[0], value[value.length - 1]];
+  return first[0] === last[0] && first[1] === last[1];
+};
+
+export function isRawBoroughBoundary(record: unknown): record is RawBoroughBoundary {
+  return (
+    isObject(record) &&
+    NYC_BOROUGHS.includes(record.borough as Borough) &&
+    typeof record.name === 'string' &&
+    typeof record.county_fips === 'string' &&
+    isArrayOf(record.coordinates, (polygon): polygon is [number, number][][] =>
+      isArrayOf(polygon, isRing) && polygon.length > 0
+    )
+  );
+}
+
+let boundariesPromise: Promise<RawBoroughBoundary[]> | null = null;
+onDatasetUpdated('borough_boundaries', () => {
+  boundariesPromise = null;
+});
+
+export function loadBoroughBoundaries(): Promise<RawBoroughBoundary[]> {
+  if (!boundariesPromise) {
+    boundariesPromise = loadDatasetRecords('borough_boundaries', isRawBoroughBoundary).catch((error) => {
+      boundariesPromise = null;
+      throw error;
+    });
+  }
+  return boundariesPromise;
+}
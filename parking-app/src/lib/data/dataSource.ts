@@ -0,0 +1,67 @@
+import {
+  HealthCheck,
+  ParkingSign,
+  MeterRate,
+  ViolationTrend,
+  ViolationsResponse,
+  DataStatus,
+  ParkingSignsRequest,
+  MeterRateRequest,
+  MeterRatesRequest,
+  ViolationTrendsRequest,
+  ViolationsRequest,
+} from '../types';
+import { staticDataSource } from './staticDataSource';
+import { createHttpDataSource } from './httpDataSource';
+import { createWorkerDataSource } from './workerDataSource';
+
+// Per-request options; pass React Query's `signal` so stale queries are cancelled
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+// Everything the `api` object needs from a backend. Implementations must not
+// rely on `this`, since pages pass methods directly as React Query `queryFn`s.
+export interface DataSource {
+  checkHealth(): Promise<HealthCheck>;
+  getParkingSigns(params: ParkingSignsRequest, options?: RequestOptions): Promise<ParkingSign[]>;
+  getMeterRate(params: MeterRateRequest, options?: RequestOptions): Promise<MeterRate>;
+  getMeterRates(params: MeterRatesRequest, options?: RequestOptions): Promise<MeterRate[]>;
+  getViolationTrends(params: ViolationTrendsRequest, options?: RequestOptions): Promise<ViolationTrend[]>;
+  getViolations(params: ViolationsRequest, options?: RequestOptions): Promise<ViolationsResponse>;
+  getDataStatus(): Promise<DataStatus>;
+}
+
+export type DataSourceKind = 'static' | 'http';
+
+export const DEFAULT_API_URL = 'http://localhost:5000/api';
+
+// Resolve which backend to use from NEXT_PUBLIC_DATA_SOURCE. Anything other than
+// "http" falls back to the bundled static extracts so the app works offline.
+export function resolveDataSourceKind(value: string | undefined = process.env.NEXT_PUBLIC_DATA_SOURCE): DataSourceKind {
+  return value?.trim().toLowerCase() === 'http' ? 'http' : 'static';
+}
+
+// Static datasets are parsed and queried in a Web Worker unless
+// NEXT_PUBLIC_DATA_WORKER=off or the environment has no Worker support.
+export function isWorkerEnabled(value: string | undefined = process.env.NEXT_PUBLIC_DATA_WORKER): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined' && value?.trim().toLowerCase() !== 'off';
+}
+
+let activeSource: DataSource | null = null;
+
+export function getDataSource(): DataSource {
+  if (!activeSource) {
+    if (resolveDataSourceKind() === 'http') {
+      activeSource = createHttpDataSource(process.env.NEXT_PUBLIC_API_URL || DEFAULT_API_URL);
+    } else if (isWorkerEnabled()) {
+      activeSource = createWorkerDataSource(
+        () => new Worker(new URL('./queryEngine.worker.ts', import.meta.url)),
+        staticDataSource
+      );
+    } else {
+      activeSource = staticDataSource;
+    }
+  }
+  return activeSource;
+}
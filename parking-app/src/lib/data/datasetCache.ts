@@ -0,0 +1,75 @@
+// Minimal promise wrapper around IndexedDB for persisting downloaded datasets
+// between page loads. Every operation degrades to a no-op when IndexedDB is
+// unavailable (server rendering, private mode, old browsers).
+
+const DB_NAME = 'nyc-parking-datasets';
+const DB_VERSION = 1;
+const STORE = 'datasets';
+
+export interface CachedDataset<T = unknown> {
+  key: string; // dataset name
+  version: string;
+  published: string;
+  etag: string | null;
+  storedAt: number; // epoch ms of the last successful (re)validation
+  envelope: T;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE)) {
+            request.result.createObjectStore(STORE, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Dataset cache unavailable:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Dataset cache unavailable:', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  try {
+    return await requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } catch (error) {
+    console.warn('Dataset cache operation failed:', error);
+    return undefined;
+  }
+}
+
+export const datasetCache = {
+  async get<T>(key: string): Promise<CachedDataset<T> | null> {
+    const entry = await withStore<CachedDataset<T> | undefined>('readonly', (store) => store.get(key));
+    return entry ?? null;
+  },
+
+  async put<T>(entry: CachedDataset<T>): Promise<void> {
+    await withStore('readwrite', (store) => store.put(entry));
+  },
+};
@@ -0,0 +1,200 @@
+// Shared loader for the versioned NYC Open Data extracts in public/data.
+// public/data/manifest.json maps each dataset to its current versioned file;
+// every file is an envelope of `{ dataset, version, records }`. Downloaded
+// files are persisted in IndexedDB and revalidated in the background.
+
+import { datasetCache, CachedDataset } from './datasetCache';
+
+export const DATA_BASE_PATH = '/data';
+
+export type DatasetName =
+  | 'parking_signs'
+  | 'meter_zones'
+  | 'meter_rate_zones'
+  | 'violations'
+  | 'suspension_calendar'
+  | 'borough_boundaries';
+
+export interface DatasetManifestEntry {
+  version: string;
+  file: string;
+  published: string; // YYYY-MM-DD
+  source?: string;
+}
+
+export interface DatasetManifest {
+  generated_at: string;
+  datasets: Partial<Record<DatasetName, DatasetManifestEntry>>;
+}
+
+export interface DatasetEnvelope {
+  dataset: DatasetName;
+  version: string;
+  records?: unknown[];
+  [key: string]: unknown;
+}
+
+export type RecordValidator<T> = (record: unknown) => record is T;
+
+// Type-guard helpers for record validation
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isOptionalString = (value: unknown): value is string | undefined =>
+  value === undefined || value === null || typeof value === 'string';
+
+// Persisted copies of the current version younger than this are used without
+// revalidating their ETag
+export const DATASET_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+
+async function fetchJSON(path: string, init?: RequestInit): Promise<unknown> {
+  const res = await fetch(path, init);
+  if (!res.ok) throw new Error(`Failed to load ${path} (${res.status})`);
+  return res.json();
+}
+
+// Memoized per session; a failed load is evicted so the next call retries.
+let manifestPromise: Promise<DatasetManifest> | null = null;
+
+export function loadManifest(): Promise<DatasetManifest> {
+  if (!manifestPromise) {
+    // `no-cache` makes the browser revalidate the manifest's ETag every session
+    manifestPromise = fetchJSON(`${DATA_BASE_PATH}/manifest.json`, { cache: 'no-cache' })
+      .then((json) => {
+        if (!isObject(json) || !isObject(json.datasets)) {
+          throw new Error('Invalid dataset manifest');
+        }
+        return json as unknown as DatasetManifest;
+      })
+      .catch((error) => {
+        manifestPromise = null;
+        throw error;
+      });
+  }
+  return manifestPromise;
+}
+
+export async function getDatasetEntry(name: DatasetName): Promise<DatasetManifestEntry> {
+  const manifest = await loadManifest();
+  const entry = manifest.datasets[name];
+  if (!entry) throw new Error(`Dataset "${name}" is not listed in the manifest`);
+  return entry;
+}
+
+export interface DatasetMetadata {
+  version: string;
+  published: string;
+  fromCache: boolean;
+}
+
+const envelopeCache = new Map<DatasetName, Promise<DatasetEnvelope>>();
+const metadata = new Map<DatasetName, DatasetMetadata>();
+const updateListeners = new Map<DatasetName, Set<() => void>>();
+
+// Called after a background revalidation swaps in a newer copy of `name`
+export function onDatasetUpdated(name: DatasetName, listener: () => void): () => void {
+  const listeners = updateListeners.get(name) ?? new Set();
+  listeners.add(listener);
+  updateListeners.set(name, listeners);
+  return () => listeners.delete(listener);
+}
+
+function parseEnvelope(name: DatasetName, entry: DatasetManifestEntry, json: unknown): DatasetEnvelope {
+  if (!isObject(json) || json.dataset !== name) {
+    throw new Error(`Dataset file ${entry.file} does not contain "${name}"`);
+  }
+  if (json.version !== entry.version) {
+    throw new Error(`Dataset "${name}" version mismatch: expected ${entry.version}, got ${String(json.version)}`);
+  }
+  return json as DatasetEnvelope;
+}
+
+// Download the manifest's current version of `name` and persist it.
+// With `etag`, a 304 response resolves to null (the persisted copy is current).
+async function downloadDataset(name: DatasetName, etag?: string | null): Promise<DatasetEnvelope | null> {
+  const entry = await getDatasetEntry(name);
+  const res = await fetch(`${DATA_BASE_PATH}/${entry.file}`, {
+    cache: 'no-store',
+    headers: etag ? { 'If-None-Match': etag } : undefined,
+  });
+  if (res.status === 304) return null;
+  if (!res.ok) throw new Error(`Failed to load ${DATA_BASE_PATH}/${entry.file} (${res.status})`);
+
+  const envelope = parseEnvelope(name, entry, await res.json());
+  await datasetCache.put<DatasetEnvelope>({
+    key: name,
+    version: entry.version,
+    published: entry.published,
+    etag: res.headers.get('ETag'),
+    storedAt: Date.now(),
+    envelope,
+  });
+  metadata.set(name, { version: entry.version, published: entry.published, fromCache: false });
+  return envelope;
+}
+
+// Check a persisted copy of the manifest's current version for a changed ETag
+// without blocking the caller. A changed file replaces the in-memory copy and
+// notifies listeners so memoized records and spatial indexes are rebuilt.
+function revalidateInBackground(name: DatasetName, cached: CachedDataset<DatasetEnvelope>): void {
+  downloadDataset(name, cached.etag)
+    .then(async (fresh) => {
+      if (!fresh) {
+        await datasetCache.put({ ...cached, storedAt: Date.now() });
+        return;
+      }
+      envelopeCache.set(name, Promise.resolve(fresh));
+      updateListeners.get(name)?.forEach((listener) => listener());
+    })
+    .catch((error) => console.warn(`Background revalidation of "${name}" failed:`, error));
+}
+
+export function loadDatasetEnvelope(name: DatasetName): Promise<DatasetEnvelope> {
+  let pending = envelopeCache.get(name);
+  if (!pending) {
+    pending = datasetCache
+      .get<DatasetEnvelope>(name)
+      .then(async (cached) => {
+        if (cached) {
+          // A persisted copy of an older version is replaced straight away; without
+          // a manifest (offline) whatever was persisted is used as-is
+          const manifest = await loadManifest().catch(() => null);
+          if (!manifest || manifest.datasets[name]?.version === cached.version) {
+            metadata.set(name, { version: cached.version, published: cached.published, fromCache: true });
+            if (manifest && Date.now() - cached.storedAt > DATASET_MAX_AGE_MS) revalidateInBackground(name, cached);
+            return cached.envelope;
+          }
+        }
+        return (await downloadDataset(name))!;
+      })
+      .catch((error) => {
+        envelopeCache.delete(name);
+        throw error;
+      });
+    envelopeCache.set(name, pending);
+  }
+  return pending;
+}
+
+// Version and publish date of the copy currently in use (loads it if needed)
+export async function getDatasetMetadata(name: DatasetName): Promise<DatasetMetadata> {
+  await loadDatasetEnvelope(name);
+  return metadata.get(name)!;
+}
+
+// Load a record-based dataset, keeping only the records that pass `validate`
+export async function loadDatasetRecords<T>(name: DatasetName, validate: RecordValidator<T>): Promise<T[]> {
+  const envelope = await loadDatasetEnvelope(name);
+  if (!Array.isArray(envelope.records)) {
+    throw new Error(`Dataset "${name}" has no records array`);
+  }
+  const valid = envelope.records.filter(validate);
+  const dropped = envelope.records.length - valid.length;
+  if (dropped > 0) {
+    console.warn(`Dropped ${dropped} malformed ${name} record(s) from version ${envelope.version}`);
+  }
+  return valid;
+}
@@ -0,0 +1,107 @@
+import axios, { AxiosError } from 'axios';
+import {
+  ApiError,
+  HealthCheck,
+  ParkingSign,
+  MeterRate,
+  ViolationTrend,
+  Violation,
+  ViolationsResponse,
+  DataStatus,
+  SearchArea,
+} from '../types';
+import { constants } from '../utils';
+import type { DataSource, RequestOptions } from './dataSource';
+import { withParsedRules } from '../regulations/signParser';
+
+// Errors thrown by the HTTP source are real Errors (so pages can show
+// `error.message`) that also carry the ApiError fields for `errorUtils.isApiError`.
+export type ApiRequestError = Error & ApiError;
+
+export function toApiError(error: unknown): ApiRequestError {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<{ message?: string; error?: string }>;
+    const response = axiosError.response;
+    const serverMessage = response?.data?.message || response?.data?.error;
+
+    let message: string;
+    if (response) {
+      message = serverMessage || `Request failed with status ${response.status}`;
+    } else if (axiosError.code === AxiosError.ECONNABORTED || axiosError.code === AxiosError.ETIMEDOUT) {
+      message = `Request timeout after ${constants.API_TIMEOUT_MS / 1000}s`;
+    } else {
+      message = 'Network Error: unable to reach the parking data service';
+    }
+
+    return Object.assign(new Error(message), {
+      code: axiosError.code || (response ? 'HTTP_ERROR' : 'NETWORK_ERROR'),
+      status: response?.status ?? 0,
+      details: {
+        url: axiosError.config?.url,
+        method: axiosError.config?.method,
+        ...(response?.data && typeof response.data === 'object' ? { response: response.data } : {}),
+      },
+    });
+  }
+
+  const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+  return Object.assign(new Error(message), { code: 'UNKNOWN_ERROR', status: 0 });
+}
+
+// Areas travel as `bbox=west,south,east,north` or `polygon=[[lon,lat],...]`
+export function toAreaParams(params: object): Record<string, unknown> {
+  const { area, ...rest } = params as { area?: SearchArea };
+  if (!area) return rest;
+  return area.type === 'bbox'
+    ? { ...rest, bbox: [area.west, area.south, area.east, area.north].join(',') }
+    : { ...rest, polygon: JSON.stringify(area.coordinates) };
+}
+
+// Data source for the Flask backend documented in the README
+export function createHttpDataSource(baseURL: string): DataSource {
+  const client = axios.create({
+    baseURL,
+    timeout: constants.API_TIMEOUT_MS,
+    headers: { Accept: 'application/json' },
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    (error) => Promise.reject(toApiError(error))
+  );
+
+  const get = async <T>(url: string, params?: object, options?: RequestOptions): Promise<T> => {
+    const { data } = await client.get<T>(url, { params, signal: options?.signal });
+    return data;
+  };
+
+  return {
+    checkHealth: () => get<HealthCheck>('/health'),
+
+    // The backend returns raw descriptions; structured rules are parsed client-side
+    getParkingSigns: async (params, options) =>
+      (await get<ParkingSign[]>('/parking-signs', toAreaParams(params), options)).map(withParsedRules),
+
+    getMeterRate: (params, options) => get<MeterRate>('/meter-rate', params, options),
+
+    getMeterRates: (params, options) =>
+      get<MeterRate[]>('/meter-rates', { ...toAreaParams(params), status: params.status?.join(',') }, options),
+
+    getViolationTrends: (params, options) => get<ViolationTrend[]>('/violation-trends', params, options),
+
+    getViolations: async ({ time_slot, ...params }, options) => {
+      const query = {
+        ...toAreaParams(params),
+        ...(time_slot && { day_of_week: time_slot.day, hour: time_slot.hour, slot_violation_type: time_slot.violation_type }),
+      };
+      const data = await get<Violation[] | ViolationsResponse>('/violations', query, options);
+      // Older backends return a bare array without a total count
+      if (Array.isArray(data)) {
+        return { violations: data, total: data.length, limit: params.limit ?? data.length, offset: params.offset ?? 0 };
+      }
+      return data;
+    },
+
+    getDataStatus: () => get<DataStatus>('/debug/data-status'),
+  };
+}
@@ -0,0 +1,84 @@
+import { isFiniteNumber, isObject, loadDatasetRecords, onDatasetUpdated } from './datasetLoader';
+import type { VehicleClass } from '../types';
+
+// One line of a zone's rate table; `hours` uses sign grammar, e.g. "MON-SAT 9AM-7PM"
+export interface RawMeterRateSchedule {
+  vehicle_class: VehicleClass;
+  hours: string;
+  hourly_rate: number;
+  max_minutes?: number;
+}
+
+// DOT meter rate zone. A meter belongs to the first zone in the file whose
+// borough matches and whose bounds (when given) contain it.
+export interface RawMeterRateZone {
+  zone_id: string;
+  name: string;
+  borough: string;
+  bounds?: { north: number; south: number; east: number; west: number };
+  payment_methods: string[];
+  schedules: RawMeterRateSchedule[];
+}
+
+function isRawMeterRateSchedule(record: unknown): record is RawMeterRateSchedule {
+  return (
+    isObject(record) &&
+    (record.vehicle_class === 'passenger' || record.vehicle_class === 'commercial') &&
+    typeof record.hours === 'string' &&
+    isFiniteNumber(record.hourly_rate) &&
+    (record.max_minutes === undefined || isFiniteNumber(record.max_minutes))
+  );
+}
+
+export function isRawMeterRateZone(record: unknown): record is RawMeterRateZone {
+  if (!isObject(record)) return false;
+  const { bounds } = record;
+  return (
+    typeof record.zone_id === 'string' &&
+    typeof record.name === 'string' &&
+    typeof record.borough === 'string' &&
+    (bounds === undefined ||
+      (isObject(bounds) &&
+        isFiniteNumber(bounds.north) &&
+        isFiniteNumber(bounds.south) &&
+        isFiniteNumber(bounds.east) &&
+        isFiniteNumber(bounds.west))) &&
+    Array.isArray(record.payment_methods) &&
+    record.payment_methods.every((m) => typeof m === 'string') &&
+    Array.isArray(record.schedules) &&
+    record.schedules.every(isRawMeterRateSchedule)
+  );
+}
+
+let zonesPromise: Promise<RawMeterRateZone[]> | null = null;
+onDatasetUpdated('meter_rate_zones', () => {
+  zonesPromise = null;
+});
+
+export function loadMeterRateZonesRaw(): Promise<RawMeterRateZone[]> {
+  if (!zonesPromise) {
+    zonesPromise = loadDatasetRecords('meter_rate_zones', isRawMeterRateZone).catch((error) => {
+      zonesPromise = null;
+      throw error;
+    });
+  }
+  return zonesPromise;
+}
+
+export function findMeterRateZone(
+  zones: RawMeterRateZone[],
+  borough: string | undefined,
+  latitude: number,
+  longitude: number
+): RawMeterRateZone | undefined {
+  const key = borough?.trim().toLowerCase();
+  return zones.find(
+    (zone) =>
+      zone.borough.toLowerCase() === key &&
+      (!zone.bounds ||
+        (latitude <= zone.bounds.north &&
+          latitude >= zone.bounds.south &&
+          longitude <= zone.bounds.east &&
+          longitude >= zone.bounds.west))
+  );
+}
@@ -0,0 +1,50 @@
+import { isFiniteNumber, isObject, isOptionalString, loadDatasetRecords, onDatasetUpdated } from './datasetLoader';
+
+// Row shape of the NYC "Parking Meters Locations and Status" extract
+export interface RawMeterZone {
+  meter_number: string;
+  status?: string; // Active | Inactive | Maintenance
+  pay_by_cell_number?: string;
+  meter_hours: string;
+  facility?: string;
+  borough?: string;
+  on_street: string;
+  side_of_street?: string;
+  from_street?: string;
+  to_street?: string;
+  lat: number;
+  long: number;
+}
+
+export function isRawMeterZone(record: unknown): record is RawMeterZone {
+  return (
+    isObject(record) &&
+    typeof record.meter_number === 'string' &&
+    typeof record.meter_hours === 'string' &&
+    typeof record.on_street === 'string' &&
+    isFiniteNumber(record.lat) &&
+    isFiniteNumber(record.long) &&
+    isOptionalString(record.status) &&
+    isOptionalString(record.pay_by_cell_number) &&
+    isOptionalString(record.facility) &&
+    isOptionalString(record.borough) &&
+    isOptionalString(record.side_of_street) &&
+    isOptionalString(record.from_street) &&
+    isOptionalString(record.to_street)
+  );
+}
+
+let metersPromise: Promise<RawMeterZone[]> | null = null;
+onDatasetUpdated('meter_zones', () => {
+  metersPromise = null;
+});
+
+export function loadMeterZonesRaw(): Promise<RawMeterZone[]> {
+  if (!metersPromise) {
+    metersPromise = loadDatasetRecords('meter_zones', isRawMeterZone).catch((error) => {
+      metersPromise = null;
+      throw error;
+    });
+  }
+  return metersPromise;
+}
@@ -0,0 +1,46 @@
+import { isFiniteNumber, isObject, isOptionalString, loadDatasetRecords, onDatasetUpdated } from './datasetLoader';
+
+// Row shape of the NYC "Parking Regulation Locations and Signs" extract
+export interface RawParkingSign {
+  sign_id: string;
+  sign_code?: string;
+  sign_description: string;
+  street_name: string;
+  from_street?: string;
+  to_street?: string;
+  side_of_street?: string; // N | S | E | W
+  borough?: string;
+  latitude: number;
+  longitude: number;
+}
+
+export function isRawParkingSign(record: unknown): record is RawParkingSign {
+  return (
+    isObject(record) &&
+    typeof record.sign_id === 'string' &&
+    typeof record.sign_description === 'string' &&
+    typeof record.street_name === 'string' &&
+    isFiniteNumber(record.latitude) &&
+    isFiniteNumber(record.longitude) &&
+    isOptionalString(record.sign_code) &&
+    isOptionalString(record.from_street) &&
+    isOptionalString(record.to_street) &&
+    isOptionalString(record.side_of_street) &&
+    isOptionalString(record.borough)
+  );
+}
+
+let signsPromise: Promise<RawParkingSign[]> | null = null;
+onDatasetUpdated('parking_signs', () => {
+  signsPromise = null;
+});
+
+export function loadParkingSignsRaw(): Promise<RawParkingSign[]> {
+  if (!signsPromise) {
+    signsPromise = loadDatasetRecords('parking_signs', isRawParkingSign).catch((error) => {
+      signsPromise = null;
+      throw error;
+    });
+  }
+  return signsPromise;
+}
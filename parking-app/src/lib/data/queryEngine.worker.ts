@@ -0,0 +1,62 @@
+// Query engine worker: loads the static datasets and answers spatial queries
+// off the main thread so map panning stays smooth. Speaks workerProtocol.ts.
+
+import { staticDataSource } from './staticDataSource';
+import type { QueryRequest, WorkerRequest, WorkerResponse } from './workerProtocol';
+import type { RequestOptions } from './dataSource';
+
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+};
+
+const inFlight = new Map<number, AbortController>();
+
+function runQuery(request: QueryRequest, options: RequestOptions): Promise<unknown> {
+  switch (request.method) {
+    case 'checkHealth':
+      return staticDataSource.checkHealth();
+    case 'getParkingSigns':
+      return staticDataSource.getParkingSigns(request.params, options);
+    case 'getMeterRate':
+      return staticDataSource.getMeterRate(request.params, options);
+    case 'getMeterRates':
+      return staticDataSource.getMeterRates(request.params, options);
+    case 'getViolationTrends':
+      return staticDataSource.getViolationTrends(request.params, options);
+    case 'getViolations':
+      return staticDataSource.getViolations(request.params, options);
+    case 'getDataStatus':
+      return staticDataSource.getDataStatus();
+  }
+}
+
+scope.addEventListener('message', async (event) => {
+  const request = event.data;
+
+  if (request.kind === 'cancel') {
+    inFlight.get(request.id)?.abort();
+    inFlight.delete(request.id);
+    return;
+  }
+
+  const controller = new AbortController();
+  inFlight.set(request.id, controller);
+  try {
+    const result = await runQuery(request, { signal: controller.signal });
+    if (!controller.signal.aborted) scope.postMessage({ kind: 'result', id: request.id, result });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    scope.postMessage({
+      kind: 'error',
+      id: request.id,
+      error: {
+        message: error instanceof Error ? error.message : 'Query failed',
+        code: (error as { code?: string })?.code || 'WORKER_QUERY_ERROR',
+        status: (error as { status?: number })?.status ?? 0,
+      },
+    });
+  } finally {
+    inFlight.delete(request.id);
+  }
+});
@@ -0,0 +1,286 @@
+import { HealthCheck, MeterRate, MeterStatus, ParkingSign, DataStatus, Violation, Borough, RadiusQuery, AreaQuery } from '../types';
+import { constants } from '../utils';
+import type { DataSource } from './dataSource';
+import { loadParkingSignsRaw, RawParkingSign } from './parkingSignsProvider';
+import { loadMeterZonesRaw, RawMeterZone } from './meterRatesProvider';
+import { findMeterRateZone, loadMeterRateZonesRaw, RawMeterRateZone } from './meterRateZonesProvider';
+import { loadViolationsRaw, RawViolation } from './violationsProvider';
+import { createSpatialIndex, SpatialIndex, SpatialMatch } from '../utils/spatialIndex';
+import { areaBounds, areaCenter, estimateWalk, haversineDistance, isInArea } from '../utils/geospatial';
+import { getDatasetMetadata, DatasetName } from './datasetLoader';
+import { describeRule, parseSignDescription, ParsedSign } from '../regulations/signParser';
+import { buildRatePeriods, describeTimeLimit, toRateSchedule } from '../regulations/meterRates';
+import { computeViolationTrends, createTrendCube, DEFAULT_TREND_THRESHOLDS, TrendCube } from '../analytics/violationTrends';
+import { countTimeSlots, matchesTimeSlot } from '../analytics/timeMatrix';
+
+// "Staten Island" -> "staten_island"
+const toBoroughKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '_');
+
+function toViolation(v: RawViolation): Violation {
+  return {
+    id: v.summons_number,
+    latitude: v.latitude,
+    longitude: v.longitude,
+    violation_type: v.violation_description,
+    fine_amount: v.fine_amount,
+    issue_date: v.issue_date,
+    vehicle_make: v.vehicle_make,
+    vehicle_color: v.vehicle_color,
+    street_name: v.street_name,
+    house_number: v.house_number,
+    intersecting_street: v.intersecting_street,
+    borough: toBoroughKey(v.borough) as Borough,
+    plate_type: v.plate_type,
+    issuing_agency: v.issuing_agency,
+    violation_status: v.violation_status,
+  };
+}
+
+// Build each dataset's spatial index once, keyed on the memoized raw array so a
+// reloaded dataset gets a fresh index.
+function indexedBy<T>(
+  load: () => Promise<T[]>,
+  getPosition: (item: T) => { latitude: number; longitude: number }
+): () => Promise<SpatialIndex<T>> {
+  const indexes = new WeakMap<T[], SpatialIndex<T>>();
+  return async () => {
+    const raw = await load();
+    let index = indexes.get(raw);
+    if (!index) {
+      index = createSpatialIndex(raw, getPosition);
+      indexes.set(raw, index);
+    }
+    return index;
+  };
+}
+
+// Sign descriptions are parsed lazily, once per raw record
+const parsedSigns = new WeakMap<RawParkingSign, ParsedSign>();
+function parseSign(sign: RawParkingSign): ParsedSign {
+  let parsed = parsedSigns.get(sign);
+  if (!parsed) {
+    parsed = parseSignDescription(sign.sign_description);
+    parsedSigns.set(sign, parsed);
+  }
+  return parsed;
+}
+
+const meterPosition = (z: RawMeterZone) => ({ latitude: z.lat, longitude: z.long });
+
+const getSignIndex = indexedBy<RawParkingSign>(loadParkingSignsRaw, (s) => s);
+const getMeterIndex = indexedBy<RawMeterZone>(loadMeterZonesRaw, meterPosition);
+const getViolationIndex = indexedBy<RawViolation>(loadViolationsRaw, (v) => v);
+
+// Items within the radius, or inside the area measured from its centre; nearest first
+function spatialQuery<T>(
+  index: SpatialIndex<T>,
+  query: RadiusQuery | AreaQuery,
+  getPosition: (item: T) => { latitude: number; longitude: number }
+): SpatialMatch<T>[] {
+  if (!('area' in query)) return index.withinRadius(query.lat, query.lon, query.radius);
+  const { area } = query;
+  const [centerLat, centerLon] = areaCenter(area);
+  const matches: SpatialMatch<T>[] = [];
+  for (const item of index.withinBounds(areaBounds(area))) {
+    const { latitude, longitude } = getPosition(item);
+    if (!isInArea(latitude, longitude, area)) continue;
+    matches.push({ item, distance: haversineDistance(centerLat, centerLon, latitude, longitude) });
+  }
+  return matches.sort((a, b) => a.distance - b.distance);
+}
+
+// Trend counts are bucketed once per loaded violations extract
+const trendCubes = new WeakMap<RawViolation[], TrendCube>();
+async function getTrendCube(): Promise<TrendCube> {
+  const raw = await loadViolationsRaw();
+  let cube = trendCubes.get(raw);
+  if (!cube) {
+    cube = createTrendCube(
+      raw.map((v) => ({
+        borough: toBoroughKey(v.borough),
+        violation_type: v.violation_description,
+        fine_amount: v.fine_amount,
+        issue_date: v.issue_date,
+      }))
+    );
+    trendCubes.set(raw, cube);
+  }
+  return cube;
+}
+
+const toMeterStatus = (status?: string) => (status || 'unknown').toLowerCase() as MeterStatus;
+
+function toMeterRate(z: RawMeterZone, distance: number, zones: RawMeterRateZone[]): MeterRate {
+  const zone = findMeterRateZone(zones, z.borough, z.lat, z.long);
+  const periods = zone ? buildRatePeriods(zone, z.meter_hours) : [];
+  const walk = estimateWalk(distance);
+  return {
+    id: z.meter_number,
+    latitude: z.lat,
+    longitude: z.long,
+    distance,
+    walking_distance: walk.distance,
+    walking_minutes: walk.minutes,
+    // Meters outside every rate zone only report their hours
+    rate_schedule: zone ? toRateSchedule(periods) : [{ hours: z.meter_hours, rate: 'Unknown', rate_type: 'hourly' }],
+    rate_periods: periods,
+    rate_zone: zone?.name,
+    status: toMeterStatus(z.status),
+    street_name: z.on_street,
+    meter_type: z.facility,
+    max_time_limit: describeTimeLimit(periods),
+    payment_methods: zone
+      ? [...zone.payment_methods, ...(z.pay_by_cell_number ? [`ParkNYC zone ${z.pay_by_cell_number}`] : [])]
+      : undefined,
+    borough: z.borough?.toLowerCase(),
+  } as MeterRate;
+}
+
+// Client-only data source backed by static assets (no Python backend)
+export const staticDataSource: DataSource = {
+  async checkHealth(): Promise<HealthCheck> {
+    return {
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      services: { api: 'online' },
+    } as HealthCheck;
+  },
+
+  async getParkingSigns(params, options) {
+    const index = await getSignIndex();
+    options?.signal?.throwIfAborted();
+    // Only signs inside the radius or area are mapped; results come back nearest first
+    const matches = spatialQuery(index, params, (s) => s);
+    return (params.limit !== undefined ? matches.slice(0, params.limit) : matches).map(({ item: s, distance }) => {
+      const { rules, arrow } = parseSign(s);
+      return {
+        id: s.sign_id,
+        latitude: s.latitude,
+        longitude: s.longitude,
+        distance,
+        description: s.sign_description,
+        street_name: s.street_name,
+        from_street: s.from_street,
+        to_street: s.to_street,
+        side_of_street: s.side_of_street,
+        regulations: rules.map(describeRule),
+        rules,
+        arrow,
+        borough: s.borough?.toLowerCase(),
+      };
+    }) as ParkingSign[];
+  },
+
+  async getMeterRate(params, options) {
+    const [index, zones] = await Promise.all([getMeterIndex(), loadMeterRateZonesRaw()]);
+    options?.signal?.throwIfAborted();
+    const [best] = index.nearest(params.lat, params.lon, 1);
+    if (!best) throw new Error('No meter found');
+    return toMeterRate(best.item, best.distance, zones);
+  },
+
+  async getMeterRates(params, options) {
+    const [index, zones] = await Promise.all([getMeterIndex(), loadMeterRateZonesRaw()]);
+    options?.signal?.throwIfAborted();
+    const statuses = params.status?.length ? new Set<string>(params.status) : null;
+    // Filter before limiting so `limit` counts only meters that match. Areas
+    // list every meter inside unless a limit is given.
+    const limit = params.limit ?? ('area' in params ? undefined : constants.METER_RESULTS_LIMIT);
+    const matches = spatialQuery(index, params, meterPosition)
+      .filter(({ item }) => !statuses || statuses.has(toMeterStatus(item.status)));
+    return (limit !== undefined ? matches.slice(0, limit) : matches)
+      .map(({ item, distance }) => toMeterRate(item, distance, zones));
+  },
+
+  async getViolationTrends(params, options) {
+    const cube = await getTrendCube();
+    options?.signal?.throwIfAborted();
+    return computeViolationTrends(cube, params, {
+      stable_percent: params.stable_threshold ?? DEFAULT_TREND_THRESHOLDS.stable_percent,
+      min_count: params.min_count ?? DEFAULT_TREND_THRESHOLDS.min_count,
+    });
+  },
+
+  async getViolations(params, options) {
+    const { lat, lon, radius, area, borough, violation_type, start_date, end_date, time_slot } = params;
+    const byRadius = lat !== undefined && lon !== undefined && radius !== undefined && radius > 0;
+    const type = violation_type?.toLowerCase();
+
+    // Narrow spatially first so the attribute filters only see nearby rows
+    const candidates = area
+      ? spatialQuery(await getViolationIndex(), { area }, (v) => v).map((m) => m.item)
+      : byRadius
+        ? (await getViolationIndex()).withinRadius(lat, lon, radius).map((m) => m.item)
+        : await loadViolationsRaw();
+    options?.signal?.throwIfAborted();
+
+    const matches = candidates.filter((v) => {
+      if (borough && toBoroughKey(v.borough) !== borough) return false;
+      if (type && v.violation_description.toLowerCase() !== type) return false;
+      // Dates compare as YYYY-MM-DD strings; both bounds are inclusive
+      const day = v.issue_date.slice(0, 10);
+      if (start_date && day < start_date) return false;
+      if (end_date && day > end_date) return false;
+      return true;
+    });
+
+    // The matrix covers the whole query, so a selected slot does not narrow it
+    const timeMatrix = params.time_matrix
+      ? countTimeSlots(matches.map((v) => ({ issue_date: v.issue_date, violation_type: v.violation_description })))
+      : undefined;
+    const slotType = time_slot?.violation_type?.toLowerCase();
+    const inSlot = time_slot
+      ? matches.filter(
+          (v) => matchesTimeSlot(v, time_slot) && (!slotType || v.violation_description.toLowerCase() === slotType)
+        )
+      : matches;
+
+    // Most recent first; the extract is stored oldest first
+    inSlot.sort((a, b) => b.issue_date.localeCompare(a.issue_date));
+
+    const limit = Math.min(Math.max(params.limit ?? constants.VIOLATIONS_PAGE_SIZE, 0), constants.MAX_VIOLATIONS_LIMIT);
+    const offset = Math.max(params.offset ?? 0, 0);
+    return {
+      violations: inSlot.slice(offset, offset + limit).map(toViolation),
+      total: inSlot.length,
+      limit,
+      offset,
+      ...(timeMatrix && { time_matrix: timeMatrix }),
+    };
+  },
+
+  async getDataStatus(): Promise<DataStatus> {
+    // Compute from static assets; dates are the extracts' publish dates
+    const published = (name: DatasetName) =>
+      getDatasetMetadata(name).then((m) => m.published).catch(() => '');
+    const [signs, meters, violations, signsPublished, metersPublished, violationsPublished] = await Promise.all([
+      loadParkingSignsRaw().catch(() => []),
+      loadMeterZonesRaw().catch(() => []),
+      loadViolationsRaw().catch(() => []),
+      published('parking_signs'),
+      published('meter_zones'),
+      published('violations'),
+    ]);
+    const today = new Date().toISOString().slice(0, 10);
+    return {
+      parking_signs: {
+        total_count: signs.length,
+        last_updated: signsPublished,
+        coverage_areas: ['Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'],
+      },
+      meter_rates: {
+        total_count: meters.length,
+        last_updated: metersPublished,
+        coverage_areas: ['Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'],
+      },
+      violations: {
+        total_count: violations.length,
+        last_updated: violationsPublished,
+        // The extract is stored oldest first
+        date_range: violations.length
+          ? { start: violations[0].issue_date.slice(0, 10), end: violations[violations.length - 1].issue_date.slice(0, 10) }
+          : { start: '2020-01-01', end: today },
+      },
+    } as DataStatus;
+  },
+};
@@ -0,0 +1,59 @@
+import { isFiniteNumber, isObject, isOptionalString, loadDatasetRecords, onDatasetUpdated } from './datasetLoader';
+
+// Row shape of the geocoded NYC "Parking Violations Issued" extract
+export interface RawViolation {
+  summons_number: string;
+  violation_description: string;
+  fine_amount: number;
+  issue_date: string; // local ISO timestamp, e.g. 2024-03-05T08:34:00
+  street_name?: string;
+  house_number?: string;
+  intersecting_street?: string;
+  borough: string;
+  plate_type?: string;
+  vehicle_make?: string;
+  vehicle_color?: string;
+  issuing_agency?: string;
+  violation_status?: 'paid' | 'pending' | 'dismissed';
+  latitude: number;
+  longitude: number;
+}
+
+const VIOLATION_STATUSES = ['paid', 'pending', 'dismissed'];
+
+export function isRawViolation(record: unknown): record is RawViolation {
+  return (
+    isObject(record) &&
+    typeof record.summons_number === 'string' &&
+    typeof record.violation_description === 'string' &&
+    isFiniteNumber(record.fine_amount) &&
+    typeof record.issue_date === 'string' &&
+    !Number.isNaN(Date.parse(record.issue_date)) &&
+    typeof record.borough === 'string' &&
+    isFiniteNumber(record.latitude) &&
+    isFiniteNumber(record.longitude) &&
+    isOptionalString(record.street_name) &&
+    isOptionalString(record.house_number) &&
+    isOptionalString(record.intersecting_street) &&
+    isOptionalString(record.plate_type) &&
+    isOptionalString(record.vehicle_make) &&
+    isOptionalString(record.vehicle_color) &&
+    isOptionalString(record.issuing_agency) &&
+    (record.violation_status === undefined || VIOLATION_STATUSES.includes(record.violation_status as string))
+  );
+}
+
+let violationsPromise: Promise<RawViolation[]> | null = null;
+onDatasetUpdated('violations', () => {
+  violationsPromise = null;
+});
+
+export function loadViolationsRaw(): Promise<RawViolation[]> {
+  if (!violationsPromise) {
+    violationsPromise = loadDatasetRecords('violations', isRawViolation).catch((error) => {
+      violationsPromise = null;
+      throw error;
+    });
+  }
+  return violationsPromise;
+}
@@ -0,0 +1,107 @@
+import type { DataSource, RequestOptions } from './dataSource';
+import type { QueryMethod, QueryParams, QueryResult, WorkerRequest, WorkerResponse } from './workerProtocol';
+import type { ApiRequestError } from './httpDataSource';
+
+interface PendingQuery {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const abortError = (signal: AbortSignal) =>
+  signal.reason instanceof Error ? signal.reason : new DOMException('Query was cancelled', 'AbortError');
+
+// Main-thread proxy that forwards DataSource calls to the query engine worker.
+// If the worker cannot start, calls run on `fallback` in the main thread instead.
+export function createWorkerDataSource(createWorker: () => Worker, fallback: DataSource): DataSource {
+  let worker: Worker | null = null;
+  let failed = false;
+  let nextId = 1;
+  const pending = new Map<number, PendingQuery>();
+
+  const failAll = (error: unknown) => {
+    pending.forEach((query) => query.reject(error));
+    pending.clear();
+  };
+
+  const getWorker = (): Worker | null => {
+    if (worker || failed) return worker;
+    try {
+      worker = createWorker();
+    } catch (error) {
+      console.warn('Query worker unavailable, running queries on the main thread:', error);
+      failed = true;
+      return null;
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const query = pending.get(response.id);
+      if (!query) return; // cancelled
+      pending.delete(response.id);
+      if (response.kind === 'result') {
+        query.resolve(response.result);
+      } else {
+        const error: ApiRequestError = Object.assign(new Error(response.error.message), {
+          code: response.error.code,
+          status: response.error.status,
+        });
+        query.reject(error);
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      console.warn('Query worker crashed, running queries on the main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      failed = true;
+      failAll(new Error(event.message || 'Query worker failed'));
+    });
+
+    return worker;
+  };
+
+  function send<M extends QueryMethod>(method: M, params: QueryParams<M>, options?: RequestOptions): Promise<QueryResult<M>> {
+    const target = getWorker();
+    if (!target) {
+      // Same call on the main thread; `fallback[method]` is typed loosely by TS here
+      const run = fallback[method] as (p: QueryParams<M>, o?: RequestOptions) => Promise<QueryResult<M>>;
+      return run(params, options);
+    }
+
+    const signal = options?.signal;
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    const id = nextId++;
+    return new Promise<QueryResult<M>>((resolve, reject) => {
+      const onAbort = () => {
+        pending.delete(id);
+        target.postMessage({ kind: 'cancel', id } satisfies WorkerRequest);
+        reject(abortError(signal!));
+      };
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      pending.set(id, {
+        resolve: (result) => {
+          cleanup();
+          resolve(result as QueryResult<M>);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      target.postMessage({ kind: 'query', id, method, params } as WorkerRequest);
+    });
+  }
+
+  return {
+    checkHealth: () => send('checkHealth', undefined),
+    getParkingSigns: (params, options) => send('getParkingSigns', params, options),
+    getMeterRate: (params, options) => send('getMeterRate', params, options),
+    getMeterRates: (params, options) => send('getMeterRates', params, options),
+    getViolationTrends: (params, options) => send('getViolationTrends', params, options),
+    getViolations: (params, options) => send('getViolations', params, options),
+    getDataStatus: () => send('getDataStatus', undefined),
+  };
+}
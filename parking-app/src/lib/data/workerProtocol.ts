@@ -0,0 +1,33 @@
+// Message protocol between the main thread and the query engine worker.
+// Method names, params and results are derived from DataSource so the two
+// sides cannot drift apart.
+
+import type { DataSource } from './dataSource';
+
+export type QueryMethod = keyof DataSource;
+
+export type QueryParams<M extends QueryMethod> = Parameters<DataSource[M]>[0];
+
+export type QueryResult<M extends QueryMethod> = Awaited<ReturnType<DataSource[M]>>;
+
+export type QueryRequest = {
+  [M in QueryMethod]: { kind: 'query'; id: number; method: M; params: QueryParams<M> };
+}[QueryMethod];
+
+export interface CancelRequest {
+  kind: 'cancel';
+  id: number;
+}
+
+export type WorkerRequest = QueryRequest | CancelRequest;
+
+// Errors cross the worker boundary as plain ApiError-shaped objects
+export interface SerializedError {
+  message: string;
+  code: string;
+  status: number;
+}
+
+export type WorkerResponse =
+  | { kind: 'result'; id: number; result: unknown }
+  | { kind: 'error'; id: number; error: SerializedError };
@@ -0,0 +1,158 @@
+// Bundled MapLibre style for the self-hosted basemap. It reads vector tiles in
+// the Protomaps basemap schema (earth, water, landuse, roads, buildings,
+// places), which is what `pmtiles extract` of a Protomaps build produces.
+// Tiles and glyphs live in public/basemap, which is not checked in; the style
+// leaves out whatever is missing rather than requesting it.
+
+import type { Style } from 'mapbox-gl';
+
+export const BASEMAP_FONT = 'Noto Sans Regular';
+export const BASEMAP_FONT_MEDIUM = 'Noto Sans Medium';
+export const BASEMAP_GLYPHS = '/basemap/fonts/{fontstack}/{range}.pbf';
+
+// URL of a font's first glyph range, used to check that the glyphs are installed
+export const basemapGlyphUrl = (font: string) =>
+  BASEMAP_GLYPHS.replace('{fontstack}', encodeURIComponent(font)).replace('{range}', '0-255');
+
+const SOURCE = 'basemap';
+
+const COLORS = {
+  background: '#e5e7eb',
+  earth: '#f4f4f2',
+  water: '#a5cdea',
+  park: '#cfe8c6',
+  landuse: '#ececea',
+  building: '#dedcd8',
+  buildingOutline: '#cfcac3',
+  highway: '#fcd68a',
+  majorRoad: '#ffffff',
+  minorRoad: '#ffffff',
+  path: '#d6d3d1',
+  casing: '#d4d4d4',
+  rail: '#b8b8b8',
+  label: '#4b5563',
+  halo: '#ffffff',
+};
+
+export interface BasemapAssets {
+  // A `pmtiles://` archive or a `{z}/{x}/{y}` tile URL template (e.g. an MBTiles
+  // file behind a tile server); undefined draws the background only
+  tiles?: string;
+  // Whether the glyphs are installed; without them there are no text labels
+  glyphs: boolean;
+}
+
+// Typed with mapbox-gl's style spec, which react-map-gl's Map props expect;
+// everything the style uses means the same in MapLibre
+export function basemapStyle({ tiles, glyphs }: BasemapAssets): Style {
+  const source = tiles && (/\{z\}/.test(tiles)
+    ? { type: 'vector' as const, tiles: [tiles], maxzoom: 14 }
+    : { type: 'vector' as const, url: tiles });
+
+  const layers: Style['layers'] = [
+    { id: 'background', type: 'background', paint: { 'background-color': COLORS.background } },
+    { id: 'earth', type: 'fill', source: SOURCE, 'source-layer': 'earth', paint: { 'fill-color': COLORS.earth } },
+    {
+      id: 'landuse',
+      type: 'fill',
+      source: SOURCE,
+      'source-layer': 'landuse',
+      paint: {
+        'fill-color': [
+          'match',
+          ['get', 'kind'],
+          ['park', 'nature_reserve', 'garden', 'golf_course', 'cemetery', 'grass', 'wood', 'forest'],
+          COLORS.park,
+          COLORS.landuse,
+        ],
+      },
+    },
+    { id: 'water', type: 'fill', source: SOURCE, 'source-layer': 'water', paint: { 'fill-color': COLORS.water } },
+    {
+      id: 'buildings',
+      type: 'fill',
+      source: SOURCE,
+      'source-layer': 'buildings',
+      minzoom: 14,
+      paint: { 'fill-color': COLORS.building, 'fill-outline-color': COLORS.buildingOutline },
+    },
+    {
+      id: 'roads-casing',
+      type: 'line',
+      source: SOURCE,
+      'source-layer': 'roads',
+      filter: ['in', ['get', 'kind'], ['literal', ['highway', 'major_road', 'minor_road']]],
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': COLORS.casing,
+        'line-width': ['interpolate', ['exponential', 1.6], ['zoom'], 12, 1.5, 16, 9, 19, 30],
+      },
+    },
+    {
+      id: 'roads-path',
+      type: 'line',
+      source: SOURCE,
+      'source-layer': 'roads',
+      minzoom: 14,
+      filter: ['==', ['get', 'kind'], 'path'],
+      paint: { 'line-color': COLORS.path, 'line-width': 1, 'line-dasharray': [2, 1] },
+    },
+    {
+      id: 'roads',
+      type: 'line',
+      source: SOURCE,
+      'source-layer': 'roads',
+      filter: ['in', ['get', 'kind'], ['literal', ['highway', 'major_road', 'minor_road']]],
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': ['match', ['get', 'kind'], 'highway', COLORS.highway, 'major_road', COLORS.majorRoad, COLORS.minorRoad],
+        'line-width': ['interpolate', ['exponential', 1.6], ['zoom'], 12, 0.5, 16, 7, 19, 26],
+      },
+    },
+    {
+      id: 'rail',
+      type: 'line',
+      source: SOURCE,
+      'source-layer': 'roads',
+      filter: ['==', ['get', 'kind'], 'rail'],
+      paint: { 'line-color': COLORS.rail, 'line-width': 1, 'line-dasharray': [3, 2] },
+    },
+    {
+      id: 'road-labels',
+      type: 'symbol',
+      source: SOURCE,
+      'source-layer': 'roads',
+      minzoom: 14,
+      filter: ['in', ['get', 'kind'], ['literal', ['highway', 'major_road', 'minor_road']]],
+      layout: {
+        'symbol-placement': 'line',
+        'text-field': ['get', 'name'],
+        'text-font': [BASEMAP_FONT],
+        'text-size': ['interpolate', ['linear'], ['zoom'], 14, 10, 18, 14],
+      },
+      paint: { 'text-color': COLORS.label, 'text-halo-color': COLORS.halo, 'text-halo-width': 1.5 },
+    },
+    {
+      id: 'place-labels',
+      type: 'symbol',
+      source: SOURCE,
+      'source-layer': 'places',
+      filter: ['in', ['get', 'kind'], ['literal', ['locality', 'neighbourhood', 'macrohood']]],
+      layout: {
+        'text-field': ['get', 'name'],
+        'text-font': [BASEMAP_FONT_MEDIUM],
+        'text-size': ['match', ['get', 'kind'], 'locality', 14, 11],
+        'text-transform': ['match', ['get', 'kind'], 'locality', 'none', 'uppercase'],
+        'text-letter-spacing': ['match', ['get', 'kind'], 'locality', 0, 0.1],
+      },
+      paint: { 'text-color': COLORS.label, 'text-halo-color': COLORS.halo, 'text-halo-width': 1.5 },
+    },
+  ];
+
+  return {
+    version: 8,
+    ...(glyphs && { glyphs: BASEMAP_GLYPHS }),
+    sources: source ? { [SOURCE]: { ...source, attribution: '© OpenStreetMap' } } : {},
+    layers: layers.filter((layer) => (source || layer.type === 'background') && (glyphs || layer.type !== 'symbol')),
+  };
+}
@@ -0,0 +1,86 @@
+// Map layer panel state and its text form, shared by local storage and the
+// `layers` URL parameter. Only settings that differ from the defaults are
+// written, e.g. "meters:off;signs:on:60;f.violation_types:NO%20STANDING".
+
+import type { MapLayerFilters, MapLayerId, MapLayersState, MeterStatus } from '../types';
+
+export const MAP_LAYERS_PARAM = 'layers';
+
+export const MAP_LAYER_IDS: MapLayerId[] = [
+  'signs',
+  'meters',
+  'violation_clusters',
+  'violation_heatmap',
+  'search_radius',
+  'boroughs',
+  'bookmarks',
+];
+
+export const MAP_LAYER_LABELS: Record<MapLayerId, string> = {
+  signs: 'Parking signs',
+  meters: 'Meters',
+  violation_clusters: 'Violations',
+  violation_heatmap: 'Violation heatmap',
+  search_radius: 'Search radius',
+  boroughs: 'Borough boundaries',
+  bookmarks: 'Bookmarks',
+};
+
+export const METER_STATUSES: MeterStatus[] = ['active', 'inactive', 'maintenance'];
+
+const FILTER_KEYS: (keyof MapLayerFilters)[] = ['sign_classes', 'meter_statuses', 'violation_types'];
+
+export function defaultMapLayers(): MapLayersState {
+  const layers = Object.fromEntries(
+    MAP_LAYER_IDS.map((id) => [id, { visible: id !== 'violation_heatmap', opacity: 1 }])
+  ) as MapLayersState['layers'];
+  return { layers, filters: { sign_classes: [], meter_statuses: [], violation_types: [] } };
+}
+
+// Empty when everything is at its default
+export function encodeMapLayers(state: MapLayersState): string {
+  const defaults = defaultMapLayers();
+  const layers = MAP_LAYER_IDS.flatMap((id) => {
+    const { visible, opacity } = state.layers[id];
+    const fallback = defaults.layers[id];
+    if (visible === fallback.visible && opacity === fallback.opacity) return [];
+    return [[id, visible ? 'on' : 'off', ...(opacity !== 1 ? [Math.round(opacity * 100)] : [])].join(':')];
+  });
+  const filters = FILTER_KEYS.flatMap((key) =>
+    state.filters[key].length > 0 ? [`f.${key}:${state.filters[key].map(encodeURIComponent).join('|')}`] : []
+  );
+  return [...layers, ...filters].join(';');
+}
+
+// Unknown layers, filters and malformed values are ignored
+export function parseMapLayers(value: string | null | undefined): MapLayersState | undefined {
+  if (!value) return undefined;
+  const state = defaultMapLayers();
+  for (const token of value.split(';')) {
+    const [name, ...parts] = token.split(':');
+    if (name.startsWith('f.')) {
+      const key = name.slice(2) as keyof MapLayerFilters;
+      if (!FILTER_KEYS.includes(key) || !parts[0]) continue;
+      const values = parts.join(':').split('|').map((v) => {
+        try {
+          return decodeURIComponent(v);
+        } catch {
+          return '';
+        }
+      });
+      const filtered = values.filter(Boolean);
+      if (key === 'meter_statuses') {
+        state.filters.meter_statuses = filtered.filter((v): v is MeterStatus => METER_STATUSES.includes(v as MeterStatus));
+      } else {
+        state.filters[key] = filtered;
+      }
+      continue;
+    }
+    if (!MAP_LAYER_IDS.includes(name as MapLayerId)) continue;
+    const layer = state.layers[name as MapLayerId];
+    if (parts[0] === 'on' || parts[0] === 'off') layer.visible = parts[0] === 'on';
+    const opacity = Number(parts[1]);
+    if (parts[1] && Number.isFinite(opacity)) layer.opacity = Math.min(Math.max(opacity, 0), 100) / 100;
+  }
+  return state;
+}
@@ -0,0 +1,110 @@
+// Which map library and basemap NYCMap draws with. Mapbox GL needs
+// NEXT_PUBLIC_MAPBOX_TOKEN; MapLibre GL reads a self-hosted basemap with the
+// bundled style, so the map works with no token. The basemap files are not
+// checked in (see the README): without them MapLibre draws a plain background
+// and no text labels.
+
+import type { MapProps } from 'react-map-gl';
+import type { GeoJSONSource } from 'mapbox-gl';
+import { basemapGlyphUrl, basemapStyle, BasemapAssets, BASEMAP_FONT, BASEMAP_FONT_MEDIUM } from './basemapStyle';
+
+export type MapProviderKind = 'mapbox' | 'maplibre';
+
+export interface MapProvider {
+  kind: MapProviderKind;
+  // Library handed to react-map-gl; undefined uses mapbox-gl
+  mapLib?: MapProps['mapLib'];
+  mapStyle: MapProps['mapStyle'];
+  accessToken?: string;
+  // Font stack the style's glyphs provide, for text layers drawn over the basemap;
+  // undefined when the style has no glyphs, so text layers must be left out
+  textFont?: string[];
+  attribution: string;
+}
+
+export const DEFAULT_BASEMAP_URL = '/basemap/nyc.pmtiles';
+
+// NEXT_PUBLIC_MAP_PROVIDER picks the library. Unset, Mapbox is used when a
+// token is configured and MapLibre otherwise.
+export function resolveMapProviderKind(
+  value: string | undefined = process.env.NEXT_PUBLIC_MAP_PROVIDER,
+  token: string | undefined = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+): MapProviderKind {
+  const kind = value?.trim().toLowerCase();
+  if (kind === 'mapbox' || kind === 'maplibre') return kind;
+  return token ? 'mapbox' : 'maplibre';
+}
+
+// A .pmtiles path is read through the pmtiles protocol; anything else is used
+// as the vector source's TileJSON URL or, with {z}/{x}/{y}, its tile template
+export function resolveBasemapTiles(value: string | undefined = process.env.NEXT_PUBLIC_BASEMAP_URL): string {
+  const url = value?.trim() || DEFAULT_BASEMAP_URL;
+  return /\.pmtiles$/i.test(url) && !url.startsWith('pmtiles://') ? `pmtiles://${url}` : url;
+}
+
+let mapLibre: Promise<unknown> | null = null;
+
+// MapLibre with the pmtiles:// protocol registered, loaded on first use
+function loadMapLibre() {
+  if (!mapLibre) {
+    mapLibre = Promise.all([import('maplibre-gl'), import('pmtiles')]).then(([module, { Protocol }]) => {
+      const maplibregl = 'addProtocol' in module ? module : (module as { default: typeof module }).default;
+      maplibregl.addProtocol('pmtiles', new Protocol().tile);
+      return maplibregl;
+    });
+  }
+  return mapLibre;
+}
+
+const exists = (url: string) => fetch(url, { method: 'HEAD' }).then((res) => res.ok, () => false);
+
+// Which of the self-hosted basemap files are installed. Only a local archive is
+// checked; tile servers and remote archives are assumed to be reachable.
+async function findBasemapAssets(): Promise<BasemapAssets> {
+  const tiles = resolveBasemapTiles();
+  const localArchive = tiles.startsWith('pmtiles:///') ? tiles.slice('pmtiles://'.length) : undefined;
+  const [tilesFound, ...fonts] = await Promise.all([
+    localArchive ? exists(localArchive) : true,
+    exists(basemapGlyphUrl(BASEMAP_FONT)),
+    exists(basemapGlyphUrl(BASEMAP_FONT_MEDIUM)),
+  ]);
+  if (!tilesFound) console.warn(`Basemap tiles not found at ${localArchive}; drawing a plain background`);
+  if (!fonts.every(Boolean)) console.warn('Basemap glyphs not found in public/basemap/fonts; map labels are off');
+  return { tiles: tilesFound ? tiles : undefined, glyphs: fonts.every(Boolean) };
+}
+
+let activeProvider: Promise<MapProvider> | null = null;
+
+// Resolved once per session, in the browser
+export function getMapProvider(): Promise<MapProvider> {
+  if (!activeProvider) {
+    if (resolveMapProviderKind() === 'mapbox') {
+      activeProvider = Promise.resolve({
+        kind: 'mapbox',
+        mapStyle: 'mapbox://styles/mapbox/streets-v12',
+        accessToken: process.env.NEXT_PUBLIC_MAPBOX_TOKEN,
+        textFont: ['DIN Offc Pro Medium', 'Arial Unicode MS Bold'],
+        attribution: '© Mapbox © OpenStreetMap',
+      });
+    } else {
+      activeProvider = findBasemapAssets().then((assets) => ({
+        kind: 'maplibre',
+        // react-map-gl is typed for Mapbox; NYCMap only uses the API both libraries share
+        mapLib: loadMapLibre() as MapProps['mapLib'],
+        mapStyle: basemapStyle(assets),
+        textFont: assets.glyphs ? [BASEMAP_FONT_MEDIUM] : undefined,
+        attribution: '© OpenStreetMap · MapLibre',
+      }));
+    }
+  }
+  return activeProvider;
+}
+
+// Zoom at which a cluster splits; Mapbox answers with a callback, MapLibre with a promise
+export function getClusterExpansionZoom(source: GeoJSONSource, clusterId: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const done = (err: unknown, zoom?: number | null) => (err || zoom == null ? reject(err) : resolve(zoom));
+    const result: unknown = source.getClusterExpansionZoom(clusterId, done);
+    if (result instanceof Promise) result.then((zoom) => done(null, zoom), reject);
+  });
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ParkingSign } from '../../types';
+import { evaluateParking } from '../evaluator';
+import { parseSignDescription } from '../signParser';
+import { createSuspensionCalendar } from '../suspensions';
+
+const sign = (description: string): ParkingSign => ({
+  id: description,
+  latitude: 40.75,
+  longitude: -73.99,
+  distance: 10,
+  description,
+  street_name: 'BROADWAY',
+  side_of_street: 'E',
+  rules: parseSignDescription(description).rules,
+});
+
+// 2025-06-02 is a Monday
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 5, day, hour, minute);
+
+const evaluate = (descriptions: string[], start: Date, durationMinutes: number) =>
+  evaluateParking(descriptions.map(sign), { start, duration_minutes: durationMinutes });
+
+describe('evaluateParking', () => {
+  it('allows parking on a block face without signs', () => {
+    const verdict = evaluate([], at(2, 10), 60);
+    expect(verdict.status).toBe('allowed');
+    expect(verdict.summary).toBe('No posted regulations found on this block face');
+    expect(verdict.signs_evaluated).toBe(0);
+  });
+
+  describe('allowed', () => {
+    it('reports when the next restriction starts', () => {
+      const verdict = evaluate(['NO PARKING 8AM-6PM MON-FRI'], at(2, 19), 60);
+      expect(verdict.status).toBe('allowed');
+      expect(verdict.summary).toBe('No restrictions during your stay; no parking next starts Tue 8am');
+      expect(verdict.restriction_start).toEqual(at(3, 8));
+      expect(verdict.sign?.description).toBe('NO PARKING 8AM-6PM MON-FRI');
+    });
+  });
+
+  describe('restricted', () => {
+    it('reports the restriction in effect at the start of the stay', () => {
+      const verdict = evaluate(['NO PARKING 8AM-6PM MON-FRI'], at(2, 9), 60);
+      expect(verdict.status).toBe('restricted');
+      expect(verdict.summary).toBe('No parking in effect until 6pm');
+      expect(verdict.restriction_start).toEqual(at(2, 8));
+      expect(verdict.restriction_end).toEqual(at(2, 18));
+    });
+
+    it('runs back-to-back windows together and keeps the active sign', () => {
+      const verdict = evaluate(['NO STANDING 7AM-10AM MON-FRI', 'NO PARKING 10AM-1PM MON-FRI'], at(2, 8), 60);
+      expect(verdict.status).toBe('restricted');
+      expect(verdict.summary).toBe('No standing in effect until 1pm');
+      expect(verdict.sign?.description).toBe('NO STANDING 7AM-10AM MON-FRI');
+      expect(verdict.restriction_start).toEqual(at(2, 7));
+      expect(verdict.restriction_end).toEqual(at(2, 13));
+    });
+
+    it('follows an overnight window past midnight', () => {
+      const evening = evaluate(['NO PARKING 10PM-6AM'], at(2, 23), 60);
+      expect(evening.status).toBe('restricted');
+      expect(evening.summary).toBe('No parking in effect until Tue 6am');
+      expect(evening.restriction_end).toEqual(at(3, 6));
+
+      // The window that began the evening before still applies after midnight
+      const morning = evaluate(['NO PARKING 10PM-6AM'], at(3, 1), 60);
+      expect(morning.status).toBe('restricted');
+      expect(morning.summary).toBe('No parking in effect until 6am');
+      expect(morning.restriction_start).toEqual(at(2, 22));
+    });
+
+    it('leaves out the end of a restriction that never lifts', () => {
+      const verdict = evaluate(['NO STOPPING ANYTIME'], at(2, 10), 60);
+      expect(verdict.status).toBe('restricted');
+      expect(verdict.summary).toBe('No stopping in effect');
+    });
+  });
+
+  describe('conditional', () => {
+    it('warns about a restriction starting during the stay', () => {
+      const verdict = evaluate(['2 HOUR PARKING 9AM-7PM MON-SAT', 'NO PARKING 8AM-6PM MON-FRI'], at(2, 7), 120);
+      expect(verdict.status).toBe('conditional');
+      expect(verdict.summary).toBe('No parking starts at 8am — move before then');
+      expect(verdict.sign?.description).toBe('NO PARKING 8AM-6PM MON-FRI');
+      expect(verdict.restriction_start).toEqual(at(2, 8));
+    });
+
+    it('reports the earliest of several upcoming restrictions', () => {
+      const verdict = evaluate(
+        ['NO STANDING 4PM-7PM MON-FRI', 'NO PARKING (SANITATION BROOM SYMBOL) 11:30AM-1PM MON & THURS'],
+        at(2, 11),
+        360
+      );
+      expect(verdict.summary).toBe('Street cleaning starts at 11:30am — move before then');
+      expect(verdict.rule?.restriction).toBe('street_cleaning');
+      expect(verdict.restriction_start).toEqual(at(2, 11, 30));
+    });
+
+    it('warns about an overnight window starting during the stay', () => {
+      const verdict = evaluate(['NO PARKING 10PM-6AM'], at(2, 21), 120);
+      expect(verdict.status).toBe('conditional');
+      expect(verdict.restriction_start).toEqual(at(2, 22));
+      expect(verdict.restriction_end).toEqual(at(3, 6));
+    });
+
+    it('gives a leave-by time when the stay outlasts a time limit', () => {
+      const verdict = evaluate(['2 HOUR METERED PARKING 9AM-7PM MON-SAT'], at(2, 10), 180);
+      expect(verdict.status).toBe('conditional');
+      expect(verdict.summary).toBe('2 hr metered parking from 10am — leave by 12pm');
+      expect(verdict.time_limit_minutes).toBe(120);
+    });
+
+    it('asks for the meter to be paid when the stay fits the limit', () => {
+      const verdict = evaluate(['2 HOUR METERED PARKING 9AM-7PM MON-SAT'], at(2, 10), 60);
+      expect(verdict.summary).toBe('2 hr metered parking until 7pm — pay the meter');
+    });
+  });
+
+  it('skips street cleaning on alternate-side holidays', () => {
+    const calendar = createSuspensionCalendar([
+      { date: '2025-06-02', holiday: 'Test holiday', alternate_side: true, meters: false },
+    ]);
+    const signs = [sign('NO PARKING (SANITATION BROOM SYMBOL) 8AM-9:30AM MON & THURS')];
+    const verdict = evaluateParking(signs, { start: at(2, 8, 30), duration_minutes: 30 }, calendar);
+    expect(verdict.status).toBe('allowed');
+    expect(verdict.suspension?.holiday).toBe('Test holiday');
+    expect(verdict.restriction_start).toEqual(at(5, 8));
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RawMeterRateZone } from '../../data/meterRateZonesProvider';
+import type { MeterRatePeriod } from '../../types';
+import { buildRatePeriods, estimateParkingCost } from '../meterRates';
+import { createSuspensionCalendar } from '../suspensions';
+
+const MON_SAT = [1, 2, 3, 4, 5, 6];
+const TUE_SAT = [2, 3, 4, 5, 6];
+const MON_FRI = [1, 2, 3, 4, 5];
+
+const zone = (schedules: RawMeterRateZone['schedules']): RawMeterRateZone => ({
+  zone_id: 'TEST-1',
+  name: 'Test zone',
+  borough: 'Manhattan',
+  payment_methods: ['Coins'],
+  schedules,
+});
+
+// $4/hr with a 2 hour limit until 7PM, then $2/hr with a 3 hour limit until 10PM
+const DAY_AND_EVENING = zone([
+  { vehicle_class: 'passenger', hours: 'MON-SAT 9AM-7PM', hourly_rate: 4, max_minutes: 120 },
+  { vehicle_class: 'passenger', hours: 'MON-SAT 7PM-10PM', hourly_rate: 2, max_minutes: 180 },
+  { vehicle_class: 'commercial', hours: 'MON-FRI 7AM-7PM', hourly_rate: 6, max_minutes: 180 },
+]);
+
+// 2025-06-02 is a Monday, 2025-06-06 a Friday and 2025-07-04 a Friday
+const at = (day: number, hour: number, minute = 0, month = 5) => new Date(2025, month, day, hour, minute);
+
+describe('buildRatePeriods', () => {
+  it("keeps the zone's rate table when the meter's hours are unknown", () => {
+    expect(buildRatePeriods(DAY_AND_EVENING)).toEqual([
+      { vehicle_class: 'passenger', hourly_rate: 4, max_minutes: 120, days: MON_SAT, start: 540, end: 1140 },
+      { vehicle_class: 'passenger', hourly_rate: 2, max_minutes: 180, days: MON_SAT, start: 1140, end: 1320 },
+      { vehicle_class: 'commercial', hourly_rate: 6, max_minutes: 180, days: MON_FRI, start: 420, end: 1140 },
+    ]);
+  });
+
+  it("clips the zone's rates to the meter's posted hours", () => {
+    const periods = buildRatePeriods(DAY_AND_EVENING, 'MON-FRI 8AM-8PM');
+    expect(periods).toEqual([
+      { vehicle_class: 'passenger', hourly_rate: 4, max_minutes: 120, days: MON_FRI, start: 540, end: 1140 },
+      { vehicle_class: 'passenger', hourly_rate: 2, max_minutes: 180, days: MON_FRI, start: 1140, end: 1200 },
+      { vehicle_class: 'commercial', hourly_rate: 6, max_minutes: 180, days: MON_FRI, start: 480, end: 1140 },
+    ]);
+  });
+
+  it('splits windows that cross midnight before clipping them', () => {
+    const lateNight = zone([{ vehicle_class: 'passenger', hours: 'MON-FRI 8PM-2AM', hourly_rate: 3 }]);
+    // The meter runs until 1AM, so the rate's morning part ends then, on the day after each weekday
+    expect(buildRatePeriods(lateNight, 'MON-SAT 7AM-1AM')).toEqual([
+      { vehicle_class: 'passenger', hourly_rate: 3, max_minutes: undefined, days: MON_FRI, start: 1200, end: 1440 },
+      { vehicle_class: 'passenger', hourly_rate: 3, max_minutes: undefined, days: TUE_SAT, start: 0, end: 60 },
+    ]);
+  });
+});
+
+describe('estimateParkingCost', () => {
+  const periods = buildRatePeriods(DAY_AND_EVENING);
+
+  it('prices each part of a stay at the rate in effect', () => {
+    const estimate = estimateParkingCost(periods, 'passenger', at(2, 18), 120);
+    expect(estimate.segments).toEqual([
+      { start: at(2, 18), end: at(2, 19), hourly_rate: 4, cost: 4 },
+      { start: at(2, 19), end: at(2, 20), hourly_rate: 2, cost: 2 },
+    ]);
+    expect(estimate.total).toBe(6);
+    expect(estimate.paid_minutes).toBe(120);
+    expect(estimate.free_minutes).toBe(0);
+    expect(estimate.limit_exceeded).toBeUndefined();
+  });
+
+  it('leaves time outside metered hours free', () => {
+    const estimate = estimateParkingCost(periods, 'passenger', at(2, 7, 30), 150);
+    expect(estimate.total).toBe(4);
+    expect(estimate.paid_minutes).toBe(60);
+    expect(estimate.free_minutes).toBe(90);
+  });
+
+  it('uses the rates of the chosen vehicle class', () => {
+    expect(estimateParkingCost(periods, 'commercial', at(2, 7, 30), 60).total).toBe(6);
+    expect(estimateParkingCost(periods, 'commercial', at(2, 19), 60).total).toBe(0);
+  });
+
+  it('applies the shorter time limit across a rate change', () => {
+    const estimate = estimateParkingCost(periods, 'passenger', at(2, 18), 180);
+    expect(estimate.total).toBe(8);
+    expect(estimate.limit_exceeded).toEqual({ max_minutes: 120, at: at(2, 20) });
+  });
+
+  it('restarts the time limit after a free gap', () => {
+    // 9PM-10PM metered, free overnight, then 9AM-10AM metered
+    const estimate = estimateParkingCost(periods, 'passenger', at(2, 21), 13 * 60);
+    expect(estimate.segments.map((s) => [s.start, s.end])).toEqual([
+      [at(2, 21), at(2, 22)],
+      [at(3, 9), at(3, 10)],
+    ]);
+    expect(estimate.total).toBe(6);
+    expect(estimate.limit_exceeded).toBeUndefined();
+  });
+
+  it('prices windows that cross midnight', () => {
+    const lateNight = zone([{ vehicle_class: 'passenger', hours: 'MON-FRI 8PM-2AM', hourly_rate: 3 }]);
+    // Friday 11PM to Saturday 2AM, whether or not the window was split at midnight
+    for (const split of [buildRatePeriods(lateNight, 'MON-SAT 7AM-2AM'), buildRatePeriods(lateNight)]) {
+      const estimate = estimateParkingCost(split, 'passenger', at(6, 23), 180);
+      expect(estimate.total).toBe(9);
+      expect(estimate.paid_minutes).toBe(180);
+    }
+  });
+
+  it('charges nothing on days meters are suspended', () => {
+    const holidays = createSuspensionCalendar([
+      { date: '2025-07-04', holiday: 'Independence Day', alternate_side: true, meters: true },
+      { date: '2025-07-03', holiday: 'ASP only', alternate_side: true, meters: false },
+    ]);
+    const holiday = estimateParkingCost(periods, 'passenger', at(4, 10, 0, 6), 120, holidays);
+    expect(holiday.total).toBe(0);
+    expect(holiday.free_minutes).toBe(120);
+    expect(holiday.suspensions.map((s) => s.date)).toEqual(['2025-07-04']);
+
+    // Alternate-side suspensions leave meters running
+    const aspOnly = estimateParkingCost(periods, 'passenger', at(3, 10, 0, 6), 120, holidays);
+    expect(aspOnly.total).toBe(8);
+    expect(aspOnly.suspensions).toEqual([]);
+  });
+
+  it('prices a stay spanning a suspended day only on the days meters run', () => {
+    const holidays = createSuspensionCalendar([
+      { date: '2025-07-04', holiday: 'Independence Day', alternate_side: true, meters: true },
+    ]);
+    const hourly: MeterRatePeriod[] = [
+      { vehicle_class: 'passenger', days: [0, 1, 2, 3, 4, 5, 6], start: 0, end: 1440, hourly_rate: 1 },
+    ];
+    // Thursday noon to Saturday noon
+    const estimate = estimateParkingCost(hourly, 'passenger', at(3, 12, 0, 6), 48 * 60, holidays);
+    expect(estimate.paid_minutes).toBe(24 * 60);
+    expect(estimate.total).toBe(24);
+  });
+});
@@ -0,0 +1,373 @@
+// Sign descriptions in the wording of NYC DOT's "Parking Regulation Locations
+// and Signs" dataset, paired with the rules the parser should produce.
+
+import type { ParkingRule, SignArrow } from '../../types';
+
+export interface SignFixture {
+  description: string;
+  arrow?: SignArrow;
+  rules: ParkingRule[];
+}
+
+const MON_FRI = [1, 2, 3, 4, 5];
+const MON_SAT = [1, 2, 3, 4, 5, 6];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export const SIGN_FIXTURES: Record<string, SignFixture[]> = {
+  days: [
+    {
+      description: 'NO PARKING 8AM-6PM MON-FRI <--',
+      arrow: 'left',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: MON_FRI,
+          windows: [{ start: 480, end: 1080 }],
+          anytime: false,
+          direction: 'left',
+          text: 'NO PARKING 8AM-6PM MON-FRI',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING MIDNIGHT-7AM MON THRU FRI',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: MON_FRI,
+          windows: [{ start: 0, end: 420 }],
+          anytime: false,
+          text: 'NO PARKING 12AM-7AM MON-FRI',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING 8AM-6PM MON-FRI 8AM-1PM SAT',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: MON_FRI,
+          windows: [{ start: 480, end: 1080 }],
+          anytime: false,
+          text: 'NO PARKING 8AM-6PM MON-FRI 8AM-1PM SAT',
+        },
+        {
+          restriction: 'no_parking',
+          days: [6],
+          windows: [{ start: 480, end: 780 }],
+          anytime: false,
+          text: 'NO PARKING 8AM-6PM MON-FRI 8AM-1PM SAT',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING 7AM-4PM SCHOOL DAYS -->',
+      arrow: 'right',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: MON_FRI,
+          windows: [{ start: 420, end: 960 }],
+          anytime: false,
+          school_days: true,
+          direction: 'right',
+          text: 'NO PARKING 7AM-4PM SCHOOL DAYS',
+        },
+      ],
+    },
+    {
+      description: 'COMMERCIAL VEHICLES ONLY 7AM-6PM MON-FRI',
+      rules: [
+        {
+          restriction: 'commercial_only',
+          days: MON_FRI,
+          windows: [{ start: 420, end: 1080 }],
+          anytime: false,
+          text: 'COMMERCIAL VEHICLES ONLY 7AM-6PM MON-FRI',
+        },
+      ],
+    },
+  ],
+
+  'time ranges': [
+    {
+      description: 'NO STANDING 7AM-10AM 4PM-7PM EXCEPT SUNDAY -->',
+      arrow: 'right',
+      rules: [
+        {
+          restriction: 'no_standing',
+          days: MON_SAT,
+          windows: [
+            { start: 420, end: 600 },
+            { start: 960, end: 1140 },
+          ],
+          anytime: false,
+          direction: 'right',
+          text: 'NO STANDING 7AM-10AM 4PM-7PM EXCEPT SUNDAY',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING 8-9:30AM WED',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: [3],
+          windows: [{ start: 480, end: 570 }],
+          anytime: false,
+          text: 'NO PARKING 8-9:30AM WED',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING 11-1PM TUES',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: [2],
+          windows: [{ start: 660, end: 780 }],
+          anytime: false,
+          text: 'NO PARKING 11-1PM TUES',
+        },
+      ],
+    },
+    {
+      description: '30 MINUTE PARKING 9 AM - 7 PM MON THRU SAT',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 540, end: 1140 }],
+          anytime: false,
+          time_limit_minutes: 30,
+          text: '30 MINUTE PARKING 9AM-7PM MON-SAT',
+        },
+      ],
+    },
+  ],
+
+  'ranges crossing midnight': [
+    {
+      description: 'NO PARKING 10PM-6AM',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: EVERY_DAY,
+          windows: [{ start: 1320, end: 360 }],
+          anytime: false,
+          text: 'NO PARKING 10PM-6AM',
+        },
+      ],
+    },
+    {
+      description: 'NO STANDING 11PM-7AM FRI-MON',
+      rules: [
+        {
+          restriction: 'no_standing',
+          days: [0, 1, 5, 6],
+          windows: [{ start: 1380, end: 420 }],
+          anytime: false,
+          text: 'NO STANDING 11PM-7AM FRI-MON',
+        },
+      ],
+    },
+  ],
+
+  'except sunday': [
+    {
+      description: '2 HOUR PARKING 9AM-7PM EXCEPT SUNDAY <->',
+      arrow: 'both',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 540, end: 1140 }],
+          anytime: false,
+          time_limit_minutes: 120,
+          direction: 'both',
+          text: '2 HOUR PARKING 9AM-7PM EXCEPT SUNDAY',
+        },
+      ],
+    },
+    {
+      description: '1/2 HOUR PARKING 9AM-7PM EXCEPT SUNDAY',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 540, end: 1140 }],
+          anytime: false,
+          time_limit_minutes: 30,
+          text: '1/2 HOUR PARKING 9AM-7PM EXCEPT SUNDAY',
+        },
+      ],
+    },
+    {
+      // The exception only removes days the sign names
+      description: 'NO STANDING 4PM-7PM MON-FRI EXCEPT SUNDAY',
+      rules: [
+        {
+          restriction: 'no_standing',
+          days: MON_FRI,
+          windows: [{ start: 960, end: 1140 }],
+          anytime: false,
+          text: 'NO STANDING 4PM-7PM MON-FRI EXCEPT SUNDAY',
+        },
+      ],
+    },
+  ],
+
+  'alternate side parking': [
+    {
+      description: 'NO PARKING (SANITATION BROOM SYMBOL) 8AM-9:30AM TUES & FRI <->',
+      arrow: 'both',
+      rules: [
+        {
+          restriction: 'street_cleaning',
+          days: [2, 5],
+          windows: [{ start: 480, end: 570 }],
+          anytime: false,
+          direction: 'both',
+          text: 'NO PARKING BROOM 8AM-9:30AM TUES & FRI',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING (SANITATION BROOM SYMBOL) 11:30AM-1PM MON & THURS',
+      rules: [
+        {
+          restriction: 'street_cleaning',
+          days: [1, 4],
+          windows: [{ start: 690, end: 780 }],
+          anytime: false,
+          text: 'NO PARKING BROOM 11:30AM-1PM MON & THURS',
+        },
+      ],
+    },
+    {
+      description: 'NO PARKING (SANITATION BROOM SYMBOL) 7:30AM-8AM EXCEPT SUNDAY',
+      rules: [
+        {
+          restriction: 'street_cleaning',
+          days: MON_SAT,
+          windows: [{ start: 450, end: 480 }],
+          anytime: false,
+          text: 'NO PARKING BROOM 7:30AM-8AM EXCEPT SUNDAY',
+        },
+      ],
+    },
+  ],
+
+  meters: [
+    {
+      description: '1 HOUR METERED PARKING 8AM-7PM EXCEPT SUNDAY <--',
+      arrow: 'left',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 480, end: 1140 }],
+          anytime: false,
+          time_limit_minutes: 60,
+          metered: true,
+          direction: 'left',
+          text: '1 HOUR METERED PARKING 8AM-7PM EXCEPT SUNDAY',
+        },
+      ],
+    },
+    {
+      description: '2 HOUR METERED PARKING 9AM-10PM MON-SAT',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 540, end: 1320 }],
+          anytime: false,
+          time_limit_minutes: 120,
+          metered: true,
+          text: '2 HOUR METERED PARKING 9AM-10PM MON-SAT',
+        },
+      ],
+    },
+    {
+      description: '2 HOUR METERED PARKING 9AM-7PM MON-SAT / NO STANDING 7AM-9AM MON-FRI',
+      rules: [
+        {
+          restriction: 'time_limit',
+          days: MON_SAT,
+          windows: [{ start: 540, end: 1140 }],
+          anytime: false,
+          time_limit_minutes: 120,
+          metered: true,
+          text: '2 HOUR METERED PARKING 9AM-7PM MON-SAT',
+        },
+        {
+          restriction: 'no_standing',
+          days: MON_FRI,
+          windows: [{ start: 420, end: 540 }],
+          anytime: false,
+          text: 'NO STANDING 7AM-9AM MON-FRI',
+        },
+      ],
+    },
+  ],
+
+  'no standing and no stopping': [
+    {
+      description: 'NO STANDING ANYTIME',
+      rules: [{ restriction: 'no_standing', days: EVERY_DAY, windows: [], anytime: true, text: 'NO STANDING ANYTIME' }],
+    },
+    {
+      description: 'NO STOPPING ANYTIME <->',
+      arrow: 'both',
+      rules: [
+        {
+          restriction: 'no_stopping',
+          days: EVERY_DAY,
+          windows: [],
+          anytime: true,
+          direction: 'both',
+          text: 'NO STOPPING ANYTIME',
+        },
+      ],
+    },
+    {
+      description: 'NO STANDING EXCEPT TRUCKS LOADING & UNLOADING 7AM-7PM MON-FRI <--',
+      arrow: 'left',
+      rules: [
+        {
+          restriction: 'no_standing',
+          days: MON_FRI,
+          windows: [{ start: 420, end: 1140 }],
+          anytime: false,
+          except: 'TRUCKS LOADING & UNLOADING',
+          direction: 'left',
+          text: 'NO STANDING EXCEPT TRUCKS LOADING & UNLOADING 7AM-7PM MON-FRI',
+        },
+      ],
+    },
+    {
+      description: 'BUS STOP NO STANDING',
+      rules: [{ restriction: 'bus_stop', days: EVERY_DAY, windows: [], anytime: true, text: 'BUS STOP NO STANDING' }],
+    },
+    {
+      description: 'NO STANDING HOTEL LOADING ZONE',
+      rules: [
+        { restriction: 'loading_zone', days: EVERY_DAY, windows: [], anytime: true, text: 'NO STANDING HOTEL LOADING ZONE' },
+      ],
+    },
+    {
+      description: 'NO PARKING EXCEPT AUTHORIZED VEHICLES',
+      rules: [
+        {
+          restriction: 'no_parking',
+          days: EVERY_DAY,
+          windows: [],
+          anytime: true,
+          except: 'AUTHORIZED VEHICLES',
+          text: 'NO PARKING EXCEPT AUTHORIZED VEHICLES',
+        },
+      ],
+    },
+  ],
+};
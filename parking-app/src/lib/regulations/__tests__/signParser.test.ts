@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseSignDescription } from '../signParser';
+import { SIGN_FIXTURES } from './signParser.fixtures';
+
+describe('parseSignDescription', () => {
+  for (const [group, fixtures] of Object.entries(SIGN_FIXTURES)) {
+    describe(group, () => {
+      it.each(fixtures)('$description', ({ description, arrow, rules }) => {
+        expect(parseSignDescription(description)).toEqual({ rules, arrow });
+      });
+    });
+  }
+
+  it('ignores case and extra spacing', () => {
+    expect(parseSignDescription('no parking  8am - 6pm  mon - fri')).toEqual(
+      parseSignDescription('NO PARKING 8AM-6PM MON-FRI')
+    );
+  });
+
+  it('keeps unrecognised text as an unknown rule that applies at any time', () => {
+    expect(parseSignDescription('TAXI RELIEF STAND').rules).toEqual([
+      { restriction: 'unknown', days: [0, 1, 2, 3, 4, 5, 6], windows: [], anytime: true, text: 'TAXI RELIEF STAND' },
+    ]);
+  });
+});
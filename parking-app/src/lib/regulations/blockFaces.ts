@@ -0,0 +1,236 @@
+// Block faces for the map: signs grouped by street, block and side of street,
+// each drawn as a curb line coloured by what the signs allow at a given time.
+// The geometry depends only on the signs, so it is built once and the status
+// re-evaluated as the time changes.
+// There is no street centreline data, so each block's direction is estimated
+// from the signs along the same street, and each side's line sits at the
+// average offset of its signs from that axis.
+
+import type { ParkingSign, ParkingVerdict } from '../types';
+import { constants } from '../utils';
+import { localProjection } from '../utils/geospatial';
+import { evaluateParking } from './evaluator';
+import type { SuspensionCalendar } from './suspensions';
+
+export type BlockFaceClass = 'no_parking' | 'time_limited' | 'free';
+
+export interface BlockFace {
+  id: string;
+  street_name: string;
+  from_street?: string;
+  to_street?: string;
+  side_of_street?: string;
+  signs: ParkingSign[];
+  coordinates: [number, number][]; // curb line as GeoJSON [lon, lat] positions
+  arrows: [number, number][][]; // one polyline per arrow: the shaft, then each head
+}
+
+export interface BlockFaceStatus {
+  class: BlockFaceClass;
+  verdict: ParkingVerdict;
+}
+
+export const BLOCK_FACE_CLASSES: Record<BlockFaceClass, { label: string; color: string }> = {
+  no_parking: { label: 'No parking', color: '#dc2626' },
+  time_limited: { label: 'Time-limited', color: '#f59e0b' },
+  free: { label: 'Free parking', color: '#16a34a' },
+};
+
+// Stay the colour reflects; a restriction starting within it shows as time-limited
+const BLOCK_FACE_WINDOW_MINUTES = 60;
+// Line extends this far past the outermost signs, and is never shorter than the minimum
+const FACE_PADDING_METERS = 8;
+const MIN_FACE_LENGTH_METERS = 24;
+// Half the gap kept between opposite sides of the same block
+const MIN_CURB_OFFSET_METERS = 5;
+// Signs of the same street this close to a block inform its direction
+const AXIS_CONTEXT_METERS = 300;
+const ARROW_LENGTH_METERS = 12;
+const ARROW_HEAD_METERS = 4;
+
+type Vector = [number, number];
+
+const COMPASS: Record<string, Vector> = { N: [0, 1], S: [0, -1], E: [1, 0], W: [-1, 0] };
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1];
+const normalize = (s?: string) => s?.trim().toLowerCase() ?? '';
+const sideOf = (sign: ParkingSign) => sign.side_of_street?.trim().toUpperCase() || undefined;
+
+// Principal direction of a set of points, or undefined when they do not line up
+function principalAxis(points: Vector[]): Vector | undefined {
+  if (points.length < 2) return undefined;
+  const mx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const my = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+    sxy += (x - mx) * (y - my);
+  }
+  const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+  const axis: Vector = [Math.cos(angle), Math.sin(angle)];
+  // Spread along and across the axis
+  const along = points.reduce((sum, [x, y]) => sum + dot([x - mx, y - my], axis) ** 2, 0);
+  const across = points.reduce((sum, [x, y]) => sum + dot([x - mx, y - my], [-axis[1], axis[0]]) ** 2, 0);
+  return Math.sqrt(along / points.length) >= FACE_PADDING_METERS && along > 4 * across ? axis : undefined;
+}
+
+// Street direction for a block: from the street's signs when they line up and
+// agree with the posted sides, otherwise across the posted side of street
+function streetAxis(block: Vector[], street: Vector[], sides: string[]): Vector {
+  const compass = sides.map((side) => COMPASS[side]).find(Boolean);
+  const estimated = principalAxis(street) ?? principalAxis(block);
+  // A street cannot run toward its own side
+  if (estimated && (!compass || Math.abs(dot(estimated, compass)) < Math.SQRT1_2)) return estimated;
+  return compass ? [compass[1], -compass[0]] : [1, 0];
+}
+
+function classify(verdict: ParkingVerdict): BlockFaceClass {
+  if (verdict.status === 'restricted') return 'no_parking';
+  if (verdict.status === 'conditional' || verdict.time_limit_minutes) return 'time_limited';
+  return 'free';
+}
+
+// Block key; without cross streets, signs of a street are grouped by proximity
+function groupBlocks(signs: ParkingSign[], toXY: (lat: number, lon: number) => Vector): ParkingSign[][] {
+  type Block = { signs: ParkingSign[]; x: number; y: number };
+  const blocks = new Map<string, Block>();
+  // Proximity groups per street, so a sign is only compared with its own street's
+  const unnamed = new Map<string, Block[]>();
+  for (const sign of signs) {
+    const street = normalize(sign.street_name);
+    const [x, y] = toXY(sign.latitude, sign.longitude);
+    if (sign.from_street || sign.to_street) {
+      // Either direction of travel names the same block
+      const ends = [normalize(sign.from_street), normalize(sign.to_street)].sort().join('|');
+      const key = `${street}|${ends}`;
+      const block = blocks.get(key) ?? { signs: [], x, y };
+      block.signs.push(sign);
+      blocks.set(key, block);
+      continue;
+    }
+    const groups = unnamed.get(street) ?? [];
+    const near = groups.find((b) => Math.hypot(b.x - x, b.y - y) <= constants.BLOCK_FACE_RADIUS);
+    if (near) near.signs.push(sign);
+    else {
+      groups.push({ signs: [sign], x, y });
+      unnamed.set(street, groups);
+    }
+  }
+  return [...blocks.values(), ...[...unnamed.values()].flat()].map((b) => b.signs);
+}
+
+// Shaft centred on `at` pointing along `direction`, with a head at one or both ends
+function arrowLines(at: Vector, direction: Vector, both: boolean): Vector[][] {
+  const half = ARROW_LENGTH_METERS / 2;
+  const tip: Vector = [at[0] + direction[0] * half, at[1] + direction[1] * half];
+  const tail: Vector = [at[0] - direction[0] * half, at[1] - direction[1] * half];
+  const head = (point: Vector, d: Vector): Vector[] => {
+    const back: Vector = [point[0] - d[0] * ARROW_HEAD_METERS, point[1] - d[1] * ARROW_HEAD_METERS];
+    const wing: Vector = [-d[1] * ARROW_HEAD_METERS * 0.6, d[0] * ARROW_HEAD_METERS * 0.6];
+    return [[back[0] + wing[0], back[1] + wing[1]], point, [back[0] - wing[0], back[1] - wing[1]]];
+  };
+  const lines = [[tail, tip], head(tip, direction)];
+  if (both) lines.push(head(tail, [-direction[0], -direction[1]]));
+  return lines;
+}
+
+export function buildBlockFaces(signs: ParkingSign[]): BlockFace[] {
+  if (signs.length === 0) return [];
+  const origin = signs[0];
+  const { toXY, toLonLat } = localProjection(origin.latitude, origin.longitude);
+  const position = (s: ParkingSign) => toXY(s.latitude, s.longitude);
+  const streetPositions = new Map<string, Vector[]>();
+  for (const sign of signs) {
+    const street = normalize(sign.street_name);
+    const positions = streetPositions.get(street) ?? [];
+    positions.push(position(sign));
+    streetPositions.set(street, positions);
+  }
+
+  const faces: BlockFace[] = [];
+  for (const block of groupBlocks(signs, toXY)) {
+    const points = block.map(position);
+    const center: Vector = [
+      points.reduce((sum, p) => sum + p[0], 0) / points.length,
+      points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    ];
+    const relative = (p: Vector): Vector => [p[0] - center[0], p[1] - center[1]];
+    const street = normalize(block[0].street_name);
+    const streetPoints = (streetPositions.get(street) ?? []).filter(
+      (p) => Math.hypot(p[0] - center[0], p[1] - center[1]) <= AXIS_CONTEXT_METERS
+    );
+    const sides = [...new Set(block.map(sideOf).filter((s): s is string => !!s))];
+    const axis = streetAxis(points, streetPoints, sides);
+    const normal: Vector = [-axis[1], axis[0]];
+
+    // Extent along the street, shared by both sides
+    const along = points.map((p) => dot(relative(p), axis));
+    let start = Math.min(...along) - FACE_PADDING_METERS;
+    let end = Math.max(...along) + FACE_PADDING_METERS;
+    if (end - start < MIN_FACE_LENGTH_METERS) {
+      const mid = (start + end) / 2;
+      start = mid - MIN_FACE_LENGTH_METERS / 2;
+      end = mid + MIN_FACE_LENGTH_METERS / 2;
+    }
+
+    const bySide = new Map<string, ParkingSign[]>();
+    for (const sign of block) {
+      const key = sideOf(sign) ?? '';
+      bySide.set(key, [...(bySide.get(key) ?? []), sign]);
+    }
+    const offsetOf = (faceSigns: ParkingSign[]) =>
+      faceSigns.reduce((sum, s) => sum + dot(relative(position(s)), normal), 0) / faceSigns.length;
+    // Posted sides sit on their own side of the street, at least a lane apart
+    const offsets = new Map([...bySide].map(([side, faceSigns]) => [side, offsetOf(faceSigns)]));
+    const posted = [...offsets.keys()].filter((side) => COMPASS[side]);
+    const middle = posted.length > 1 ? posted.reduce((sum, side) => sum + offsets.get(side)!, 0) / posted.length : undefined;
+    for (const side of posted) {
+      const outward = Math.sign(dot(normal, COMPASS[side])) || 1;
+      const offset = offsets.get(side)!;
+      if (middle !== undefined) offsets.set(side, middle + outward * Math.max(Math.abs(offset - middle), MIN_CURB_OFFSET_METERS));
+    }
+
+    for (const [side, faceSigns] of bySide) {
+      const offset = offsets.get(side)!;
+      const toPosition = (t: number, lateral: number = offset): Vector => [
+        center[0] + axis[0] * t + normal[0] * lateral,
+        center[1] + axis[1] * t + normal[1] * lateral,
+      ];
+      // Someone reading the sign faces the curb; their right is a quarter turn clockwise
+      const facing: Vector | undefined = COMPASS[side]
+        ? (Math.sign(dot(normal, COMPASS[side])) || 1) === 1 ? normal : [-normal[0], -normal[1]]
+        : undefined;
+      const arrows = facing
+        ? faceSigns.flatMap((sign) => {
+            if (!sign.arrow) return [];
+            const right: Vector = [facing[1], -facing[0]];
+            const forward: Vector = dot(right, axis) >= 0 ? axis : [-axis[0], -axis[1]];
+            const direction: Vector = sign.arrow === 'left' ? [-forward[0], -forward[1]] : forward;
+            const t = dot(relative(position(sign)), axis);
+            return arrowLines(toPosition(t), direction, sign.arrow === 'both');
+          })
+        : [];
+      const first = faceSigns[0];
+      faces.push({
+        id: `${first.street_name}|${first.from_street ?? ''}|${first.to_street ?? ''}|${side}|${first.id}`,
+        street_name: first.street_name,
+        from_street: first.from_street,
+        to_street: first.to_street,
+        side_of_street: side || undefined,
+        signs: faceSigns,
+        coordinates: [toLonLat(...toPosition(start)), toLonLat(...toPosition(end))],
+        arrows: arrows.map((line) => line.map((p) => toLonLat(...p))),
+      });
+    }
+  }
+  return faces;
+}
+
+// What the face's signs allow for an hour from `at`
+export function blockFaceStatus(face: BlockFace, at: Date, calendar?: SuspensionCalendar): BlockFaceStatus {
+  const verdict = evaluateParking(face.signs, { start: at, duration_minutes: BLOCK_FACE_WINDOW_MINUTES }, calendar);
+  return { class: classify(verdict), verdict };
+}
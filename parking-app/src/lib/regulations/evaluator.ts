@@ -0,0 +1,162 @@
+// "Can I park here?" — evaluates parsed sign rules for a stay starting at a
+// given time. Times are interpreted in the browser's local time zone, which is
+// assumed to be New York time. Vehicles are assumed to be passenger cars, so
+// rules that exempt trucks or authorized vehicles still apply. Rules suspended
+// by the holiday calendar are skipped on the days they are suspended.
+
+import type {
+  ParkingEvaluationRequest,
+  ParkingRule,
+  ParkingSign,
+  ParkingVerdict,
+  RestrictionClass,
+} from '../types';
+import { constants } from '../utils';
+import { formatDays, formatMinutes, formatTimeLimit, restrictionLabel } from './signParser';
+import type { SuspensionCalendar } from './suspensions';
+import { ruleOccurrences, startOfDay, TimeInterval } from './schedule';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// How far past the end of a stay to look for the next restriction
+const LOOKAHEAD_DAYS = 7;
+
+// Restrictions that forbid a passenger car from parking while in effect, most severe first
+const RESTRICTION_SEVERITY: Partial<Record<RestrictionClass, number>> = {
+  no_stopping: 6,
+  no_standing: 5,
+  bus_stop: 5,
+  loading_zone: 4,
+  no_parking: 3,
+  street_cleaning: 3,
+  commercial_only: 3,
+};
+
+export const isRestrictive = (rule: ParkingRule) => RESTRICTION_SEVERITY[rule.restriction] !== undefined;
+
+// Signs on the same block face as the nearest sign: same street and side of street
+export function selectBlockFace(signs: ParkingSign[], maxDistance: number = constants.BLOCK_FACE_RADIUS): ParkingSign[] {
+  const nearby = signs.filter((s) => s.distance <= maxDistance).sort((a, b) => a.distance - b.distance);
+  const nearest = nearby[0];
+  if (!nearest) return [];
+  const street = nearest.street_name.trim().toLowerCase();
+  return nearby.filter(
+    (s) =>
+      s.street_name.trim().toLowerCase() === street &&
+      (!s.side_of_street || !nearest.side_of_street || s.side_of_street === nearest.side_of_street)
+  );
+}
+
+// "6pm" for times on the reference day, "Tue 8am" otherwise
+export function formatTime(date: Date, reference: Date): string {
+  const time = formatMinutes(date.getHours() * 60 + date.getMinutes());
+  const sameDay = startOfDay(date).getTime() === startOfDay(reference).getTime();
+  return sameDay ? time : `${formatDays([date.getDay()])} ${time}`;
+}
+
+interface Match {
+  sign: ParkingSign;
+  rule: ParkingRule;
+  interval: TimeInterval;
+}
+
+function describeRestriction({ rule }: Match): string {
+  const label = restrictionLabel(rule.restriction);
+  return rule.except ? `${label} (except ${rule.except.toLowerCase()})` : label;
+}
+
+// Earliest match first; ties go to the more severe restriction
+const byStartThenSeverity = (a: Match, b: Match) =>
+  a.interval.start.getTime() - b.interval.start.getTime() ||
+  (RESTRICTION_SEVERITY[b.rule.restriction] ?? 0) - (RESTRICTION_SEVERITY[a.rule.restriction] ?? 0);
+
+// Evaluate a stay against every rule on the given signs
+export function evaluateParking(
+  signs: ParkingSign[],
+  request: ParkingEvaluationRequest,
+  calendar?: SuspensionCalendar
+): ParkingVerdict {
+  const start = request.start;
+  const end = new Date(start.getTime() + request.duration_minutes * MINUTE_MS);
+  const horizon = new Date(end.getTime() + LOOKAHEAD_DAYS * DAY_MS);
+
+  const restrictions: Match[] = [];
+  const limits: Match[] = [];
+  for (const sign of signs) {
+    for (const rule of sign.rules ?? []) {
+      if (isRestrictive(rule)) {
+        ruleOccurrences(rule, start, horizon, calendar).forEach((interval) => restrictions.push({ sign, rule, interval }));
+      } else if (rule.time_limit_minutes) {
+        ruleOccurrences(rule, start, end, calendar).forEach((interval) => limits.push({ sign, rule, interval }));
+      }
+    }
+  }
+  restrictions.sort(byStartThenSeverity);
+  limits.sort(byStartThenSeverity);
+
+  const base = { signs_evaluated: signs.length, suspension: calendar?.get(start) };
+  const verdict = (status: ParkingVerdict['status'], summary: string, match?: Match): ParkingVerdict => ({
+    ...base,
+    status,
+    summary,
+    sign: match?.sign,
+    rule: match?.rule,
+    restriction_start: match?.interval.start,
+    restriction_end: match?.interval.end,
+    time_limit_minutes: match?.rule.time_limit_minutes,
+  });
+
+  if (signs.length === 0) {
+    return verdict('allowed', 'No posted regulations found on this block face');
+  }
+
+  // The active restriction that lasts longest drives the verdict; parking is
+  // legal again only once every overlapping or back-to-back restriction ends
+  const active = restrictions
+    .filter((m) => m.interval.start <= start && m.interval.end > start)
+    .sort((a, b) => b.interval.end.getTime() - a.interval.end.getTime())[0];
+  if (active) {
+    let clear = active.interval.end;
+    for (const m of restrictions) {
+      if (m.interval.start <= clear && m.interval.end > clear) clear = m.interval.end;
+    }
+    const until = clear >= horizon ? '' : ` until ${formatTime(clear, start)}`;
+    return verdict('restricted', `${describeRestriction(active)} in effect${until}`, {
+      ...active,
+      interval: { start: active.interval.start, end: clear },
+    });
+  }
+
+  const upcoming = restrictions.find((m) => m.interval.start < end);
+  if (upcoming) {
+    return verdict(
+      'conditional',
+      `${describeRestriction(upcoming)} starts at ${formatTime(upcoming.interval.start, start)} — move before then`,
+      upcoming
+    );
+  }
+
+  const limit = limits[0];
+  if (limit) {
+    const minutes = limit.rule.time_limit_minutes!;
+    const from = limit.interval.start > start ? limit.interval.start : start;
+    const leaveBy = new Date(Math.min(from.getTime() + minutes * MINUTE_MS, limit.interval.end.getTime()));
+    const kind = limit.rule.metered ? 'metered parking' : 'parking';
+    const summary =
+      leaveBy < end
+        ? `${formatTimeLimit(minutes)} ${kind} from ${formatTime(from, start)} — leave by ${formatTime(leaveBy, start)}`
+        : `${formatTimeLimit(minutes)} ${kind} until ${formatTime(limit.interval.end, start)}${limit.rule.metered ? ' — pay the meter' : ''}`;
+    return verdict('conditional', summary, limit);
+  }
+
+  const next = restrictions[0];
+  if (next) {
+    return verdict(
+      'allowed',
+      `No restrictions during your stay; ${describeRestriction(next).toLowerCase()} next starts ${formatTime(next.interval.start, start)}`,
+      next
+    );
+  }
+  return verdict('allowed', 'No restrictions during your stay');
+}
+
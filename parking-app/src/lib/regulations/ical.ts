@@ -0,0 +1,161 @@
+// iCalendar (RFC 5545) export of upcoming street-cleaning days. Sign times are
+// New York wall-clock times, so events are written in America/New_York
+// whatever the browser's time zone.
+
+import type { ParkingSign } from '../types';
+import { ruleOccurrences } from './schedule';
+import type { SuspensionCalendar } from './suspensions';
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_ZONE = 'America/New_York';
+
+const newYorkFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+type DateFields = Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+
+// Wall-clock fields of an instant in New York (month is 1-based)
+const newYorkFields = (date: Date) =>
+  Object.fromEntries(newYorkFormat.formatToParts(date).map(({ type, value }) => [type, Number(value)])) as DateFields;
+
+// How far New York's wall clock is ahead of UTC at `date`, in milliseconds
+function newYorkOffset(date: Date): number {
+  const { year, month, day, hour, minute, second } = newYorkFields(date);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - (date.getTime() - date.getMilliseconds());
+}
+
+// Rules are expanded on the browser's clock (see schedule.ts). These convert
+// between an instant and a Date whose local fields hold New York wall-clock time.
+function toNewYorkWallClock(date: Date): Date {
+  const { year, month, day, hour, minute, second } = newYorkFields(date);
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+function fromNewYorkWallClock(date: Date): Date {
+  const asUTC = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+  // The second pass corrects the offset for instants near a DST change
+  const guess = asUTC - newYorkOffset(new Date(asUTC));
+  return new Date(asUTC - newYorkOffset(new Date(guess)));
+}
+
+// Street-cleaning windows on the given signs over the next `days` days,
+// skipping suspended days. Signs repeating the same window yield one event.
+export function streetCleaningEvents(
+  signs: ParkingSign[],
+  calendar: SuspensionCalendar | undefined,
+  from: Date = new Date(),
+  days: number = 90
+): CalendarEvent[] {
+  const localFrom = toNewYorkWallClock(from);
+  const to = new Date(localFrom.getTime() + days * DAY_MS);
+  const events = new Map<string, CalendarEvent>();
+
+  for (const sign of signs) {
+    const side = sign.side_of_street ? ` (${sign.side_of_street} side)` : '';
+    for (const rule of sign.rules ?? []) {
+      if (rule.restriction !== 'street_cleaning') continue;
+      for (const occurrence of ruleOccurrences(rule, localFrom, to, calendar)) {
+        const start = fromNewYorkWallClock(occurrence.start);
+        const end = fromNewYorkWallClock(occurrence.end);
+        const key = `${sign.street_name}|${sign.side_of_street ?? ''}|${start.getTime()}|${end.getTime()}`;
+        if (events.has(key)) continue;
+        events.set(key, {
+          uid: `${start.getTime()}-${sign.id}@nyc-smart-parking`,
+          start,
+          end,
+          summary: `Street cleaning – ${sign.street_name}${side}`,
+          description: `Move your car. Sign: ${sign.description}`,
+          location: sign.street_name,
+        });
+      }
+    }
+  }
+  return [...events.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// New York wall-clock time, written with the TZID defined by NEW_YORK_VTIMEZONE
+function formatNewYork(date: Date): string {
+  const { year, month, day, hour, minute, second } = newYorkFields(date);
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+}
+
+const formatUTC = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded onto continuation lines
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join('\r\n ');
+}
+
+// US daylight saving rules in effect since 2007
+const NEW_YORK_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0400',
+  'TZNAME:EDT',
+  'DTSTART:20070311T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'TZNAME:EST',
+  'DTSTART:20071104T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export function toICalendar(events: CalendarEvent[], name: string, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NYC Smart Parking//Street Cleaning//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...NEW_YORK_VTIMEZONE,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUTC(now)}`,
+      `DTSTART;TZID=${TIME_ZONE}:${formatNewYork(event.start)}`,
+      `DTEND;TZID=${TIME_ZONE}:${formatNewYork(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push('BEGIN:VALARM', 'TRIGGER:-PT30M', 'ACTION:DISPLAY', 'DESCRIPTION:Street cleaning soon', 'END:VALARM', 'END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,188 @@
+// Meter rate schedules and parking cost estimates. A meter's rate periods are
+// its zone's rate table clipped to the meter's posted hours of operation.
+
+import type { MeterRate, MeterRatePeriod, ParkingRule, RuleTimeWindow, SuspensionDay, VehicleClass } from '../types';
+import type { RawMeterRateZone } from '../data/meterRateZonesProvider';
+import { addDays, ruleOccurrences, startOfDay } from './schedule';
+import { formatDays, formatMinutes, formatTimeLimit, parseSignDescription } from './signParser';
+import type { SuspensionCalendar } from './suspensions';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Days and time windows of a schedule such as "Mon-Sat 9AM-10PM"
+const parseHours = (hours: string) => parseSignDescription(hours).rules.filter((r) => !r.anytime);
+
+// A window crossing midnight ("10PM-2AM") as its evening part on `days` and its
+// morning part on the following days, so both can be clipped by plain min/max
+function splitAtMidnight(days: number[], window: RuleTimeWindow): { days: number[]; start: number; end: number }[] {
+  if (window.end > window.start) return [{ days, start: window.start, end: window.end }];
+  const pieces = [{ days, start: window.start, end: DAY_MINUTES }];
+  if (window.end > 0) pieces.push({ days: days.map((d) => (d + 1) % 7).sort((a, b) => a - b), start: 0, end: window.end });
+  return pieces;
+}
+
+export function buildRatePeriods(zone: RawMeterRateZone, meterHours?: string): MeterRatePeriod[] {
+  const operating = meterHours ? parseHours(meterHours) : [];
+  const periods: MeterRatePeriod[] = [];
+
+  for (const schedule of zone.schedules) {
+    for (const rule of parseHours(schedule.hours)) {
+      for (const window of rule.windows) {
+        const base = { vehicle_class: schedule.vehicle_class, hourly_rate: schedule.hourly_rate, max_minutes: schedule.max_minutes };
+        if (operating.length === 0) {
+          periods.push({ ...base, days: rule.days, start: window.start, end: window.end });
+          continue;
+        }
+        // Only the part of the zone schedule during which the meter operates
+        for (const rated of splitAtMidnight(rule.days, window)) {
+          for (const hours of operating) {
+            for (const open of hours.windows.flatMap((w) => splitAtMidnight(hours.days, w))) {
+              const days = rated.days.filter((d) => open.days.includes(d));
+              const start = Math.max(rated.start, open.start);
+              const end = Math.min(rated.end, open.end);
+              if (days.length > 0 && end > start) periods.push({ ...base, days, start, end });
+            }
+          }
+        }
+      }
+    }
+  }
+  return periods;
+}
+
+// Display rows for `MeterRate.rate_schedule`
+export const toRateSchedule = (periods: MeterRatePeriod[]): MeterRate['rate_schedule'] =>
+  periods.map((p) => ({
+    hours: `${formatDays(p.days)} ${formatMinutes(p.start)}–${formatMinutes(p.end)}`,
+    rate: p.hourly_rate.toFixed(2),
+    rate_type: 'hourly',
+    vehicle_class: p.vehicle_class,
+  }));
+
+// "2 hr", or "2 hr (commercial 3 hr)" when the classes differ
+export function describeTimeLimit(periods: MeterRatePeriod[]): string | undefined {
+  const limitFor = (vehicleClass: VehicleClass) =>
+    periods.find((p) => p.vehicle_class === vehicleClass && p.max_minutes)?.max_minutes;
+  const passenger = limitFor('passenger');
+  const commercial = limitFor('commercial');
+  if (!passenger) return commercial ? `${formatTimeLimit(commercial)} (commercial)` : undefined;
+  if (!commercial || commercial === passenger) return formatTimeLimit(passenger);
+  return `${formatTimeLimit(passenger)} (commercial ${formatTimeLimit(commercial)})`;
+}
+
+// Highest hourly rate a vehicle class pays at this meter; undefined when unknown
+export function peakHourlyRate(periods: MeterRatePeriod[] | undefined, vehicleClass: VehicleClass = 'passenger'): number | undefined {
+  const rates = (periods ?? []).filter((p) => p.vehicle_class === vehicleClass).map((p) => p.hourly_rate);
+  return rates.length > 0 ? Math.max(...rates) : undefined;
+}
+
+export interface MeterRateComparison {
+  peak_rate?: number;
+  cheapest: boolean;
+  difference?: number; // per hour above the cheapest meter in the set
+}
+
+// Compare each meter's peak rate against the cheapest meter in the set
+export function compareMeterRates(meters: MeterRate[], vehicleClass: VehicleClass = 'passenger'): Map<string, MeterRateComparison> {
+  const peaks = new Map(meters.map((m) => [m.id, peakHourlyRate(m.rate_periods, vehicleClass)]));
+  const known = [...peaks.values()].filter((rate): rate is number => rate !== undefined);
+  const cheapest = known.length > 0 ? Math.min(...known) : undefined;
+  // Only call a meter the cheapest when some nearby meter costs more
+  const spread = cheapest !== undefined && Math.max(...known) > cheapest;
+
+  const comparisons = new Map<string, MeterRateComparison>();
+  peaks.forEach((peak, id) => {
+    if (peak === undefined || cheapest === undefined) {
+      comparisons.set(id, { peak_rate: peak, cheapest: false });
+      return;
+    }
+    comparisons.set(id, { peak_rate: peak, cheapest: spread && peak === cheapest, difference: roundCents(peak - cheapest) });
+  });
+  return comparisons;
+}
+
+export interface CostSegment {
+  start: Date;
+  end: Date;
+  hourly_rate: number;
+  cost: number;
+}
+
+export interface ParkingCostEstimate {
+  total: number;
+  paid_minutes: number;
+  free_minutes: number;
+  segments: CostSegment[];
+  // Set when continuous metered time outlasts the meter's time limit
+  limit_exceeded?: { max_minutes: number; at: Date };
+  suspensions: SuspensionDay[];
+}
+
+// Price a stay, splitting it wherever the rate changes or metering stops.
+// Meters are free on days the calendar suspends them.
+export function estimateParkingCost(
+  periods: MeterRatePeriod[],
+  vehicleClass: VehicleClass,
+  arrival: Date,
+  durationMinutes: number,
+  calendar?: SuspensionCalendar
+): ParkingCostEstimate {
+  const departure = new Date(arrival.getTime() + durationMinutes * MINUTE_MS);
+  const segments: (CostSegment & { max_minutes?: number })[] = [];
+
+  for (const period of periods) {
+    if (period.vehicle_class !== vehicleClass) continue;
+    const rule: ParkingRule = {
+      restriction: 'time_limit',
+      days: period.days,
+      windows: [{ start: period.start, end: period.end }],
+      anytime: false,
+      metered: true,
+      text: '',
+    };
+    for (const interval of ruleOccurrences(rule, arrival, departure, calendar)) {
+      const start = interval.start > arrival ? interval.start : arrival;
+      const end = interval.end < departure ? interval.end : departure;
+      if (end <= start) continue;
+      const hours = (end.getTime() - start.getTime()) / (60 * MINUTE_MS);
+      segments.push({ start, end, hourly_rate: period.hourly_rate, cost: roundCents(hours * period.hourly_rate), max_minutes: period.max_minutes });
+    }
+  }
+  segments.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // Time limits apply to continuous metered time, even across a rate change
+  let limitExceeded: ParkingCostEstimate['limit_exceeded'];
+  for (let i = 0; i < segments.length && !limitExceeded; ) {
+    let j = i;
+    let maxMinutes = segments[i].max_minutes;
+    while (j + 1 < segments.length && segments[j + 1].start.getTime() === segments[j].end.getTime()) {
+      j += 1;
+      const next = segments[j].max_minutes;
+      if (next !== undefined) maxMinutes = maxMinutes === undefined ? next : Math.min(maxMinutes, next);
+    }
+    const runMinutes = (segments[j].end.getTime() - segments[i].start.getTime()) / MINUTE_MS;
+    if (maxMinutes !== undefined && runMinutes > maxMinutes) {
+      limitExceeded = { max_minutes: maxMinutes, at: new Date(segments[i].start.getTime() + maxMinutes * MINUTE_MS) };
+    }
+    i = j + 1;
+  }
+
+  const paidMinutes = segments.reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()) / MINUTE_MS, 0);
+  const suspensions: SuspensionDay[] = [];
+  for (let day = startOfDay(arrival); day < departure; day = addDays(day, 1)) {
+    const suspension = calendar?.get(day);
+    if (suspension?.meters) suspensions.push(suspension);
+  }
+
+  return {
+    total: roundCents(segments.reduce((sum, s) => sum + s.cost, 0)),
+    paid_minutes: Math.round(paidMinutes),
+    free_minutes: Math.max(0, Math.round(durationMinutes - paidMinutes)),
+    segments: segments.map(({ start, end, hourly_rate, cost }) => ({ start, end, hourly_rate, cost })),
+    limit_exceeded: limitExceeded,
+    suspensions,
+  };
+}
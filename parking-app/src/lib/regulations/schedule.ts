@@ -0,0 +1,51 @@
+// Expands parsed rules into concrete time intervals in local time
+
+import type { ParkingRule } from '../types';
+import { WEEKDAYS } from './signParser';
+import { isRuleSuspended, SuspensionCalendar } from './suspensions';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+
+// Intervals in [from, to) during which `rule` is in effect, merged where they touch
+export function ruleOccurrences(
+  rule: ParkingRule,
+  from: Date,
+  to: Date,
+  calendar?: SuspensionCalendar
+): TimeInterval[] {
+  const days = rule.school_days ? WEEKDAYS : rule.days;
+  const intervals: TimeInterval[] = [];
+
+  // Start a day early so windows spanning midnight into `from` are included
+  for (let day = addDays(startOfDay(from), -1); day < to; day = addDays(day, 1)) {
+    if (!days.includes(day.getDay()) || isRuleSuspended(rule, day, calendar)) continue;
+    const windows = rule.anytime ? [{ start: 0, end: 24 * 60 }] : rule.windows;
+    for (const window of windows) {
+      const start = atMinutes(day, window.start);
+      const end = window.end > window.start ? atMinutes(day, window.end) : atMinutes(addDays(day, 1), window.end);
+      if (end > from && start < to) intervals.push({ start, end });
+    }
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,280 @@
+// Parser for NYC DOT parking sign descriptions, e.g.
+//   "NO PARKING (SANITATION BROOM SYMBOL) 8AM-9:30AM TUES & FRI <->"
+//   "NO STANDING 7AM-10AM 4PM-7PM EXCEPT SUNDAY"
+//   "2 HOUR METERED PARKING 9AM-7PM MON-SAT / NO STANDING 7AM-9AM MON-FRI"
+// Each clause of a description becomes one or more `ParkingRule`s.
+
+import type { ParkingRule, RestrictionClass, RuleTimeWindow, SignArrow } from '../types';
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_PATTERN =
+  /^(SUN(?:DAY)?|MON(?:DAY)?|TUE(?:S(?:DAY)?)?|WED(?:NESDAY)?|THU(?:R(?:S(?:DAY)?)?)?|FRI(?:DAY)?|SAT(?:URDAY)?)$/;
+const TIME_RANGE_PATTERN = /^(\d{1,2})(?::(\d{2}))?(AM|PM)?-(\d{1,2})(?::(\d{2}))?(AM|PM)$/;
+const TIME_LIMIT_PATTERN = /\b(\d+(?:\/\d+)?|ONE|TWO|THREE|FOUR)\s*(HOUR|HOURS|HR|HRS|MINUTE|MINUTES|MIN|MINS)\b/;
+
+const NUMBER_WORDS: Record<string, number> = { ONE: 1, TWO: 2, THREE: 3, FOUR: 4 };
+
+const dayIndex = (token: string) => ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'].indexOf(token.slice(0, 2));
+
+const toMinutes = (hour: number, minute: number, meridiem: string) => ((hour % 12) + (meridiem === 'PM' ? 12 : 0)) * 60 + minute;
+
+// "8-9:30AM" borrows the end's meridiem unless that would put the start after
+// the end ("11-1PM" starts at 11AM)
+function parseTimeRange(token: string): RuleTimeWindow | null {
+  const match = TIME_RANGE_PATTERN.exec(token);
+  if (!match) return null;
+  const [, sh, sm = '0', smer, eh, em = '0', emer] = match;
+  const startHour = Number(sh);
+  const endHour = Number(eh);
+  if (startHour > 12 || endHour > 12 || Number(sm) > 59 || Number(em) > 59) return null;
+
+  const end = toMinutes(endHour, Number(em), emer);
+  let start = toMinutes(startHour, Number(sm), smer ?? emer);
+  if (!smer && start > end) start = toMinutes(startHour, Number(sm), emer === 'PM' ? 'AM' : 'PM');
+  return { start, end };
+}
+
+// Extract the arrow and normalize spacing so ranges become single tokens
+function normalize(description: string): { text: string; arrow?: SignArrow } {
+  let text = description.toUpperCase();
+  let arrow: SignArrow | undefined;
+  if (/<-+>|<->/.test(text)) arrow = 'both';
+  else if (/-+>/.test(text)) arrow = 'right';
+  else if (/<-+/.test(text)) arrow = 'left';
+
+  text = text
+    .replace(/<-+>|-+>|<-+/g, ' ')
+    .replace(/\(?\s*(?:SANITATION\s+)?BROOM\s+SYMBOL\s*\)?/g, ' BROOM ')
+    .replace(/\bSTREET\s+CLEANING\b/g, ' BROOM ')
+    .replace(/A\.M\./g, 'AM')
+    .replace(/P\.M\./g, 'PM')
+    .replace(/\bMIDNIGHT\b/g, '12AM')
+    .replace(/\bNOON\b/g, '12PM')
+    .replace(/(\d)\s+(AM|PM)\b/g, '$1$2')
+    .replace(/\s+(?:THRU|THROUGH|TO)\s+/g, '-')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { text, arrow };
+}
+
+function classify(text: string): RestrictionClass {
+  if (/\bNO STOPPING\b/.test(text)) return 'no_stopping';
+  if (/\bBUS STOP\b/.test(text)) return 'bus_stop';
+  if (/\bLOADING ZONE\b/.test(text)) return 'loading_zone';
+  if (/\bNO STANDING\b/.test(text)) return 'no_standing';
+  if (/\bBROOM\b/.test(text)) return 'street_cleaning';
+  if (/\bNO PARKING\b/.test(text)) return 'no_parking';
+  if (/\bCOMMERCIAL VEHICLES ONLY\b/.test(text)) return 'commercial_only';
+  if (TIME_LIMIT_PATTERN.test(text)) return 'time_limit';
+  return 'unknown';
+}
+
+function parseTimeLimit(text: string): number | undefined {
+  const match = TIME_LIMIT_PATTERN.exec(text);
+  if (!match) return undefined;
+  const [, amount, unit] = match;
+  const [numerator, denominator = '1'] = amount.split('/');
+  const value = (NUMBER_WORDS[numerator] ?? Number(numerator)) / Number(denominator);
+  return Math.round(unit.startsWith('H') ? value * 60 : value);
+}
+
+interface Segment {
+  windows: RuleTimeWindow[];
+  days: Set<number> | null;
+  exceptDays: Set<number>;
+}
+
+// Read a day expression ("MON-FRI", "TUES & FRI", "SAT, SUN") starting at `i`
+function readDays(tokens: string[], i: number): { days: number[]; next: number } | null {
+  if (!DAY_PATTERN.test(tokens[i] ?? '')) return null;
+  const days: number[] = [];
+  let j = i;
+  while (DAY_PATTERN.test(tokens[j] ?? '')) {
+    const from = dayIndex(tokens[j]);
+    if (tokens[j + 1] === '-' && DAY_PATTERN.test(tokens[j + 2] ?? '')) {
+      const to = dayIndex(tokens[j + 2]);
+      for (let d = from; ; d = (d + 1) % 7) {
+        days.push(d);
+        if (d === to) break;
+      }
+      j += 3;
+    } else {
+      days.push(from);
+      j += 1;
+    }
+    if (['&', ',', 'AND', '/'].includes(tokens[j] ?? '') && DAY_PATTERN.test(tokens[j + 1] ?? '')) j += 1;
+    else break;
+  }
+  return { days, next: j };
+}
+
+function parseClause(clause: string, arrow: SignArrow | undefined): ParkingRule[] {
+  const tokens = clause.match(/\d{1,2}(?::\d{2})?(?:AM|PM)?-\d{1,2}(?::\d{2})?(?:AM|PM)|[A-Z]+|\d+(?:\/\d+)?|[&,/-]/g) ?? [];
+  const restriction = classify(clause);
+  const timeLimit = parseTimeLimit(clause);
+  const schoolDays = /\bSCHOOL DAYS?\b/.test(clause);
+  const exemptions: string[] = [];
+
+  const segments: Segment[] = [{ windows: [], days: null, exceptDays: new Set() }];
+  const current = () => segments[segments.length - 1];
+
+  for (let i = 0; i < tokens.length; ) {
+    const window = parseTimeRange(tokens[i]);
+    if (window) {
+      // A new time range after a segment's days starts another segment
+      // ("8AM-6PM MON-FRI 8AM-1PM SAT")
+      if (current().windows.length > 0 && current().days) {
+        segments.push({ windows: [], days: null, exceptDays: new Set() });
+      }
+      current().windows.push(window);
+      i += 1;
+      continue;
+    }
+
+    if (tokens[i] === 'EXCEPT') {
+      const exceptDays = readDays(tokens, i + 1);
+      if (exceptDays) {
+        exceptDays.days.forEach((d) => current().exceptDays.add(d));
+        i = exceptDays.next;
+        continue;
+      }
+      // Everything up to the next time range or day names the exempted vehicles
+      const words: string[] = [];
+      let j = i + 1;
+      while (j < tokens.length && !parseTimeRange(tokens[j]) && !DAY_PATTERN.test(tokens[j])) {
+        words.push(tokens[j]);
+        j += 1;
+      }
+      if (words.length > 0) exemptions.push(words.join(' ').replace(/ ([,/]) ?/g, '$1 '));
+      i = j;
+      continue;
+    }
+
+    const days = readDays(tokens, i);
+    if (days) {
+      const segment = current();
+      segment.days = new Set([...(segment.days ?? []), ...days.days]);
+      i = days.next;
+      continue;
+    }
+    i += 1;
+  }
+
+  const anytime = /\bANYTIME\b/.test(clause) || segments.every((s) => s.windows.length === 0);
+  return segments
+    .filter((s, index) => index === 0 || s.windows.length > 0)
+    .map((segment) => {
+      const base = segment.days ? [...segment.days] : schoolDays ? WEEKDAYS : ALL_DAYS;
+      const days = base.filter((d) => !segment.exceptDays.has(d)).sort((a, b) => a - b);
+      const rule: ParkingRule = {
+        restriction,
+        days,
+        windows: anytime ? [] : segment.windows,
+        anytime,
+        text: clause,
+      };
+      if (timeLimit !== undefined) rule.time_limit_minutes = timeLimit;
+      if (/\bMETER(?:ED|S)?\b/.test(clause)) rule.metered = true;
+      if (schoolDays) rule.school_days = true;
+      if (exemptions.length > 0) rule.except = exemptions.join('; ');
+      if (arrow) rule.direction = arrow;
+      return rule;
+    });
+}
+
+export interface ParsedSign {
+  rules: ParkingRule[];
+  arrow?: SignArrow;
+}
+
+// Parse a full sign description; clauses are separated by " / ", ";" or new lines
+export function parseSignDescription(description: string): ParsedSign {
+  const { text, arrow } = normalize(description.replace(/\s+\/\s+|;|\n/g, ' | '));
+  const rules = text
+    .split('|')
+    .map((clause) => clause.trim())
+    .filter(Boolean)
+    .flatMap((clause) => parseClause(clause, arrow));
+  return { rules, arrow };
+}
+
+// 480 -> "8am", 570 -> "9:30am", 720 -> "12pm"
+export function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const hour = Math.floor(normalized / 60);
+  const minute = normalized % 60;
+  const suffix = hour < 12 ? 'am' : 'pm';
+  const display = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0 ? `${display}${suffix}` : `${display}:${String(minute).padStart(2, '0')}${suffix}`;
+}
+
+// [1,2,3,4,5] -> "Mon–Fri", [2,5] -> "Tue & Fri", all days -> "Every day"
+export function formatDays(days: number[]): string {
+  if (days.length === 7) return 'Every day';
+  if (days.length === 0) return 'No days';
+  const sorted = [...days].sort((a, b) => a - b);
+  const runs: number[][] = [];
+  for (const day of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === day - 1) run.push(day);
+    else runs.push([day]);
+  }
+  // Saturday–Sunday wraps around the week
+  if (runs.length > 1 && runs[0][0] === 0 && runs[runs.length - 1].slice(-1)[0] === 6) {
+    runs[runs.length - 1].push(...runs.shift()!);
+  }
+  const parts = runs.map((run) =>
+    run.length > 2 ? `${DAY_NAMES[run[0]]}–${DAY_NAMES[run[run.length - 1]]}` : run.map((d) => DAY_NAMES[d]).join(' & ')
+  );
+  return parts.join(parts.length === 2 ? ' & ' : ', ');
+}
+
+const RESTRICTION_LABELS: Record<RestrictionClass, string> = {
+  no_stopping: 'No stopping',
+  no_standing: 'No standing',
+  no_parking: 'No parking',
+  street_cleaning: 'Street cleaning',
+  time_limit: 'Time-limited parking',
+  commercial_only: 'Commercial vehicles only',
+  loading_zone: 'Loading zone',
+  bus_stop: 'Bus stop',
+  unknown: 'Other regulation',
+};
+
+export const restrictionLabel = (restriction: RestrictionClass) => RESTRICTION_LABELS[restriction];
+
+// 120 -> "2 hr", 30 -> "30 min"
+export const formatTimeLimit = (minutes: number) => (minutes % 60 === 0 ? `${minutes / 60} hr` : `${minutes} min`);
+
+// "7am–10am, 4pm–7pm" or "Anytime"
+export const formatWindows = (rule: ParkingRule) =>
+  rule.anytime ? 'Anytime' : rule.windows.map((w) => `${formatMinutes(w.start)}–${formatMinutes(w.end)}`).join(', ');
+
+// "No parking · 8am–6pm · Mon–Fri"
+export function describeRule(rule: ParkingRule): string {
+  const label = rule.time_limit_minutes
+    ? `${formatTimeLimit(rule.time_limit_minutes)} ${rule.metered ? 'metered ' : ''}parking`
+    : RESTRICTION_LABELS[rule.restriction];
+  const parts = [label, formatWindows(rule), rule.school_days ? 'School days' : formatDays(rule.days)];
+  if (rule.except) parts.push(`except ${rule.except.toLowerCase()}`);
+  return parts.join(' · ');
+}
+
+// Attach parsed rules to a sign unless its source already provides them
+export function withParsedRules<T extends { description: string; rules?: ParkingRule[]; regulations?: string[] }>(
+  sign: T
+): T {
+  if (sign.rules) return sign;
+  const { rules, arrow } = parseSignDescription(sign.description ?? '');
+  return {
+    ...sign,
+    rules,
+    arrow,
+    regulations: sign.regulations?.length ? sign.regulations : rules.map(describeRule),
+  };
+}
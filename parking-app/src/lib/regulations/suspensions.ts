@@ -0,0 +1,103 @@
+// Alternate-side parking (ASP) and holiday suspension calendar. The bundled
+// `suspension_calendar` dataset can be amended from a local JSON file (e.g. an
+// emergency suspension); imported days replace bundled days with the same date.
+
+import { isObject, loadDatasetRecords, onDatasetUpdated } from '../data/datasetLoader';
+import type { ParkingRule, SuspensionDay } from '../types';
+import { storage } from '../utils';
+
+export interface SuspensionCalendar {
+  days: SuspensionDay[]; // sorted by date
+  overrides: number; // days imported from a local file
+  get(date: Date): SuspensionDay | undefined;
+  upcoming(from: Date, limit?: number): SuspensionDay[];
+}
+
+export function isSuspensionDay(record: unknown): record is SuspensionDay {
+  return (
+    isObject(record) &&
+    typeof record.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(record.date) &&
+    typeof record.holiday === 'string' &&
+    typeof record.alternate_side === 'boolean' &&
+    typeof record.meters === 'boolean'
+  );
+}
+
+// Local calendar date, e.g. "2026-12-25"
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export function createSuspensionCalendar(bundled: SuspensionDay[], overrides: SuspensionDay[] = []): SuspensionCalendar {
+  const byDate = new Map<string, SuspensionDay>();
+  bundled.forEach((day) => byDate.set(day.date, day));
+  overrides.forEach((day) => byDate.set(day.date, day));
+  const days = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    days,
+    overrides: overrides.length,
+    get: (date) => byDate.get(toDateKey(date)),
+    upcoming: (from, limit = 5) => {
+      const key = toDateKey(from);
+      return days.filter((day) => day.date >= key).slice(0, limit);
+    },
+  };
+}
+
+// Street cleaning stops on ASP holidays; on major legal holidays meters and
+// every rule not in effect 7 days a week are suspended too
+export function isRuleSuspended(rule: ParkingRule, date: Date, calendar?: SuspensionCalendar): boolean {
+  const suspension = calendar?.get(date);
+  if (!suspension) return false;
+  if (rule.restriction === 'street_cleaning' && suspension.alternate_side) return true;
+  return suspension.meters && (rule.metered === true || rule.days.length < 7);
+}
+
+// Holiday on which parking meters are not in effect, if `date` is one
+export function meterSuspension(date: Date, calendar?: SuspensionCalendar): SuspensionDay | undefined {
+  const suspension = calendar?.get(date);
+  return suspension?.meters ? suspension : undefined;
+}
+
+let calendarPromise: Promise<SuspensionCalendar> | null = null;
+onDatasetUpdated('suspension_calendar', () => {
+  calendarPromise = null;
+});
+
+export function loadSuspensionCalendar(): Promise<SuspensionCalendar> {
+  if (!calendarPromise) {
+    calendarPromise = loadDatasetRecords('suspension_calendar', isSuspensionDay)
+      .then((bundled) => createSuspensionCalendar(bundled, storage.getSuspensionOverrides().filter(isSuspensionDay)))
+      .catch((error) => {
+        calendarPromise = null;
+        throw error;
+      });
+  }
+  return calendarPromise;
+}
+
+// Import suspension days from a JSON file: either an array of days or a
+// `{ records: [...] }` envelope like the bundled dataset. Returns the number
+// of days imported.
+export async function importSuspensionFile(file: File): Promise<number> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  const records = Array.isArray(json) ? json : isObject(json) && Array.isArray(json.records) ? json.records : null;
+  const days = records?.filter(isSuspensionDay) ?? [];
+  if (days.length === 0) {
+    throw new Error(`${file.name} contains no suspension days`);
+  }
+  storage.setSuspensionOverrides(days);
+  calendarPromise = null;
+  return days.length;
+}
+
+export function resetSuspensionOverrides(): void {
+  storage.clearSuspensionOverrides();
+  calendarPromise = null;
+}
@@ -15,24 +15,109 @@ export interface ParkingSign {
   distance: number;
   description: string;
   street_name: string;
+  from_street?: string; // cross streets bounding the sign's block
+  to_street?: string;
+  side_of_street?: string; // N, S, E or W
   sign_type?: string;
-  regulations?: string[];
+  regulations?: string[]; // human-readable form of `rules`
+  rules?: ParkingRule[];
+  arrow?: SignArrow;
   borough?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// Parking regulation types (parsed from sign descriptions)
+export type RestrictionClass =
+  | 'no_stopping'
+  | 'no_standing'
+  | 'no_parking'
+  | 'street_cleaning'
+  | 'time_limit'
+  | 'commercial_only'
+  | 'loading_zone'
+  | 'bus_stop'
+  | 'unknown';
+
+// Direction of the arrow printed on a sign, relative to someone facing it
+export type SignArrow = 'left' | 'right' | 'both';
+
+export interface RuleTimeWindow {
+  start: number; // minutes after midnight
+  end: number; // minutes after midnight; end <= start spans midnight
+}
+
+export interface ParkingRule {
+  restriction: RestrictionClass;
+  days: number[]; // 0 = Sunday ... 6 = Saturday, as in Date.getDay()
+  windows: RuleTimeWindow[]; // empty when the rule applies at any time
+  anytime: boolean;
+  time_limit_minutes?: number;
+  metered?: boolean;
+  school_days?: boolean;
+  except?: string; // exempted vehicles, e.g. "TRUCKS LOADING & UNLOADING"
+  direction?: SignArrow;
+  text: string; // clause of the description the rule was parsed from
+}
+
+// Alternate-side parking / holiday suspension calendar
+export interface SuspensionDay {
+  date: string; // YYYY-MM-DD
+  holiday: string;
+  alternate_side: boolean; // street cleaning rules suspended
+  meters: boolean; // meters and rules not in effect 7 days a week suspended (major legal holidays)
+}
+
+// "Can I park here?" evaluation
+export type ParkingVerdictStatus = 'allowed' | 'restricted' | 'conditional';
+
+export interface ParkingEvaluationRequest {
+  start: Date;
+  duration_minutes: number;
+}
+
+export interface ParkingVerdict {
+  status: ParkingVerdictStatus;
+  summary: string;
+  sign?: ParkingSign; // sign that drives the verdict
+  rule?: ParkingRule;
+  restriction_start?: Date;
+  restriction_end?: Date;
+  time_limit_minutes?: number;
+  suspension?: SuspensionDay; // holiday suspension in effect on the start day
+  signs_evaluated: number;
+}
+
+export type VehicleClass = 'passenger' | 'commercial';
+
+export type MeterStatus = 'active' | 'inactive' | 'maintenance';
+
+// Hourly rate in effect on `days` between `start` and `end` (minutes after midnight)
+export interface MeterRatePeriod {
+  vehicle_class: VehicleClass;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: number;
+  end: number;
+  hourly_rate: number;
+  max_minutes?: number;
+}
+
 export interface MeterRate {
   id: string;
   latitude: number;
   longitude: number;
   distance: number;
+  walking_distance?: number; // meters along streets (estimated)
+  walking_minutes?: number;
   rate_schedule: {
     hours: string;
     rate: string;
     rate_type: 'hourly' | 'daily' | 'monthly';
+    vehicle_class?: VehicleClass;
   }[];
-  status: 'active' | 'inactive' | 'maintenance';
+  rate_periods?: MeterRatePeriod[];
+  rate_zone?: string;
+  status: MeterStatus;
   street_name: string;
   meter_type?: string;
   max_time_limit?: string;
@@ -50,10 +135,13 @@ export interface ViolationTrend {
   count: number;
   total_fines: number;
   average_fine: number;
-  trend_direction: 'up' | 'down' | 'stable';
-  percentage_change?: number;
+  trend_direction: TrendDirection;
+  percentage_change?: number; // vs. the same period one year earlier
+  previous_count?: number; // unset when the dataset does not cover the prior period
 }
 
+export type TrendDirection = 'up' | 'down' | 'stable';
+
 export interface Violation {
   id: string;
   latitude: number;
@@ -74,6 +162,18 @@ export interface Violation {
   payment_date?: string;
 }
 
+// Paginated result of a violations search
+// Counts by violation type, each indexed [day][hour] (0 = Sunday)
+export type ViolationTimeMatrixCounts = Record<string, number[][]>;
+
+export interface ViolationsResponse {
+  violations: Violation[];
+  total: number; // matches before limit/offset are applied
+  limit: number;
+  offset: number;
+  time_matrix?: ViolationTimeMatrixCounts; // every match before `time_slot`, when requested
+}
+
 export interface DataStatus {
   parking_signs: {
     total_count: number;
@@ -96,33 +196,66 @@ export interface DataStatus {
 }
 
 // API Request Types
-export interface ParkingSignsRequest {
+export interface RadiusQuery {
   lat: number;
   lon: number;
   radius: number; // in meters
 }
 
+// Polygon rings are GeoJSON-ordered [lon, lat] positions; closing the ring is optional
+export type SearchArea =
+  | { type: 'bbox'; north: number; south: number; east: number; west: number }
+  | { type: 'polygon'; coordinates: [number, number][] };
+
+export type BoundingBox = Extract<SearchArea, { type: 'bbox' }>;
+
+// Everything inside an area; distances are measured from the area's centre
+export interface AreaQuery {
+  area: SearchArea;
+}
+
+export type ParkingSignsRequest = (RadiusQuery | AreaQuery) & {
+  limit?: number; // nearest N signs; all when omitted
+};
+
 export interface MeterRateRequest {
   lat: number;
   lon: number;
 }
 
+export type MeterRatesRequest = (RadiusQuery | AreaQuery) & {
+  limit?: number; // nearest N meters; all inside an area when omitted
+  status?: MeterStatus[]; // all statuses when omitted
+};
+
 export interface ViolationTrendsRequest {
   borough: 'manhattan' | 'brooklyn' | 'queens' | 'bronx' | 'staten_island';
   year: number;
   month?: number;
+  stable_threshold?: number; // percent change treated as stable
+  min_count?: number; // minimum violations for a direction to be reported
 }
 
 export interface ViolationsRequest {
   lat?: number;
   lon?: number;
   radius?: number; // in meters
+  area?: SearchArea; // replaces lat/lon/radius when set
   borough?: Borough;
   violation_type?: string;
   start_date?: string; // YYYY-MM-DD format
   end_date?: string; // YYYY-MM-DD format
   limit?: number; // max number of results
   offset?: number; // for pagination
+  time_slot?: ViolationTimeSlot; // only violations written in this slot
+  time_matrix?: boolean; // include `time_matrix` counts in the response
+}
+
+// Day of week (0 = Sunday) and hour a violation was written, optionally for one type
+export interface ViolationTimeSlot {
+  day: number;
+  hour: number;
+  violation_type?: string;
 }
 
 // UI Component Types
@@ -132,6 +265,39 @@ export interface MapLocation {
   address?: string;
 }
 
+// What the map is showing once it stops moving
+export interface MapViewport {
+  bounds: BoundingBox;
+  zoom: number;
+}
+
+// Layers listed in the map's layer panel
+export type MapLayerId =
+  | 'signs'
+  | 'meters'
+  | 'violation_clusters'
+  | 'violation_heatmap'
+  | 'search_radius'
+  | 'boroughs'
+  | 'bookmarks';
+
+export interface MapLayerSetting {
+  visible: boolean;
+  opacity: number; // 0-1
+}
+
+// Quick filters; an empty list shows everything
+export interface MapLayerFilters {
+  sign_classes: string[]; // block face classes, e.g. "free"
+  meter_statuses: MeterStatus[];
+  violation_types: string[];
+}
+
+export interface MapLayersState {
+  layers: Record<MapLayerId, MapLayerSetting>;
+  filters: MapLayerFilters;
+}
+
 export interface SearchFilters {
   radius?: number;
   signType?: string;
@@ -148,7 +314,8 @@ export interface BookmarkedLocation {
   latitude: number;
   longitude: number;
   address: string;
-  type: 'parking_sign' | 'meter' | 'custom';
+  type: 'parking_sign' | 'meter' | 'custom' | 'area';
+  area?: SearchArea; // area bookmarks; latitude/longitude is its centre
   created_at: string;
 }
 
@@ -1,11 +1,14 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { BookmarkedLocation, SearchHistoryItem, MapLocation } from './types';
+import { BookmarkedLocation, SearchHistoryItem, MapLocation, SuspensionDay } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Fired on window when this tab saves or removes a bookmark; other tabs get a `storage` event
+const BOOKMARKS_CHANGED_EVENT = 'nyc-parking-bookmarks-changed';
+
 // Local Storage utilities
 export const storage = {
   // Bookmarks
@@ -29,12 +32,28 @@ export const storage = {
     };
     bookmarks.push(newBookmark);
     localStorage.setItem('nyc-parking-bookmarks', JSON.stringify(bookmarks));
+    window.dispatchEvent(new Event(BOOKMARKS_CHANGED_EVENT));
   },
 
   removeBookmark(id: string): void {
     if (typeof window === 'undefined') return;
     const bookmarks = this.getBookmarks().filter(b => b.id !== id);
     localStorage.setItem('nyc-parking-bookmarks', JSON.stringify(bookmarks));
+    window.dispatchEvent(new Event(BOOKMARKS_CHANGED_EVENT));
+  },
+
+  // Called after bookmarks are saved or removed, in this tab or another one
+  onBookmarksChange(listener: () => void): () => void {
+    if (typeof window === 'undefined') return () => {};
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === 'nyc-parking-bookmarks' || event.key === null) listener();
+    };
+    window.addEventListener(BOOKMARKS_CHANGED_EVENT, listener);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(BOOKMARKS_CHANGED_EVENT, listener);
+      window.removeEventListener('storage', onStorage);
+    };
   },
 
   // Search History
@@ -72,6 +91,39 @@ export const storage = {
     localStorage.removeItem('nyc-parking-search-history');
   },
 
+  // Suspension calendar entries imported from a local file
+  getSuspensionOverrides(): SuspensionDay[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const overrides = localStorage.getItem('nyc-parking-suspensions');
+      return overrides ? JSON.parse(overrides) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  setSuspensionOverrides(days: SuspensionDay[]): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('nyc-parking-suspensions', JSON.stringify(days));
+  },
+
+  clearSuspensionOverrides(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem('nyc-parking-suspensions');
+  },
+
+  // Map layer panel, as encoded by encodeMapLayers
+  getMapLayers(): string | null {
+    if (typeof window === 'undefined') return null;
+    return localStorage.getItem('nyc-parking-map-layers');
+  },
+
+  setMapLayers(value: string): void {
+    if (typeof window === 'undefined') return;
+    if (value) localStorage.setItem('nyc-parking-map-layers', value);
+    else localStorage.removeItem('nyc-parking-map-layers');
+  },
+
   // Theme
   getTheme(): 'light' | 'dark' | 'system' {
     if (typeof window === 'undefined') return 'system';
@@ -114,6 +166,16 @@ export const dateUtils = {
     });
   },
 
+  // Hour of the day as "8am", "12pm"
+  formatHour(hour: number): string {
+    return `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+  },
+
+  // Local "YYYY-MM-DDTHH:mm", as used by datetime-local inputs and the `at` URL parameter
+  toLocalInput(date: Date): string {
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  },
+
   isRecent(dateString: string, hoursThreshold: number = 24): boolean {
     const date = new Date(dateString);
     const now = new Date();
@@ -204,6 +266,32 @@ export const exportUtils = {
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   },
+
+  downloadICS(calendar: string, filename: string): void {
+    const blob = new Blob([calendar], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+
+  downloadGeoJSON(data: unknown, filename: string): void {
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.geojson`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
 };
 
 // URL utilities
@@ -237,6 +325,46 @@ export const urlUtils = {
     
     return null;
   },
+
+  // Keep the current page's URL in step with its search, without a navigation
+  replaceSearchParams(location: MapLocation, radius: number, extra: Record<string, string | undefined> = {}): void {
+    if (typeof window === 'undefined') return;
+
+    const params = new URLSearchParams();
+    params.set('lat', location.latitude.toString());
+    params.set('lon', location.longitude.toString());
+    if (location.address) params.set('address', location.address);
+    params.set('radius', radius.toString());
+    Object.entries(extra).forEach(([name, value]) => {
+      if (value !== undefined) params.set(name, value);
+    });
+    // The map's layer settings are kept alongside the search
+    const layers = new URLSearchParams(window.location.search).get('layers');
+    if (layers) params.set('layers', layers);
+
+    window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`);
+  },
+
+  // Set or clear one parameter, keeping the rest of the URL
+  replaceSearchParam(name: string, value?: string): void {
+    if (typeof window === 'undefined') return;
+
+    const params = new URLSearchParams(window.location.search);
+    if (value === undefined) params.delete(name);
+    else params.set(name, value);
+
+    const query = params.toString();
+    window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  },
+
+  // Regulation time from the `at` parameter; undefined when absent or invalid.
+  // Reads the page URL unless given the params, e.g. from `useSearchParams`
+  parseTimeFromURL(params?: Pick<URLSearchParams, 'get'>): Date | undefined {
+    if (!params && typeof window === 'undefined') return undefined;
+    const at = (params ?? new URLSearchParams(window.location.search)).get('at');
+    const time = at ? new Date(at) : undefined;
+    return time && !isNaN(time.getTime()) ? time : undefined;
+  },
 };
 
 // Error handling utilities
@@ -302,9 +430,20 @@ export const performanceUtils = {
 export const constants = {
   NYC_CENTER: { latitude: 40.7128, longitude: -74.0060 },
   DEFAULT_RADIUS: 500, // meters
+  BLOCK_FACE_RADIUS: 120, // meters; signs this close on the same street side form a block face
+  METER_RESULTS_LIMIT: 25,
   MAX_RADIUS: 5000, // meters
   SEARCH_DEBOUNCE_MS: 300,
+  VIEWPORT_DEBOUNCE_MS: 400, // wait for the map to settle before searching the visible area
+  VIEWPORT_MIN_ZOOM: 12, // below this the visible area is too large to search
+  VIEWPORT_RESULT_LIMIT: 2000, // per dataset; zooming in narrows the area until everything in view fits
   API_TIMEOUT_MS: 10000,
+  VIOLATIONS_PAGE_SIZE: 500,
+  MAX_VIOLATIONS_LIMIT: 5000,
+  TREND_STABLE_PERCENT: 5, // changes within ±5% of the prior year count as stable
+  TREND_MIN_COUNT: 5, // fewer violations than this in both years is too few to call a trend
+  TICKET_RISK_RADIUS: 150, // meters; violations this close count toward a location's risk
+  TICKET_RISK_CONTEXT_RADIUS: 1000, // meters; the neighbourhood a location's enforcement is compared with
   TOAST_DURATION_MS: 4000,
   MAP_ZOOM: {
     CITY: 10,
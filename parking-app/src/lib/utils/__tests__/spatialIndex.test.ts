@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+
+import { haversineDistance } from '../geospatial';
+import { BoundingBox, createSpatialIndex, SpatialMatch } from '../spatialIndex';
+
+interface Point {
+  id: number;
+  latitude: number;
+  longitude: number;
+}
+
+const CELL_SIZE = 250;
+const METERS_PER_DEGREE_LAT = 111320;
+const METERS_PER_DEGREE_LON = METERS_PER_DEGREE_LAT * Math.cos((40.7 * Math.PI) / 180);
+
+// Deterministic PRNG so failures reproduce
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+function randomPoints(count: number, bounds: BoundingBox, seed: number, firstId = 0): Point[] {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    id: firstId + i,
+    latitude: bounds.south + next() * (bounds.north - bounds.south),
+    longitude: bounds.west + next() * (bounds.east - bounds.west),
+  }));
+}
+
+// The linear scans the index replaces
+const linearRadius = (points: Point[], lat: number, lon: number, radius: number) =>
+  points
+    .map((item) => ({ item, distance: haversineDistance(lat, lon, item.latitude, item.longitude) }))
+    .filter((m) => m.distance <= radius)
+    .sort((a, b) => a.distance - b.distance);
+
+const linearBounds = (points: Point[], b: BoundingBox) =>
+  points.filter((p) => p.latitude >= b.south && p.latitude <= b.north && p.longitude >= b.west && p.longitude <= b.east);
+
+const linearNearest = (points: Point[], lat: number, lon: number, k: number, maxDistance = Infinity) =>
+  linearRadius(points, lat, lon, maxDistance).slice(0, k);
+
+const ids = (matches: SpatialMatch<Point>[]) => matches.map((m) => m.item.id);
+const sortedIds = (points: Point[]) => points.map((p) => p.id).sort((a, b) => a - b);
+
+const MIDTOWN: BoundingBox = { north: 40.77, south: 40.74, east: -73.96, west: -74.0 };
+
+describe('createSpatialIndex', () => {
+  const points = randomPoints(2000, MIDTOWN, 7);
+  const index = createSpatialIndex(points, (p) => p, { cellSizeMeters: CELL_SIZE });
+  const queries = randomPoints(25, { north: 40.78, south: 40.73, east: -73.95, west: -74.01 }, 11);
+
+  it('matches a linear scan for radius queries', () => {
+    for (const q of queries) {
+      for (const radius of [0, 50, 249, 250, 600, 2500]) {
+        expect(ids(index.withinRadius(q.latitude, q.longitude, radius))).toEqual(
+          ids(linearRadius(points, q.latitude, q.longitude, radius))
+        );
+      }
+    }
+  });
+
+  it('matches a linear scan for bounding-box queries', () => {
+    for (const q of queries) {
+      const box = { north: q.latitude + 0.004, south: q.latitude - 0.003, east: q.longitude + 0.005, west: q.longitude - 0.002 };
+      expect(sortedIds(index.withinBounds(box))).toEqual(sortedIds(linearBounds(points, box)));
+    }
+  });
+
+  it('matches a linear scan for nearest queries', () => {
+    for (const q of queries) {
+      for (const k of [1, 5, 40]) {
+        expect(ids(index.nearest(q.latitude, q.longitude, k))).toEqual(ids(linearNearest(points, q.latitude, q.longitude, k)));
+        expect(ids(index.nearest(q.latitude, q.longitude, k, 150))).toEqual(
+          ids(linearNearest(points, q.latitude, q.longitude, k, 150))
+        );
+      }
+    }
+  });
+
+  it('skips points without a finite position', () => {
+    const withGaps = [...points.slice(0, 3), { id: -1, latitude: NaN, longitude: -73.98 }];
+    const partial = createSpatialIndex(withGaps, (p) => p);
+    expect(partial.size).toBe(3);
+    expect(ids(partial.nearest(40.75, -73.98, 10))).not.toContain(-1);
+  });
+
+  describe('points on cell borders', () => {
+    // Corners of the grid cells around Midtown, where a point belongs to the next cell over
+    const borderLat = (y: number) => (y * CELL_SIZE) / METERS_PER_DEGREE_LAT;
+    const borderLon = (x: number) => (x * CELL_SIZE) / METERS_PER_DEGREE_LON;
+    const y0 = Math.ceil((40.75 * METERS_PER_DEGREE_LAT) / CELL_SIZE);
+    const x0 = Math.ceil((-73.98 * METERS_PER_DEGREE_LON) / CELL_SIZE);
+    const border: Point[] = [];
+    for (let dy = 0; dy < 3; dy++) {
+      for (let dx = 0; dx < 3; dx++) {
+        border.push({ id: border.length, latitude: borderLat(y0 + dy), longitude: borderLon(x0 + dx) });
+      }
+    }
+    const borderIndex = createSpatialIndex(border, (p) => p, { cellSizeMeters: CELL_SIZE });
+
+    it('finds them with boxes whose edges lie on the border', () => {
+      const box = { north: borderLat(y0 + 1), south: borderLat(y0), east: borderLon(x0 + 1), west: borderLon(x0) };
+      expect(sortedIds(borderIndex.withinBounds(box))).toEqual([0, 1, 3, 4]);
+      expect(sortedIds(borderIndex.withinBounds(box))).toEqual(sortedIds(linearBounds(border, box)));
+    });
+
+    it('finds them with radius and nearest queries from a neighbouring cell', () => {
+      const center = border[4];
+      const lat = center.latitude - 0.0001;
+      const lon = center.longitude - 0.0001;
+      for (const radius of [20, CELL_SIZE, 400]) {
+        expect(ids(borderIndex.withinRadius(lat, lon, radius))).toEqual(ids(linearRadius(border, lat, lon, radius)));
+      }
+      expect(ids(borderIndex.nearest(lat, lon, 4))).toEqual(ids(linearNearest(border, lat, lon, 4)));
+    });
+
+    it('finds a point exactly on the radius when queried from another point', () => {
+      const [a, b] = border;
+      const distance = haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+      expect(ids(borderIndex.withinRadius(a.latitude, a.longitude, distance))).toEqual(
+        ids(linearRadius(border, a.latitude, a.longitude, distance))
+      );
+    });
+  });
+
+  describe('sparse data', () => {
+    // Two clusters 20km apart with nothing but empty cells between them
+    const sparse = [
+      ...randomPoints(30, { north: 40.6, south: 40.595, east: -74.05, west: -74.055 }, 3),
+      ...randomPoints(30, { north: 40.78, south: 40.775, east: -73.85, west: -73.855 }, 5, 100),
+    ];
+    const sparseIndex = createSpatialIndex(sparse, (p) => p, { cellSizeMeters: CELL_SIZE });
+    const gap = { latitude: 40.69, longitude: -73.95 };
+
+    it('returns nothing from an empty part of the grid', () => {
+      expect(sparseIndex.withinRadius(gap.latitude, gap.longitude, 1000)).toEqual([]);
+      expect(sparseIndex.withinBounds({ north: 40.7, south: 40.68, east: -73.94, west: -73.96 })).toEqual([]);
+      expect(sparseIndex.nearest(gap.latitude, gap.longitude, 3, 1000)).toEqual([]);
+    });
+
+    it('walks across empty cells to the nearest points', () => {
+      for (const k of [1, 10, 45]) {
+        expect(ids(sparseIndex.nearest(gap.latitude, gap.longitude, k))).toEqual(
+          ids(linearNearest(sparse, gap.latitude, gap.longitude, k))
+        );
+      }
+    });
+
+    it('handles queries reaching outside the grid', () => {
+      // A point in New Jersey, far from every cell
+      const far = { latitude: 40.2, longitude: -74.8 };
+      expect(ids(sparseIndex.nearest(far.latitude, far.longitude, 5))).toEqual(
+        ids(linearNearest(sparse, far.latitude, far.longitude, 5))
+      );
+      expect(ids(sparseIndex.withinRadius(far.latitude, far.longitude, 80_000))).toEqual(
+        ids(linearRadius(sparse, far.latitude, far.longitude, 80_000))
+      );
+      const everywhere = { north: 45, south: 35, east: -70, west: -80 };
+      expect(sortedIds(sparseIndex.withinBounds(everywhere))).toEqual(sortedIds(sparse));
+    });
+
+    it('returns every point when k exceeds the dataset', () => {
+      expect(sparseIndex.nearest(gap.latitude, gap.longitude, 500)).toHaveLength(sparse.length);
+    });
+  });
+
+  it('answers empty results from an empty index', () => {
+    const empty = createSpatialIndex<Point>([], (p) => p);
+    expect(empty.size).toBe(0);
+    expect(empty.withinRadius(40.75, -73.98, 1000)).toEqual([]);
+    expect(empty.withinBounds(MIDTOWN)).toEqual([]);
+    expect(empty.nearest(40.75, -73.98, 5)).toEqual([]);
+  });
+});
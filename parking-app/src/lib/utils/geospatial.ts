@@ -0,0 +1,169 @@
+// Geospatial helpers shared by the data sources and `apiUtils`.
+// All distances are in meters; coordinates are WGS84 degrees.
+
+import type { SearchArea } from '../types';
+
+export type LatLon = [latitude: number, longitude: number];
+
+export const EARTH_RADIUS_METERS = 6371e3;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two coordinates (Haversine formula)
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = toRadians(lat1);
+  const φ2 = toRadians(lat2);
+  const Δφ = toRadians(lat2 - lat1);
+  const Δλ = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+// Tuple form of `haversineDistance`
+export function calculateDistance(from: LatLon, to: LatLon): number {
+  return haversineDistance(from[0], from[1], to[0], to[1]);
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Point reached by travelling `distance` meters from a coordinate on an
+// initial bearing (degrees clockwise from north)
+export function destinationPoint(lat: number, lon: number, distance: number, bearing: number): LatLon {
+  const δ = distance / EARTH_RADIUS_METERS;
+  const θ = toRadians(bearing);
+  const φ1 = toRadians(lat);
+  const λ1 = toRadians(lon);
+
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+
+  return [toDegrees(φ2), ((toDegrees(λ2) + 540) % 360) - 180];
+}
+
+// Closed ring of points `radius` meters from the center, as GeoJSON [lon, lat] positions
+export function geodesicCircle(lat: number, lon: number, radius: number, steps: number = 64): [number, number][] {
+  const ring: [number, number][] = [];
+  for (let i = 0; i < steps; i++) {
+    const [pointLat, pointLon] = destinationPoint(lat, lon, radius, (i * 360) / steps);
+    ring.push([pointLon, pointLat]);
+  }
+  ring.push(ring[0]);
+  return ring;
+}
+
+// Street routes in a grid run ~30% longer than the straight line; people walk ~80 m/min
+export const WALKING_DETOUR_FACTOR = 1.3;
+export const WALKING_SPEED_METERS_PER_MINUTE = 80;
+
+// Estimated walking distance and time for a straight-line distance
+export function estimateWalk(distance: number): { distance: number; minutes: number } {
+  const walking = distance * WALKING_DETOUR_FACTOR;
+  return { distance: walking, minutes: Math.max(1, Math.round(walking / WALKING_SPEED_METERS_PER_MINUTE)) };
+}
+
+// Keep items within `radius` meters of the point, nearest first, annotated with their distance
+export function filterByRadius<T extends { latitude: number; longitude: number }>(
+  items: T[],
+  lat: number,
+  lon: number,
+  radius: number
+): (T & { distance_meters: number })[] {
+  const result: (T & { distance_meters: number })[] = [];
+  for (const item of items) {
+    const distance = haversineDistance(lat, lon, item.latitude, item.longitude);
+    if (distance <= radius) result.push({ ...item, distance_meters: distance });
+  }
+  return result.sort((a, b) => a.distance_meters - b.distance_meters);
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Polygon ring without the repeated closing position
+function openRing(coordinates: [number, number][]): [number, number][] {
+  const first = coordinates[0];
+  const last = coordinates[coordinates.length - 1];
+  return coordinates.length > 1 && first[0] === last[0] && first[1] === last[1] ? coordinates.slice(0, -1) : coordinates;
+}
+
+export function areaBounds(area: SearchArea): { north: number; south: number; east: number; west: number } {
+  if (area.type === 'bbox') return { north: area.north, south: area.south, east: area.east, west: area.west };
+  const lons = area.coordinates.map(([lon]) => lon);
+  const lats = area.coordinates.map(([, lat]) => lat);
+  return { north: Math.max(...lats), south: Math.min(...lats), east: Math.max(...lons), west: Math.min(...lons) };
+}
+
+// Centre of the area: the bbox centre, or the polygon's centroid
+export function areaCenter(area: SearchArea): LatLon {
+  if (area.type === 'bbox') return [(area.north + area.south) / 2, (area.east + area.west) / 2];
+  const ring = openRing(area.coordinates);
+  // Shoelace centroid; degenerate rings fall back to the vertex average
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+  ring.forEach(([x0, y0], i) => {
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    const cross = x0 * y1 - x1 * y0;
+    twiceArea += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  });
+  if (Math.abs(twiceArea) < 1e-12) {
+    return [ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length, ring.reduce((sum, [lon]) => sum + lon, 0) / ring.length];
+  }
+  return [cy / (3 * twiceArea), cx / (3 * twiceArea)];
+}
+
+// Ray casting; fine at city scale where edges are short enough to treat as straight
+export function isInArea(lat: number, lon: number, area: SearchArea): boolean {
+  if (area.type === 'bbox') return lat >= area.south && lat <= area.north && lon >= area.west && lon <= area.east;
+  const ring = openRing(area.coordinates);
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Area in square meters on a local equirectangular projection
+export function areaSquareMeters(area: SearchArea): number {
+  const ring = areaRing(area).slice(0, -1);
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos(toRadians(areaCenter(area)[0]));
+  let twiceArea = 0;
+  ring.forEach(([x0, y0], i) => {
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    twiceArea += x0 * metersPerDegreeLon * y1 * METERS_PER_DEGREE_LAT - x1 * metersPerDegreeLon * y0 * METERS_PER_DEGREE_LAT;
+  });
+  return Math.abs(twiceArea) / 2;
+}
+
+// Closed GeoJSON ring ([lon, lat] positions) outlining the area
+export function areaRing(area: SearchArea): [number, number][] {
+  const ring: [number, number][] =
+    area.type === 'bbox'
+      ? [[area.west, area.south], [area.east, area.south], [area.east, area.north], [area.west, area.north]]
+      : openRing(area.coordinates);
+  return [...ring, ring[0]];
+}
+
+// Flat x/y frame in meters (x east, y north) around an origin; accurate over a few km
+export function localProjection(originLat: number, originLon: number) {
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos(toRadians(originLat));
+  return {
+    toXY: (lat: number, lon: number): [number, number] => [
+      (lon - originLon) * metersPerDegreeLon,
+      (lat - originLat) * METERS_PER_DEGREE_LAT,
+    ],
+    // Back to a GeoJSON [lon, lat] position
+    toLonLat: (x: number, y: number): [number, number] => [
+      originLon + x / metersPerDegreeLon,
+      originLat + y / METERS_PER_DEGREE_LAT,
+    ],
+  };
+}
@@ -0,0 +1,157 @@
+// Uniform-grid spatial index for point datasets (signs, meters, violations).
+// Points are bucketed into square cells on a local equirectangular projection,
+// so radius, bounding-box and k-nearest queries only scan nearby cells instead
+// of the whole dataset. Exact distances are still computed with haversine.
+
+import { haversineDistance } from './geospatial';
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number; // meters from the query point
+}
+
+export interface SpatialIndex<T> {
+  readonly size: number;
+  withinRadius(lat: number, lon: number, radius: number): SpatialMatch<T>[];
+  withinBounds(bounds: BoundingBox): T[];
+  nearest(lat: number, lon: number, k?: number, maxDistance?: number): SpatialMatch<T>[];
+}
+
+export interface SpatialIndexOptions {
+  cellSizeMeters?: number;
+  referenceLatitude?: number;
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+const DEFAULT_CELL_SIZE_METERS = 250;
+const NYC_REFERENCE_LATITUDE = 40.7;
+
+export function createSpatialIndex<T>(
+  items: readonly T[],
+  getPosition: (item: T) => { latitude: number; longitude: number },
+  options: SpatialIndexOptions = {}
+): SpatialIndex<T> {
+  const cellSize = options.cellSizeMeters ?? DEFAULT_CELL_SIZE_METERS;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos(((options.referenceLatitude ?? NYC_REFERENCE_LATITUDE) * Math.PI) / 180);
+  // Cells are slightly smaller than `cellSize` away from the reference latitude;
+  // pad ring searches so the projection error can never hide a candidate.
+  const projectionSlack = 1.05;
+
+  const lats = new Float64Array(items.length);
+  const lons = new Float64Array(items.length);
+  const cells = new Map<string, number[]>();
+
+  const cellX = (lon: number) => Math.floor((lon * metersPerDegreeLon) / cellSize);
+  const cellY = (lat: number) => Math.floor((lat * METERS_PER_DEGREE_LAT) / cellSize);
+  const key = (x: number, y: number) => `${x}:${y}`;
+
+  let size = 0;
+  items.forEach((item, i) => {
+    const { latitude, longitude } = getPosition(item);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+    lats[i] = latitude;
+    lons[i] = longitude;
+    const k = key(cellX(longitude), cellY(latitude));
+    const bucket = cells.get(k);
+    if (bucket) bucket.push(i);
+    else cells.set(k, [i]);
+    size++;
+  });
+
+  // Visit every indexed point in the cells covering [x0..x1] × [y0..y1]
+  const scan = (x0: number, x1: number, y0: number, y1: number, visit: (i: number) => void) => {
+    // Sparse datasets: iterating buckets beats iterating an enormous empty range
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > cells.size) {
+      cells.forEach((bucket, k) => {
+        const [x, y] = k.split(':').map(Number);
+        if (x >= x0 && x <= x1 && y >= y0 && y <= y1) bucket.forEach(visit);
+      });
+      return;
+    }
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        cells.get(key(x, y))?.forEach(visit);
+      }
+    }
+  };
+
+  return {
+    size,
+
+    withinRadius(lat, lon, radius) {
+      const dLat = (radius * projectionSlack) / METERS_PER_DEGREE_LAT;
+      const dLon = (radius * projectionSlack) / metersPerDegreeLon;
+      const matches: SpatialMatch<T>[] = [];
+      scan(cellX(lon - dLon), cellX(lon + dLon), cellY(lat - dLat), cellY(lat + dLat), (i) => {
+        const distance = haversineDistance(lat, lon, lats[i], lons[i]);
+        if (distance <= radius) matches.push({ item: items[i], distance });
+      });
+      return matches.sort((a, b) => a.distance - b.distance);
+    },
+
+    withinBounds(bounds) {
+      const result: T[] = [];
+      scan(cellX(bounds.west), cellX(bounds.east), cellY(bounds.south), cellY(bounds.north), (i) => {
+        if (lats[i] >= bounds.south && lats[i] <= bounds.north && lons[i] >= bounds.west && lons[i] <= bounds.east) {
+          result.push(items[i]);
+        }
+      });
+      return result;
+    },
+
+    nearest(lat, lon, k = 1, maxDistance = Infinity) {
+      if (size === 0 || k <= 0) return [];
+      const cx = cellX(lon);
+      const cy = cellY(lat);
+      const maxRing = Number.isFinite(maxDistance) ? Math.ceil((maxDistance * projectionSlack) / cellSize) + 1 : Infinity;
+      const candidates: SpatialMatch<T>[] = [];
+      let seen = 0;
+
+      // Expand square rings of cells until the k-th candidate is provably closer
+      // than anything in the next ring, or every indexed point has been seen.
+      const visit = (i: number) => {
+        seen++;
+        const distance = haversineDistance(lat, lon, lats[i], lons[i]);
+        if (distance <= maxDistance) candidates.push({ item: items[i], distance });
+      };
+      for (let ring = 0; ring <= maxRing; ring++) {
+        // Query point far from the data: scanning every bucket once is cheaper
+        // than walking ever larger rings of mostly empty cells.
+        if ((2 * ring + 1) ** 2 > cells.size * 4) {
+          candidates.length = 0;
+          cells.forEach((bucket) => bucket.forEach(visit));
+          break;
+        }
+        if (ring === 0) {
+          cells.get(key(cx, cy))?.forEach(visit);
+        } else {
+          for (let x = cx - ring; x <= cx + ring; x++) {
+            cells.get(key(x, cy - ring))?.forEach(visit);
+            cells.get(key(x, cy + ring))?.forEach(visit);
+          }
+          for (let y = cy - ring + 1; y <= cy + ring - 1; y++) {
+            cells.get(key(cx - ring, y))?.forEach(visit);
+            cells.get(key(cx + ring, y))?.forEach(visit);
+          }
+        }
+
+        if (seen >= size) break;
+        if (candidates.length >= k) {
+          candidates.sort((a, b) => a.distance - b.distance);
+          // Anything outside this ring is at least `ring * cellSize` away
+          const guaranteed = (ring * cellSize) / projectionSlack;
+          if (candidates[k - 1].distance <= guaranteed) break;
+        }
+      }
+
+      return candidates.sort((a, b) => a.distance - b.distance).slice(0, k);
+    },
+  };
+}